@@ -13,13 +13,24 @@ import { resultsCommand } from './commands/results.js';
 import { standingsCommand } from './commands/standings.js';
 import { teamCommand } from './commands/team.js';
 import { calendarCommand } from './commands/calendar.js';
+import { calendarServeCommand } from './commands/calendar-serve.js';
 import { notifyCommand } from './commands/notify.js';
+import { notifySmtpLoginCommand } from './commands/notify-smtp.js';
+import { notifyHistoryCommand } from './commands/notify-history.js';
 import { statusCommand } from './commands/status.js';
 import { doctorCommand } from './commands/doctor.js';
 import { openclawInitCommand } from './commands/openclaw.js';
 import { marketPulseCommand } from './commands/market-pulse.js';
+import { watchCommand } from './commands/watch.js';
+import { h2hCommand } from './commands/h2h.js';
 import { setConfigPathOverride, setTimeZoneOverride } from './lib/config.js';
-import { parseTimeZoneOption } from './lib/cli-options.js';
+import {
+  parseAlarmOption,
+  parseDigestFormatOption,
+  parseDateOption,
+  parsePositiveIntegerOption,
+  parseTimeZoneOption,
+} from './lib/cli-options.js';
 import { exitLabel, inferExitCodeFromMessage } from './lib/exit-codes.js';
 import { AGENT_ENVELOPE_VERSION, emitCommandSuccess, wantsStructuredOutput } from './lib/output.js';
 import { runStartPostSetupCheck } from './lib/start-check.js';
@@ -227,12 +238,32 @@ ${chalk.cyan('Examples:')}
     await scoresCommand(program.opts());
   });
 
+// Watch command
+program
+  .command('watch')
+  .description('Live scoreboard that refreshes until the day\'s matches are over')
+  .option('--interval <seconds>', 'Minimum seconds between refreshes', parsePositiveIntegerOption)
+  .option('--iterations <count>', 'Stop after this many refreshes', parsePositiveIntegerOption)
+  .addHelpText('after', `
+${chalk.cyan('Examples:')}
+  ${chalk.white('rugbyclaw watch')}                 Live scoreboard, redrawn in place
+  ${chalk.white('rugbyclaw watch --interval 120')}  Refresh at most every 2 minutes
+  ${chalk.white('rugbyclaw watch --json')}          One JSON object per refresh (NDJSON)
+
+${chalk.dim('Refreshes follow live cache timing and, in free mode, your remaining proxy quota.')}
+`)
+  .action(async (options) => {
+    await watchCommand({ ...program.opts(), ...options });
+  });
+
 // Fixtures command
 program
   .command('fixtures [league]')
   .description('Upcoming matches')
   .option('-n, --limit <number>', 'Number of matches to show', '15')
   .option('--ics', 'Export fixtures to .ics calendar file')
+  .option('--alarm <offset>', 'Add a calendar reminder before kickoff, e.g. 60m or 1d (repeatable)', parseAlarmOption)
+  .option('--local-time', 'Write event times in your timezone (TZID + VTIMEZONE) instead of UTC')
   .option('--show-ids', 'Show match IDs for calendar export')
   .option('--explain', 'Explain why output is empty')
   .addHelpText('after', `
@@ -241,6 +272,7 @@ ${chalk.cyan('Examples:')}
   ${chalk.white('rugbyclaw fixtures top14')}      Top 14 only
   ${chalk.white('rugbyclaw fixtures -n 5')}       Next 5 matches
   ${chalk.white('rugbyclaw fixtures --ics')}      Export to calendar file
+  ${chalk.white('rugbyclaw fixtures --ics --alarm 1d')} Export with a reminder the day before
   ${chalk.white('rugbyclaw fixtures --show-ids')} Show match IDs for export
   ${chalk.white('rugbyclaw fixtures --explain')}  Show context if empty
 
@@ -313,6 +345,8 @@ ${chalk.cyan('Examples:')}
   ${chalk.white('rugbyclaw team search toulouse')}  Find a team
   ${chalk.white('rugbyclaw team next racing')}      Next match for Racing 92
   ${chalk.white('rugbyclaw team last leinster')}    Leinster's last result
+  ${chalk.white('rugbyclaw team form toulouse')}    Toulouse's season form
+  ${chalk.white('rugbyclaw team schedule bath')}    Bath's remaining fixtures
 `);
 
 teamCmd
@@ -332,10 +366,13 @@ teamCmd
   .command('next <name>')
   .description("Team's next match")
   .option('--ics', 'Export match to .ics calendar file')
+  .option('--alarm <offset>', 'Add a calendar reminder before kickoff, e.g. 60m or 1d (repeatable)', parseAlarmOption)
+  .option('--local-time', 'Write event times in your timezone (TZID + VTIMEZONE) instead of UTC')
   .addHelpText('after', `
 ${chalk.cyan('Examples:')}
   ${chalk.white('rugbyclaw team next toulouse')}     Next Toulouse match
   ${chalk.white('rugbyclaw team next racing --ics')} Export to calendar
+  ${chalk.white('rugbyclaw team next racing --ics --alarm 60m --alarm 1d')} With reminders
   ${chalk.white('rugbyclaw team next leinster --json')} Output as JSON
 `)
   .action(async (name, options) => {
@@ -355,19 +392,67 @@ ${chalk.cyan('Examples:')}
     await teamCommand(name, 'last', program.opts());
   });
 
-// Calendar command
+teamCmd
+  .command('form <name>')
+  .description("Team's season form and stats")
+  .addHelpText('after', `
+${chalk.cyan('Examples:')}
+  ${chalk.white('rugbyclaw team form toulouse')}      W/D/L run, points and streaks
+  ${chalk.white('rugbyclaw team form bath --json')}   Output as JSON
+  ${chalk.white('rugbyclaw team form leinster --agent')} Strict agent envelope
+`)
+  .action(async (name) => {
+    await teamCommand(name, 'form', program.opts());
+  });
+
+teamCmd
+  .command('schedule <name>')
+  .description("Team's remaining fixtures across all competitions")
+  .option('--ics', 'Export every fixture to one .ics calendar file')
+  .option('--alarm <offset>', 'Add a calendar reminder before kickoff, e.g. 60m or 1d (repeatable)', parseAlarmOption)
+  .option('--local-time', 'Write event times in your timezone (TZID + VTIMEZONE) instead of UTC')
+  .addHelpText('after', `
+${chalk.cyan('Examples:')}
+  ${chalk.white('rugbyclaw team schedule toulouse')}       League and cup fixtures in date order
+  ${chalk.white('rugbyclaw team schedule toulouse --ics')} Save the season as one calendar
+  ${chalk.white('rugbyclaw team schedule leinster --json')} Output as JSON
+`)
+  .action(async (name, options) => {
+    await teamCommand(name, 'schedule', { ...program.opts(), ...options });
+  });
+
+// Head-to-head command
 program
+  .command('h2h <teamA> <teamB>')
+  .description('Head-to-head record between two teams')
+  .option('-n, --limit <number>', 'Number of past meetings to show', parsePositiveIntegerOption)
+  .option('--seasons <count>', 'Seasons to search, current one included (default: 3)', parsePositiveIntegerOption)
+  .addHelpText('after', `
+${chalk.cyan('Examples:')}
+  ${chalk.white('rugbyclaw h2h toulouse leinster')}         Record and last 5 meetings
+  ${chalk.white('rugbyclaw h2h bath saracens -n 10')}       Show the last 10 meetings
+  ${chalk.white('rugbyclaw h2h racing toulon --seasons 5')} Search five seasons back
+`)
+  .action(async (teamA, teamB, options) => {
+    await h2hCommand(teamA, teamB, { ...program.opts(), ...options });
+  });
+
+// Calendar command
+const calendarCmd = program
   .command('calendar <matchId>')
   .description('Export match to ICS calendar file')
   .option('--stdout', 'Output to stdout instead of file')
   .option('-o, --out <file>', 'Output file path')
   .option('-f, --force', 'Overwrite output file if it exists')
+  .option('--alarm <offset>', 'Add a reminder before kickoff, e.g. 60m or 1d (repeatable)', parseAlarmOption)
+  .option('--local-time', 'Write event times in your timezone (TZID + VTIMEZONE) instead of UTC')
   .addHelpText('after', `
 ${chalk.cyan('Examples:')}
   ${chalk.white('rugbyclaw calendar 49979')}         Save as match-49979.ics
   ${chalk.white('rugbyclaw calendar 49979 -o game.ics')} Custom filename
   ${chalk.white('rugbyclaw calendar 49979 -o game.ics --force')} Replace existing file
   ${chalk.white('rugbyclaw calendar 49979 --stdout')}  Output to terminal
+  ${chalk.white('rugbyclaw calendar 49979 --alarm 60m --alarm 1d')} Remind an hour and a day before
 
 ${chalk.dim('Tip: Use "rugbyclaw fixtures --show-ids" to find match IDs')}
 `)
@@ -375,17 +460,75 @@ ${chalk.dim('Tip: Use "rugbyclaw fixtures --show-ids" to find match IDs')}
     await calendarCommand(matchId, { ...program.opts(), ...options });
   });
 
+calendarCmd
+  .command('serve')
+  .description('Serve subscribable .ics feeds for teams and leagues')
+  .option('--port <port>', 'Port to listen on (default: 8080)', parsePositiveIntegerOption)
+  .option('--host <host>', 'Interface to bind (default: 127.0.0.1)')
+  .option('--local-time', 'Write event times in your timezone (TZID + VTIMEZONE) instead of UTC')
+  .addHelpText('after', `
+${chalk.cyan('Examples:')}
+  ${chalk.white('rugbyclaw calendar serve')}                 Feeds on http://127.0.0.1:8080
+  ${chalk.white('rugbyclaw calendar serve --port 9000')}     Pick another port
+  ${chalk.white('rugbyclaw calendar serve --host 0.0.0.0')}  Reachable from your network
+
+${chalk.cyan('Feeds:')}
+  /teams/<slug>.ics     Remaining fixtures for a team (e.g. /teams/stade-toulousain.ics)
+  /leagues/<slug>.ics   Upcoming fixtures for a league (e.g. /leagues/top14.ics)
+`)
+  .action(async (options) => {
+    // `--local-time` after `serve` is parsed by the parent calendar command
+    await calendarServeCommand({ ...program.opts(), ...calendarCmd.opts(), ...options });
+  });
+
 // Notify command
-program
+const notifyCmd = program
   .command('notify')
   .description('Proactive notifications (for cron/OpenClaw)')
   .option('--weekly', 'Generate weekly digest')
   .option('--daily', 'Check for daily reminders')
   .option('--live', 'Poll for live score updates')
+  .option('--daemon', 'Keep running: wake for reminders and kickoffs, poll live during matches')
+  .option('--format <format>', 'Print the weekly digest as markdown or html (implies --weekly)', parseDigestFormatOption)
   .action(async (options) => {
     await notifyCommand({ ...program.opts(), ...options });
   });
 
+notifyCmd
+  .command('smtp-login <host>')
+  .description('Save the SMTP login used by smtp notify sinks')
+  .requiredOption('--user <user>', 'SMTP username')
+  .option('--password-env <name>', 'Env var holding the password (default: RUGBYCLAW_SMTP_PASSWORD)')
+  .addHelpText('after', `
+${chalk.cyan('Examples:')}
+  ${chalk.white('rugbyclaw notify smtp-login smtp.example.com --user me@example.com')}  Prompt for the password
+  ${chalk.white('RUGBYCLAW_SMTP_PASSWORD=... rugbyclaw notify smtp-login smtp.example.com --user me@example.com')}
+`)
+  .action(async (host, options) => {
+    await notifySmtpLoginCommand(host, { ...program.opts(), ...options });
+  });
+
+notifyCmd
+  .command('history')
+  .description('List past notifications, or send them again')
+  .option('--team <name>', 'Only notifications about this team')
+  .option('--league <slug>', 'Only notifications from this league')
+  .option('--type <type>', 'Only this notification type, e.g. fulltime')
+  .option('--since <YYYY-MM-DD>', 'From this day on', parseDateOption)
+  .option('--until <YYYY-MM-DD>', 'Up to and including this day', parseDateOption)
+  .option('--limit <count>', 'Show the latest N entries (default: 20)', parsePositiveIntegerOption)
+  .option('--replay', 'Emit the listed notifications again, to the configured sinks too')
+  .addHelpText('after', `
+${chalk.cyan('Examples:')}
+  ${chalk.white('rugbyclaw notify history')}                                   Latest 20 notifications
+  ${chalk.white('rugbyclaw notify history --team toulouse --type fulltime')}   Toulouse fulltime alerts
+  ${chalk.white('rugbyclaw notify history --since 2026-10-01 --json')}
+  ${chalk.white('rugbyclaw notify history --type fulltime --limit 1 --replay')}  Resend the last fulltime alert
+`)
+  .action(async (options) => {
+    await notifyHistoryCommand({ ...program.opts(), ...options });
+  });
+
 // Status command
 program
   .command('status')
@@ -0,0 +1,214 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import chalk from 'chalk';
+import { loadConfig, loadSecrets } from '../lib/config.js';
+import { LEAGUES, resolveLeague } from '../lib/leagues.js';
+import { createProviderChain, type ProviderChain } from '../lib/providers/registry.js';
+import { CACHE_PROFILES } from '../lib/providers/types.js';
+import { getCache, cacheKey } from '../lib/cache.js';
+import { feedToICS, getIcsTimeZone } from '../lib/ics.js';
+import { getScheduleLeagueIds, getTeamSchedule } from '../lib/team-schedule.js';
+import { renderSuccess } from '../render/terminal.js';
+import type { Config, Match } from '../types/index.js';
+import { emitCommandError } from '../lib/command-error.js';
+import { emitCommandSuccess, wantsStructuredOutput } from '../lib/output.js';
+import { canUseLeague, getLeagueAccess, type LeagueAccess } from '../lib/free-mode.js';
+
+interface CalendarServeOptions {
+  json?: boolean;
+  agent?: boolean;
+  quiet?: boolean;
+  port?: number;
+  host?: string;
+  localTime?: boolean;
+}
+
+export interface CalendarFeedContext {
+  provider: ProviderChain;
+  config: Config;
+  hasApiKey: boolean;
+  leagueAccess: LeagueAccess;
+  localTime?: boolean;
+  log?: (line: string) => void;
+}
+
+const DEFAULT_PORT = 8080;
+const DEFAULT_HOST = '127.0.0.1';
+const CACHE_NAMESPACE = 'calendar-feed';
+const FEED_PATH = /^\/(teams|leagues)\/([a-z0-9][a-z0-9_-]{0,63})\.ics$/i;
+
+class FeedNotFoundError extends Error {}
+
+function getFeedLeagueIds(context: CalendarFeedContext): string[] {
+  return context.leagueAccess.effective
+    .map((slug) => LEAGUES[slug]?.id)
+    .filter(Boolean) as string[];
+}
+
+async function loadFeedMatches(kind: string, slug: string, context: CalendarFeedContext): Promise<Match[]> {
+  if (kind === 'leagues') {
+    const league = resolveLeague(slug.replace(/-/g, '_'));
+    if (!league) throw new FeedNotFoundError(`Unknown league: "${slug}"`);
+    if (!canUseLeague(context.leagueAccess, league.slug)) {
+      throw new FeedNotFoundError(`"${league.name}" is not available in free mode.`);
+    }
+    return context.provider.getLeagueFixtures(league.id, undefined, { includeCalledOff: true });
+  }
+
+  const { teamId, schedule } = await getTeamSchedule(slug.replace(/[-_]+/g, ' '), {
+    provider: context.provider,
+    config: context.config,
+    leagueIds: getScheduleLeagueIds(getFeedLeagueIds(context), context.hasApiKey),
+    includeCalledOff: true,
+  });
+  if (!teamId) throw new FeedNotFoundError(`No team found for "${slug}"`);
+  // Off-season: an empty calendar keeps subscriptions valid.
+  return schedule?.matches ?? [];
+}
+
+function send(res: ServerResponse, status: number, body: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, {
+    'Content-Type': 'text/plain; charset=utf-8',
+    ...headers,
+  });
+  res.end(res.req.method === 'HEAD' ? undefined : body);
+}
+
+/**
+ * Request handler for `/teams/<slug>.ics` and `/leagues/<slug>.ics`.
+ *
+ * Feeds are rebuilt on demand and kept in the cache with the fixtures
+ * profile; when upstream fails, the last cached feed is served instead.
+ */
+export function createCalendarFeedHandler(
+  context: CalendarFeedContext
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  const cache = getCache();
+  const log = context.log ?? (() => undefined);
+
+  return async (req, res) => {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      send(res, 405, 'Method not allowed\n', { Allow: 'GET, HEAD' });
+      log(`${req.method} ${path} 405`);
+      return;
+    }
+
+    const route = FEED_PATH.exec(path);
+    if (!route) {
+      send(res, 404, 'Not found. Try /teams/<slug>.ics or /leagues/<slug>.ics\n');
+      log(`${req.method} ${path} 404`);
+      return;
+    }
+
+    const [, kind, rawSlug] = route;
+    const slug = rawSlug.toLowerCase();
+    const timeZone = getIcsTimeZone(context.config, context.localTime);
+    const key = cacheKey('feed', { kind, slug, tz: timeZone }, CACHE_NAMESPACE);
+    const cached = await cache.get<string>(key);
+    const headers = {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `inline; filename="${slug}.ics"`,
+      'Cache-Control': `max-age=${Math.floor(CACHE_PROFILES.standard.stale_after / 1000)}`,
+    };
+
+    if (cached && !cached.stale) {
+      send(res, 200, cached.data, headers);
+      log(`${req.method} ${path} 200 (cached)`);
+      return;
+    }
+
+    try {
+      const matches = await loadFeedMatches(kind, slug, context);
+      const ics = await feedToICS(`${kind}/${slug}`, matches, {
+        durations: context.config.calendar?.durations,
+        timeZone,
+      });
+      await cache.set(key, ics, CACHE_PROFILES.standard);
+      send(res, 200, ics, headers);
+      log(`${req.method} ${path} 200 (${matches.length} events)`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (error instanceof FeedNotFoundError) {
+        send(res, 404, `${message}\n`);
+        log(`${req.method} ${path} 404`);
+      } else if (cached) {
+        send(res, 200, cached.data, headers);
+        log(`${req.method} ${path} 200 (stale: ${message})`);
+      } else {
+        send(res, 502, `${message}\n`);
+        log(`${req.method} ${path} 502 (${message})`);
+      }
+    } finally {
+      context.provider.consumeRuntimeMeta();
+    }
+  };
+}
+
+function listen(server: Server, port: number, host: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+}
+
+export async function calendarServeCommand(options: CalendarServeOptions): Promise<void> {
+  const config = await loadConfig();
+  const secrets = await loadSecrets();
+  const hasApiKey = Boolean(secrets?.api_key);
+  const provider = createProviderChain({ apiKey: secrets?.api_key, proxyToken: secrets?.proxy_token, config });
+  const port = options.port ?? DEFAULT_PORT;
+  const host = options.host || DEFAULT_HOST;
+  const structured = wantsStructuredOutput(options);
+  const leagueAccess = await getLeagueAccess(config, secrets);
+
+  const handler = createCalendarFeedHandler({
+    provider,
+    config,
+    hasApiKey,
+    leagueAccess,
+    localTime: options.localTime,
+    log: structured || options.quiet ? undefined : (line) => console.log(chalk.dim(line)),
+  });
+  const server = createServer((req, res) => {
+    void handler(req, res);
+  });
+
+  try {
+    await listen(server, port, host);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    emitCommandError(`Could not start calendar server: ${message}`, options);
+  }
+
+  const baseUrl = `http://${host.includes(':') ? `[${host}]` : host}:${port}`;
+  const feeds = [
+    ...config.favorite_teams.map((team) => `${baseUrl}/teams/${team.slug}.ics`),
+    ...leagueAccess.effective.map((slug) => `${baseUrl}/leagues/${slug}.ics`),
+  ];
+
+  if (structured) {
+    emitCommandSuccess({ url: baseUrl, feeds }, options);
+  } else if (!options.quiet) {
+    console.log(renderSuccess(`Serving calendar feeds on ${baseUrl}`));
+    console.log('');
+    console.log('Subscribe in your calendar app:');
+    for (const feed of feeds) console.log(`  ${feed}`);
+    console.log('');
+    console.log(chalk.dim('Ctrl+C to stop'));
+  }
+
+  await new Promise<void>((resolve) => {
+    const stop = (): void => {
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+      server.close(() => resolve());
+      server.closeAllConnections();
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+  });
+}
@@ -1,7 +1,7 @@
 import { lstat, writeFile } from 'node:fs/promises';
-import { loadSecrets } from '../lib/config.js';
-import { ApiSportsProvider } from '../lib/providers/apisports.js';
-import { matchToICS } from '../lib/ics.js';
+import { loadConfig, loadSecrets } from '../lib/config.js';
+import { createProviderChain } from '../lib/providers/registry.js';
+import { getIcsTimeZone, matchToICS, recordCalendarRevisions } from '../lib/ics.js';
 import { renderSuccess } from '../render/terminal.js';
 import { emitCommandError } from '../lib/command-error.js';
 import { EXIT_CODES } from '../lib/exit-codes.js';
@@ -14,6 +14,8 @@ interface CalendarOptions {
   stdout?: boolean;
   out?: string;
   force?: boolean;
+  alarm?: number[];
+  localTime?: boolean;
 }
 
 function exitWithError(message: string, options: CalendarOptions): never {
@@ -59,8 +61,9 @@ export async function calendarCommand(
   }
 
   // Get API key if available (otherwise use proxy mode)
+  const config = await loadConfig();
   const secrets = await loadSecrets();
-  const provider = new ApiSportsProvider(secrets?.api_key);
+  const provider = createProviderChain({ apiKey: secrets?.api_key, proxyToken: secrets?.proxy_token, config });
 
   try {
     const match = await provider.getMatch(matchId);
@@ -70,7 +73,12 @@ export async function calendarCommand(
       exitWithError(`Match not found: ${matchId}`, options);
     }
 
-    const ics = matchToICS(match);
+    const ics = matchToICS(match, {
+      revisions: await recordCalendarRevisions([match]),
+      alarms: options.alarm,
+      durations: config.calendar?.durations,
+      timeZone: getIcsTimeZone(config, options.localTime),
+    });
 
     if (options.stdout) {
       // Output to stdout
@@ -214,7 +214,7 @@ async function validateAndPersistApiKey(apiKeyInput: string, strict = false): Pr
 
   try {
     await candidateProvider.getLeagueFixtures(LEAGUES.top14.id);
-    const secrets: Secrets = { api_key: apiKey, api_tier: 'premium' };
+    const secrets: Secrets = { ...(await loadSecrets()), api_key: apiKey, api_tier: 'premium' };
     await saveSecrets(secrets);
     console.log(chalk.green('✓ API key is valid — unlimited access enabled\n'));
     return {
@@ -496,11 +496,14 @@ async function promptForFavoriteTeams(
           continue;
         }
 
+        const previous = existingConfig.favorite_teams.find((item) => item.id === team.id);
         favoriteTeams.push({
           id: team.id,
           name: team.name,
           slug: team.name.toLowerCase().replace(/\s+/g, '-'),
           leagueIds: [league.id],
+          reminders: previous?.reminders,
+          notify: previous?.notify,
         });
       }
 
@@ -604,6 +607,7 @@ export async function configCommand(options: ConfigOptions): Promise<void> {
       : await promptForFinalTimeZone(existingConfig.timezone, setupStyle);
 
     const config: Config = {
+      ...existingConfig, // keep hand-edited settings (providers, calendar, notify)
       schema_version: 1,
       timezone,
       favorite_leagues: favoriteLeagues,
@@ -1,15 +1,14 @@
 import chalk from 'chalk';
 import { createRequire } from 'node:module';
 import {
-  DEFAULT_PROXY_LEAGUES,
   getConfigDir,
-  getEffectiveLeagues,
   getEffectiveTimeZone,
   isValidTimeZone,
   loadConfig,
   loadSecrets,
 } from '../lib/config.js';
 import { API_SPORTS_BASE_URL, PROXY_URL } from '../lib/providers/apisports.js';
+import { getLeagueAccess } from '../lib/free-mode.js';
 import { LEAGUES } from '../lib/leagues.js';
 import { getTodayYMD } from '../lib/datetime.js';
 import { getKickoffOverridePaths, loadKickoffOverrides } from '../lib/kickoff-overrides.js';
@@ -239,7 +238,7 @@ export async function doctorCommand(options: DoctorOptions): Promise<void> {
   const hasApiKey = Boolean(secrets?.api_key);
   const mode: 'direct' | 'proxy' = hasApiKey ? 'direct' : 'proxy';
   const timeZone = getEffectiveTimeZone(config);
-  const effectiveLeagueSlugs = hasApiKey ? await getEffectiveLeagues() : DEFAULT_PROXY_LEAGUES;
+  const effectiveLeagueSlugs = (await getLeagueAccess(config, secrets)).effective;
   const kickoffOverrides = loadKickoffOverrides();
   const kickoffOverridePaths = getKickoffOverridePaths();
 
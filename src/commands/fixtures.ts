@@ -2,13 +2,13 @@ import { writeFile } from 'node:fs/promises';
 import {
   loadConfig,
   loadSecrets,
-  getEffectiveLeagues,
-  DEFAULT_PROXY_LEAGUES,
   getEffectiveTimeZone,
 } from '../lib/config.js';
 import { LEAGUES, resolveLeague } from '../lib/leagues.js';
-import { ApiSportsProvider } from '../lib/providers/apisports.js';
+import { createProviderChain } from '../lib/providers/registry.js';
 import {
+  canUseLeague,
+  getLeagueAccess,
   getProxyQuotaLine,
   getProxyRateLimit,
   getProxyStatusIfFree,
@@ -16,7 +16,7 @@ import {
 } from '../lib/free-mode.js';
 import { getFixturesNoMatchesExplanation, getFixturesNoMatchesHint } from '../lib/explain.js';
 import { renderFixtures, matchToOutput, renderError, renderWarning, renderSuccess } from '../render/terminal.js';
-import { matchesToICS } from '../lib/ics.js';
+import { feedToICS, getIcsTimeZone } from '../lib/ics.js';
 import type { FixturesOutput, Match } from '../types/index.js';
 import { emitCommandError } from '../lib/command-error.js';
 import { EXIT_CODES } from '../lib/exit-codes.js';
@@ -32,6 +32,8 @@ interface FixturesOptions {
   ics?: boolean;
   showIds?: boolean;
   explain?: boolean;
+  alarm?: number[];
+  localTime?: boolean;
 }
 
 export async function fixturesCommand(
@@ -43,7 +45,8 @@ export async function fixturesCommand(
   // Get API key if available (otherwise use proxy mode)
   const secrets = await loadSecrets();
   const hasApiKey = Boolean(secrets?.api_key);
-  const provider = new ApiSportsProvider(secrets?.api_key);
+  const provider = createProviderChain({ apiKey: secrets?.api_key, proxyToken: secrets?.proxy_token, config });
+  const leagueAccess = await getLeagueAccess(config, secrets);
   const rawLimit = parseInt(options.limit || '15', 10);
   if (isNaN(rawLimit) || rawLimit < 0) {
     console.error('Error: --limit must be a non-negative integer');
@@ -68,7 +71,7 @@ export async function fixturesCommand(
         emitCommandError(`Unknown league: "${leagueInput}"`, options, EXIT_CODES.INVALID_INPUT);
       }
 
-      if (!hasApiKey && !DEFAULT_PROXY_LEAGUES.includes(league.slug)) {
+      if (!canUseLeague(leagueAccess, league.slug)) {
         if (!wantsStructuredOutput(options) && !options.quiet) {
           console.log(renderError(`"${league.name}" is not available in free mode.`));
           console.log(renderWarning('Run "rugbyclaw config" to add your own API key to unlock more leagues.'));
@@ -78,10 +81,11 @@ export async function fixturesCommand(
 
       leagueName = league.name;
       selectedLeagues = [{ slug: league.slug, id: league.id, name: league.name }];
-      matches = await provider.getLeagueFixtures(league.id);
+      // Calendars keep called-off fixtures so they come out CANCELLED
+      matches = await provider.getLeagueFixtures(league.id, undefined, { includeCalledOff: options.ics });
     } else {
       // Get effective leagues (user's favorites or defaults)
-      const favoriteLeagues = hasApiKey ? await getEffectiveLeagues() : DEFAULT_PROXY_LEAGUES;
+      const favoriteLeagues = leagueAccess.effective;
       selectedLeagues = favoriteLeagues
         .map((slug) => ({ slug, id: LEAGUES[slug]?.id, name: LEAGUES[slug]?.name }))
         .filter((league): league is { slug: string; id: string; name: string } => Boolean(league.id && league.name));
@@ -90,7 +94,7 @@ export async function fixturesCommand(
         .filter(Boolean) as string[];
 
       for (const id of leagueIds) {
-        const leagueMatches = await provider.getLeagueFixtures(id);
+        const leagueMatches = await provider.getLeagueFixtures(id, undefined, { includeCalledOff: options.ics });
         matches.push(...leagueMatches);
       }
 
@@ -99,6 +103,7 @@ export async function fixturesCommand(
     }
 
     // Apply limit
+    const beyondLimit = matches.slice(limit).map((match) => match.id);
     matches = matches.slice(0, limit);
 
     // Export to ICS file
@@ -127,7 +132,13 @@ export async function fixturesCommand(
         }
         return;
       }
-      const ics = matchesToICS(matches);
+      const feed = `fixtures/${selectedLeagues.map((league) => league.slug).join(',')}`;
+      const ics = await feedToICS(feed, matches, {
+        omitted: beyondLimit,
+        alarms: options.alarm,
+        durations: config.calendar?.durations,
+        timeZone: getIcsTimeZone(config, options.localTime),
+      });
       const filename = leagueName
         ? `${leagueName.toLowerCase().replace(/\s+/g, '-')}-fixtures.ics`
         : 'rugby-fixtures.ics';
@@ -139,7 +150,7 @@ export async function fixturesCommand(
     }
 
     const wantProxyStatus = !hasApiKey && (wantsStructuredOutput(options) || !options.quiet);
-    const proxyStatus = await getProxyStatusIfFree(hasApiKey, wantProxyStatus);
+    const proxyStatus = await getProxyStatusIfFree(hasApiKey, wantProxyStatus, secrets?.proxy_token);
     const runtime = provider.consumeRuntimeMeta();
 
     const output: FixturesOutput = {
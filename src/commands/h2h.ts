@@ -0,0 +1,180 @@
+import {
+  loadConfig,
+  loadSecrets,
+  getEffectiveTimeZone,
+} from '../lib/config.js';
+import { LEAGUES } from '../lib/leagues.js';
+import { createProviderChain } from '../lib/providers/registry.js';
+import { resolveTeamId } from '../lib/team-resolver.js';
+import { renderHeadToHead, matchToOutput, renderWarning } from '../render/terminal.js';
+import type { HeadToHeadOutput, Match } from '../types/index.js';
+import { emitCommandError } from '../lib/command-error.js';
+import { EXIT_CODES } from '../lib/exit-codes.js';
+import { emitCommandSuccess, wantsStructuredOutput } from '../lib/output.js';
+import { getLeagueAccess, getStaleFallbackLine } from '../lib/free-mode.js';
+import { printFollowups, quoteArg } from '../lib/followups.js';
+
+interface HeadToHeadOptions {
+  json?: boolean;
+  agent?: boolean;
+  quiet?: boolean;
+  followups?: boolean;
+  limit?: number;
+  seasons?: number;
+}
+
+const DEFAULT_LIMIT = 5;
+const DEFAULT_SEASONS = 3;
+
+function findTeamName(matches: Match[], teamId: string): string | undefined {
+  for (const match of matches) {
+    if (match.homeTeam.id === teamId) return match.homeTeam.name;
+    if (match.awayTeam.id === teamId) return match.awayTeam.name;
+  }
+  return undefined;
+}
+
+function isMeeting(match: Match, teamAId: string, teamBId: string): boolean {
+  return (
+    (match.homeTeam.id === teamAId && match.awayTeam.id === teamBId) ||
+    (match.homeTeam.id === teamBId && match.awayTeam.id === teamAId)
+  );
+}
+
+/**
+ * Points margin from team A's point of view.
+ */
+function marginFor(match: Match, teamAId: string): number | null {
+  if (!match.score) return null;
+  const diff = match.score.home - match.score.away;
+  return match.homeTeam.id === teamAId ? diff : -diff;
+}
+
+export async function h2hCommand(
+  teamAQuery: string,
+  teamBQuery: string,
+  options: HeadToHeadOptions
+): Promise<void> {
+  const config = await loadConfig();
+  const timeZone = getEffectiveTimeZone(config);
+  const secrets = await loadSecrets();
+  const hasApiKey = Boolean(secrets?.api_key);
+  const provider = createProviderChain({ apiKey: secrets?.api_key, proxyToken: secrets?.proxy_token, config });
+  const leagueSlugs = (await getLeagueAccess(config, secrets)).effective;
+  const leagueIds = leagueSlugs
+    .map((slug) => LEAGUES[slug]?.id)
+    .filter(Boolean) as string[];
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const seasons = options.seasons ?? DEFAULT_SEASONS;
+
+  try {
+    // Current-season results double as the team lookup pool.
+    const recentResults: Match[] = [];
+    for (const leagueId of leagueIds) {
+      const results = await provider.getLeagueResults(leagueId);
+      recentResults.push(...results);
+    }
+
+    const context = { provider, config, leagueIds, matches: recentResults };
+    const teamAId = await resolveTeamId(teamAQuery, context);
+    const teamBId = teamAId ? await resolveTeamId(teamBQuery, context) : undefined;
+
+    if (!teamAId || !teamBId) {
+      const query = teamAId ? teamBQuery : teamAQuery;
+      const runtime = provider.consumeRuntimeMeta();
+      if (wantsStructuredOutput(options)) {
+        emitCommandSuccess(
+          { query, team_a: teamAQuery, team_b: teamBQuery, meetings: [], reason: 'team_not_found' },
+          options,
+          { traceId: runtime.traceId }
+        );
+      } else if (!options.quiet) {
+        console.log(renderWarning(`No team found for "${query}"`));
+        if (runtime.staleFallback) {
+          console.log(getStaleFallbackLine(runtime.cachedAt));
+        }
+      }
+      return;
+    }
+
+    if (teamAId === teamBId) {
+      emitCommandError(
+        `"${teamAQuery}" and "${teamBQuery}" resolve to the same team. Pick two different teams.`,
+        options,
+        EXIT_CODES.INVALID_INPUT
+      );
+    }
+
+    // Only scan history for leagues either team plays in this season.
+    const teamLeagueIds = new Set(
+      recentResults
+        .filter((m) => [m.homeTeam.id, m.awayTeam.id].some((id) => id === teamAId || id === teamBId))
+        .map((m) => m.league.id)
+    );
+    const scanLeagueIds = teamLeagueIds.size > 0
+      ? leagueIds.filter((id) => teamLeagueIds.has(id))
+      : leagueIds;
+
+    const meetingMap = new Map<string, Match>();
+    let firstError: unknown;
+    let successfulLeagues = 0;
+    for (const leagueId of scanLeagueIds) {
+      try {
+        const history = await provider.getLeagueHistory(leagueId, seasons);
+        successfulLeagues += 1;
+        for (const match of history) {
+          if (isMeeting(match, teamAId, teamBId) && !meetingMap.has(match.id)) {
+            meetingMap.set(match.id, match);
+          }
+        }
+      } catch (error) {
+        firstError ??= error;
+      }
+    }
+
+    if (successfulLeagues === 0 && firstError !== undefined) {
+      throw firstError;
+    }
+
+    const meetings = Array.from(meetingMap.values()).sort((a, b) => b.timestamp - a.timestamp);
+    const margins = meetings
+      .map((match) => marginFor(match, teamAId))
+      .filter((margin): margin is number => margin !== null);
+    const runtime = provider.consumeRuntimeMeta();
+
+    const output: HeadToHeadOutput = {
+      team_a: { id: teamAId, name: findTeamName([...meetings, ...recentResults], teamAId) ?? teamAQuery },
+      team_b: { id: teamBId, name: findTeamName([...meetings, ...recentResults], teamBId) ?? teamBQuery },
+      seasons,
+      played: margins.length,
+      wins: margins.filter((margin) => margin > 0).length,
+      draws: margins.filter((margin) => margin === 0).length,
+      losses: margins.filter((margin) => margin < 0).length,
+      avg_margin: margins.length > 0
+        ? Math.round((margins.reduce((sum, margin) => sum + margin, 0) / margins.length) * 10) / 10
+        : null,
+      meetings: meetings.slice(0, limit).map((m) => matchToOutput(m, { timeZone })),
+      generated_at: new Date().toISOString(),
+      trace_id: runtime.traceId || undefined,
+      stale: runtime.staleFallback || undefined,
+      cached_at: runtime.cachedAt || undefined,
+    };
+
+    if (wantsStructuredOutput(options)) {
+      emitCommandSuccess(output, options, { traceId: runtime.traceId });
+    } else if (!options.quiet) {
+      console.log(renderHeadToHead(output));
+      if (runtime.staleFallback) {
+        console.log(getStaleFallbackLine(runtime.cachedAt));
+      }
+      printFollowups(options, [
+        `Next match: rugbyclaw team next ${quoteArg(output.team_a.name)}`,
+        `Search further back: rugbyclaw h2h ${quoteArg(teamAQuery)} ${quoteArg(teamBQuery)} --seasons ${seasons + 2}`,
+      ]);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const runtime = provider.consumeRuntimeMeta();
+    emitCommandError(message, options, undefined, { traceId: runtime.traceId });
+  }
+}
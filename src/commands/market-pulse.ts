@@ -1,5 +1,5 @@
 import { loadConfig, loadSecrets, getEffectiveTimeZone } from '../lib/config.js';
-import { ApiSportsProvider } from '../lib/providers/apisports.js';
+import { createProviderChain } from '../lib/providers/registry.js';
 import { PolymarketProvider } from '../lib/providers/polymarket.js';
 import { emitCommandError } from '../lib/command-error.js';
 import { emitCommandSuccess, wantsStructuredOutput } from '../lib/output.js';
@@ -69,8 +69,9 @@ function validateSearchQuery(home: string, away: string, options: MarketPulseOpt
 }
 
 async function resolveMatchFromId(matchId: string, timeZone: string, options: MarketPulseOptions): Promise<MarketPulseRequest> {
+  const config = await loadConfig();
   const secrets = await loadSecrets();
-  const provider = new ApiSportsProvider(secrets?.api_key);
+  const provider = createProviderChain({ apiKey: secrets?.api_key, proxyToken: secrets?.proxy_token, config });
   const match = await provider.getMatch(matchId);
   const runtime = provider.consumeRuntimeMeta();
 
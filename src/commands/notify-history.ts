@@ -0,0 +1,152 @@
+import { loadConfig, loadNotificationHistory, getEffectiveTimeZone } from '../lib/config.js';
+import { emitCommandError } from '../lib/command-error.js';
+import { EXIT_CODES } from '../lib/exit-codes.js';
+import { formatDateYMD } from '../lib/datetime.js';
+import { resolveLeague } from '../lib/leagues.js';
+import { normalizeText } from '../lib/fuzzy.js';
+import { getTeamQueryCandidates } from '../lib/team-aliases.js';
+import { NOTIFICATION_TITLES, deliverNotifications } from '../lib/notify-sinks.js';
+import { emitCommandSuccess, wantsStructuredOutput } from '../lib/output.js';
+import { renderNotify, renderNotifyHistory, renderWarning } from '../render/terminal.js';
+import type { League, Notification, NotificationHistoryEntry, NotifyHistoryOutput } from '../types/index.js';
+
+interface NotifyHistoryOptions {
+  json?: boolean;
+  agent?: boolean;
+  quiet?: boolean;
+  team?: string;
+  league?: string;
+  type?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+  replay?: boolean;
+}
+
+const DEFAULT_LIMIT = 20;
+
+interface HistoryFilter {
+  teams?: string[]; // normalized name candidates
+  league?: League;
+  type?: Notification['type'];
+  since?: string; // YYYY-MM-DD, effective timezone
+  until?: string;
+  timeZone: string;
+}
+
+/**
+ * Team and league filters look at the match, and at every batched match of
+ * a catch-up; notifications without one (weekly digests) never match them.
+ */
+function matchesFilter(entry: NotificationHistoryEntry, filter: HistoryFilter): boolean {
+  const { notification } = entry;
+  if (filter.type && notification.type !== filter.type) return false;
+
+  const day = formatDateYMD(new Date(entry.at), filter.timeZone);
+  if (filter.since && day < filter.since) return false;
+  if (filter.until && day > filter.until) return false;
+
+  const matches = [notification, ...(notification.batched ?? [])]
+    .map((item) => item.match)
+    .filter((match) => match !== undefined);
+
+  const league = filter.league;
+  if (league && !matches.some((match) => match.league === league.name || resolveLeague(match.league)?.slug === league.slug)) {
+    return false;
+  }
+  if (filter.teams) {
+    const teams = filter.teams;
+    const hasTeam = matches.some((match) => [match.home.name, match.away.name].some((name) => {
+      const normalized = normalizeText(name);
+      return teams.some((candidate) => normalized.includes(candidate));
+    }));
+    if (!hasTeam) return false;
+  }
+
+  return true;
+}
+
+function isNotificationType(value: string): value is Notification['type'] {
+  return Object.prototype.hasOwnProperty.call(NOTIFICATION_TITLES, value);
+}
+
+/**
+ * List past notifications from notify-history.jsonl, newest last, and
+ * optionally send them to the configured sinks again (`--replay`).
+ */
+export async function notifyHistoryCommand(options: NotifyHistoryOptions): Promise<void> {
+  const config = await loadConfig();
+  const timeZone = getEffectiveTimeZone(config);
+  const filter: HistoryFilter = { since: options.since, until: options.until, timeZone };
+
+  if (options.type !== undefined) {
+    const type = options.type.trim().toLowerCase().replace(/-/g, '_');
+    if (!isNotificationType(type)) {
+      emitCommandError(
+        `Unknown notification type "${options.type}". Use one of: ${Object.keys(NOTIFICATION_TITLES).join(', ')}.`,
+        options,
+        EXIT_CODES.INVALID_INPUT
+      );
+    }
+    filter.type = type;
+  }
+  if (options.league !== undefined) {
+    const league = resolveLeague(options.league);
+    if (!league) {
+      emitCommandError(`Unknown league "${options.league}".`, options, EXIT_CODES.INVALID_INPUT);
+    }
+    filter.league = league;
+  }
+  if (options.team !== undefined) {
+    const teams = getTeamQueryCandidates(options.team).map(normalizeText);
+    if (teams.length === 0) {
+      emitCommandError('Team cannot be empty.', options, EXIT_CODES.INVALID_INPUT);
+    }
+    filter.teams = teams;
+  }
+  if (filter.since && filter.until && filter.since > filter.until) {
+    emitCommandError('--since must not be after --until.', options, EXIT_CODES.INVALID_INPUT);
+  }
+
+  const sinks = config.notify?.sinks ?? [];
+  let history: NotificationHistoryEntry[];
+  try {
+    history = await loadNotificationHistory();
+  } catch (error) {
+    emitCommandError(error instanceof Error ? error.message : 'Unknown error', options);
+  }
+
+  const matching = history.filter((entry) => matchesFilter(entry, filter));
+  const entries = matching.slice(-(options.limit ?? DEFAULT_LIMIT));
+  const output: NotifyHistoryOutput = {
+    entries,
+    total: matching.length,
+    generated_at: new Date().toISOString(),
+  };
+
+  const notifications = entries.map((entry) => entry.notification);
+  if (options.replay) {
+    output.replayed = notifications.length;
+    if (notifications.length > 0 && sinks.length > 0) {
+      output.deliveries = await deliverNotifications(notifications, sinks);
+    }
+  }
+
+  if (wantsStructuredOutput(options)) {
+    emitCommandSuccess(output, options);
+    return;
+  }
+  if (options.quiet) return;
+
+  if (options.replay) {
+    // Printed the way `notify` prints them
+    console.log(renderNotify({ type: 'all', notifications, generated_at: output.generated_at }));
+  } else {
+    console.log(renderNotifyHistory(output, timeZone));
+  }
+  for (const delivery of output.deliveries ?? []) {
+    if (delivery.failed > 0) {
+      console.log(renderWarning(`${delivery.failed} notification(s) not delivered to ${delivery.sink}: ${delivery.error}`));
+    }
+  }
+}
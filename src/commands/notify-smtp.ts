@@ -0,0 +1,58 @@
+import inquirer from 'inquirer';
+import { getConfigPaths, saveSmtpCredentials } from '../lib/config.js';
+import { emitCommandError } from '../lib/command-error.js';
+import { EXIT_CODES } from '../lib/exit-codes.js';
+import { emitCommandSuccess, wantsStructuredOutput } from '../lib/output.js';
+import { renderSuccess } from '../render/terminal.js';
+
+interface SmtpLoginOptions {
+  json?: boolean;
+  agent?: boolean;
+  quiet?: boolean;
+  user?: string;
+  passwordEnv?: string;
+}
+
+const DEFAULT_PASSWORD_ENV = 'RUGBYCLAW_SMTP_PASSWORD';
+
+/**
+ * Save the login an `smtp` notify sink uses for `host`. The password comes
+ * from an environment variable, or a hidden prompt when run interactively.
+ */
+export async function notifySmtpLoginCommand(host: string, options: SmtpLoginOptions): Promise<void> {
+  const trimmedHost = host.trim();
+  const username = options.user?.trim();
+  if (!trimmedHost || !username) {
+    emitCommandError('Usage: rugbyclaw notify smtp-login <host> --user <user>', options, EXIT_CODES.INVALID_INPUT);
+  }
+
+  const envName = (options.passwordEnv || DEFAULT_PASSWORD_ENV).trim();
+  let password = process.env[envName];
+
+  if (!password) {
+    if (wantsStructuredOutput(options) || !process.stdin.isTTY) {
+      emitCommandError(`Set $${envName} to the SMTP password (or run interactively).`, options, EXIT_CODES.INVALID_INPUT);
+    }
+    ({ password } = await inquirer.prompt<{ password: string }>([
+      {
+        type: 'password',
+        name: 'password',
+        message: `SMTP password for ${username}@${trimmedHost}:`,
+        mask: '*',
+      },
+    ]));
+  }
+
+  if (!password) {
+    emitCommandError('SMTP password cannot be empty.', options, EXIT_CODES.INVALID_INPUT);
+  }
+
+  await saveSmtpCredentials(trimmedHost, { username, password });
+
+  const { smtpPath } = getConfigPaths();
+  if (wantsStructuredOutput(options)) {
+    emitCommandSuccess({ host: trimmedHost.toLowerCase(), username, saved_to: smtpPath }, options);
+  } else if (!options.quiet) {
+    console.log(renderSuccess(`SMTP login for ${trimmedHost} saved to ${smtpPath}`));
+  }
+}
@@ -1,26 +1,55 @@
+import chalk from 'chalk';
 import {
   loadConfig,
   loadSecrets,
   loadState,
   saveState,
-  DEFAULT_PROXY_LEAGUES,
+  appendNotificationHistory,
   getEffectiveTimeZone,
 } from '../lib/config.js';
-import { LEAGUES } from '../lib/leagues.js';
-import { ApiSportsProvider } from '../lib/providers/apisports.js';
+import { LEAGUES, getLeagueById } from '../lib/leagues.js';
+import { createProviderChain, type ProviderChain } from '../lib/providers/registry.js';
 import { generateSummary } from '../lib/personality.js';
-import { renderNotify, matchToOutput } from '../render/terminal.js';
-import { formatDateYMD, getTodayYMD, getTomorrowYMD } from '../lib/datetime.js';
+import { renderNotify, renderWarning, matchToOutput, formatHalfTime } from '../render/terminal.js';
+import { renderDigest, renderDigestText } from '../render/digest.js';
+import {
+  formatDateYMD,
+  formatOffset,
+  getTodayYMD,
+  getTomorrowYMD,
+  parseOffsetMinutes,
+} from '../lib/datetime.js';
 import type {
+  Config,
   Match,
   MatchNotificationState,
   State,
   NotifyOutput,
+  NotifyDelivery,
   Notification,
+  NotificationHistoryDelivery,
+  DigestFormat,
+  DigestStanding,
+  MatchOutput,
+  StandingsEntry,
+  StandingsImpact,
+  StandingsSnapshot,
+  WeeklyDigest,
 } from '../types/index.js';
 import { emitCommandError } from '../lib/command-error.js';
 import { emitCommandSuccess, wantsStructuredOutput } from '../lib/output.js';
-import { getStaleFallbackLine } from '../lib/free-mode.js';
+import { getLeagueAccess, getProxyStatusIfFree, getStaleFallbackLine } from '../lib/free-mode.js';
+import { deliverNotifications } from '../lib/notify-sinks.js';
+import { formatScoreEvent, inferScoreEvent, updateDeficits, type Score } from '../lib/score-events.js';
+import {
+  buildStandingsImpact,
+  formatStandingsImpact,
+  isStandingsUpdated,
+  snapshotEntry,
+} from '../lib/standings-impact.js';
+import { applyQuietHours, getNotifyMode, getQuietHoursEnd } from '../lib/notify-rules.js';
+import { IDLE_POLL_MS, planNextWake, sleep, type WakePlan } from '../lib/polling.js';
+import { EXIT_CODES, inferExitCodeFromMessage } from '../lib/exit-codes.js';
 
 interface NotifyOptions {
   json?: boolean;
@@ -29,11 +58,18 @@ interface NotifyOptions {
   weekly?: boolean;
   daily?: boolean;
   live?: boolean;
+  daemon?: boolean;
+  format?: DigestFormat;
 }
 
 const DEBOUNCE_MS = 90 * 1000; // 90 seconds
 const DAY_MS = 24 * 60 * 60 * 1000;
 const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const STANDINGS_PENDING_MS = 3 * DAY_MS;
+// Daemon requests per league per cycle: today's games, fixtures, results, standings
+const DAEMON_REQUESTS_PER_LEAGUE = 4;
 
 /**
  * Generate a hash for match score to detect changes.
@@ -43,6 +79,23 @@ function scoreHash(match: Match): string {
   return `${match.score.home}-${match.score.away}-${match.status}`;
 }
 
+/**
+ * Score from a hash saved before `last_score` was tracked.
+ */
+function parseScoreHash(hash: string): Score | null {
+  const match = /^(\d+)-(\d+)-/.exec(hash);
+  return match ? { home: Number(match[1]), away: Number(match[2]) } : null;
+}
+
+/**
+ * Remember the score so the next update can tell what changed.
+ */
+function rememberScore(matchState: MatchNotificationState, match: Match): void {
+  if (!match.score) return;
+  matchState.last_score = { home: match.score.home, away: match.score.away };
+  matchState.max_deficit = updateDeficits(matchState.max_deficit, match.score);
+}
+
 /**
  * Check if enough time has passed since last notification.
  */
@@ -52,72 +105,153 @@ function canNotify(state: MatchNotificationState | undefined, now: number): bool
 }
 
 /**
- * Weekly digest: list all matches for favorite teams this week.
+ * Custom reminder offsets (minutes, largest first) for a match: the
+ * `reminders` of each favorite team playing, falling back to
+ * `notify.reminders`. Null when none are configured, which keeps the
+ * default day-before/hour-before pair.
+ */
+function getReminderOffsets(match: Match, config: Config): number[] | null {
+  const teams = config.favorite_teams.filter(
+    (team) => team.id === match.homeTeam.id || team.id === match.awayTeam.id
+  );
+  const sources = teams.length > 0
+    ? teams.map((team) => team.reminders ?? config.notify?.reminders)
+    : [config.notify?.reminders];
+  const lists = sources.filter((list): list is string[] => Array.isArray(list));
+  if (lists.length === 0) return null;
+
+  const offsets = lists
+    .flat()
+    .map((value) => parseOffsetMinutes(String(value)))
+    .filter((minutes): minutes is number => minutes !== null);
+  return Array.from(new Set(offsets)).sort((a, b) => b - a);
+}
+
+/**
+ * Human time until kickoff: "45 minutes", "2 hours", "3 days".
+ */
+function formatTimeUntil(ms: number): string {
+  const minutes = Math.max(1, Math.round(ms / MINUTE_MS));
+  if (minutes < 90) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 36) return `${hours} hours`;
+  return `${Math.round(hours / 24)} days`;
+}
+
+/**
+ * Weekly digest: last week's results for tracked teams, this week's
+ * fixtures grouped by day, and table positions compared with the previous
+ * digest (saved in state). Muted matches are left out; results-only
+ * ones only appear in the recap.
  */
 async function handleWeekly(
-  provider: ApiSportsProvider,
+  provider: ProviderChain,
   leagueIds: string[],
   teamIds: string[],
-  timeZone: string
+  timeZone: string,
+  state: State,
+  config: Config
 ): Promise<Notification[]> {
-  const notifications: Notification[] = [];
   const now = Date.now();
-  const weekEnd = now + 7 * DAY_MS;
+  const isTracked = (match: Match) =>
+    teamIds.length === 0 || teamIds.includes(match.homeTeam.id) || teamIds.includes(match.awayTeam.id);
 
-  const allFixtures: Match[] = [];
+  const recap: Match[] = [];
+  const upcoming: Match[] = [];
+  const standings: DigestStanding[] = [];
+  const positions = state.standings_positions ?? {};
 
   for (const leagueId of leagueIds) {
+    const results = await provider.getLeagueResults(leagueId);
+    recap.push(...results.filter(
+      (m) =>
+        m.status === 'finished' &&
+        m.timestamp >= now - WEEK_MS &&
+        m.timestamp <= now &&
+        isTracked(m) &&
+        getNotifyMode(m, config) !== 'mute'
+    ));
+
     const fixtures = await provider.getLeagueFixtures(leagueId);
-    const relevant = fixtures.filter(
+    upcoming.push(...fixtures.filter(
       (m) =>
         m.timestamp >= now &&
-        m.timestamp <= weekEnd &&
-        (teamIds.length === 0 ||
-          teamIds.includes(m.homeTeam.id) ||
-          teamIds.includes(m.awayTeam.id))
-    );
-    allFixtures.push(...relevant);
+        m.timestamp <= now + WEEK_MS &&
+        isTracked(m) &&
+        getNotifyMode(m, config) === 'all'
+    ));
+
+    const league = getLeagueById(leagueId);
+    if (!league) continue;
+
+    // The table is a bonus: a league without standings still gets a digest
+    let table: StandingsEntry[];
+    try {
+      table = await provider.getStandings(leagueId);
+    } catch {
+      continue;
+    }
+    if (table.length === 0) continue;
+
+    const previous = positions[league.slug] ?? {};
+    for (const entry of table) {
+      const moved = previous[entry.team.id] !== undefined && previous[entry.team.id] !== entry.position;
+      // Without tracked teams, only list the teams that moved
+      if (teamIds.length > 0 ? !teamIds.includes(entry.team.id) : !moved) continue;
+      standings.push({
+        league: league.name,
+        team: entry.team.name,
+        position: entry.position,
+        previous_position: previous[entry.team.id],
+        points: entry.points,
+      });
+    }
+    positions[league.slug] = Object.fromEntries(table.map((entry) => [entry.team.id, entry.position]));
   }
+  state.standings_positions = positions;
 
-  if (allFixtures.length === 0) {
+  if (recap.length === 0 && upcoming.length === 0) {
     return [];
   }
 
-  // Sort by date
-  allFixtures.sort((a, b) => a.timestamp - b.timestamp);
-
-  // Format weekly digest
-  const matchList = allFixtures
-    .map((m) => {
-      const date = new Date(m.date);
-      const day = date.toLocaleDateString('en-US', { weekday: 'short', timeZone });
-      const time = date.toLocaleTimeString('en-US', {
-        hour: '2-digit',
-        minute: '2-digit',
-        timeZone,
-      });
-      return `${m.homeTeam.name} vs ${m.awayTeam.name} (${day} ${time})`;
-    })
-    .join(', ');
+  recap.sort((a, b) => a.timestamp - b.timestamp);
+  upcoming.sort((a, b) => a.timestamp - b.timestamp);
+
+  const days = new Map<string, MatchOutput[]>();
+  for (const match of upcoming) {
+    const output = matchToOutput(match, { timeZone });
+    days.set(output.date, [...(days.get(output.date) ?? []), output]);
+  }
 
-  notifications.push({
+  const digest: WeeklyDigest = {
+    time_zone: timeZone,
+    recap: recap.map((match) => {
+      const teamId = teamIds.find((id) => id === match.homeTeam.id || id === match.awayTeam.id);
+      return { ...matchToOutput(match, { timeZone }), summary: generateSummary(match, teamId) };
+    }),
+    upcoming: Array.from(days, ([date, matches]) => ({ date, matches })),
+    standings,
+  };
+
+  return [{
     type: 'weekly_digest',
     match_id: 'weekly',
-    message: `This week's rugby: ${matchList}`,
-  });
-
-  return notifications;
+    message: renderDigestText(digest),
+    digest,
+  }];
 }
 
 /**
- * Daily check: day-before and hour-before reminders.
+ * Daily check: day-before and hour-before reminders, or the configured
+ * reminder offsets when a tracked team (or `notify`) defines them.
  */
 async function handleDaily(
-  provider: ApiSportsProvider,
+  provider: ProviderChain,
   leagueIds: string[],
   teamIds: string[],
   timeZone: string,
-  state: State
+  state: State,
+  config: Config
 ): Promise<{ notifications: Notification[]; state: State }> {
   const notifications: Notification[] = [];
   const now = Date.now();
@@ -133,7 +267,8 @@ async function handleDaily(
         teamIds.includes(match.homeTeam.id) ||
         teamIds.includes(match.awayTeam.id);
 
-      if (!isTracked) continue;
+      // Reminders are only sent for matches with every notification enabled
+      if (!isTracked || getNotifyMode(match, config) !== 'all') continue;
 
       const matchState = state.matches[match.id] || {
         match_id: match.id,
@@ -144,14 +279,52 @@ async function handleDaily(
           day_before: false,
           hour_before: false,
           kickoff: false,
+          half_time: false,
           fulltime: false,
         },
       };
 
+      const timeTillMatch = match.timestamp - now;
+
+      // Configured reminders replace the default pair
+      const offsets = getReminderOffsets(match, config);
+      if (offsets) {
+        const sent = matchState.notified.reminders ?? {};
+        const due = offsets.filter(
+          (minutes) => timeTillMatch > 0 && timeTillMatch <= minutes * MINUTE_MS && !sent[formatOffset(minutes)]
+        );
+
+        if (due.length > 0 && canNotify(matchState, now)) {
+          // Reminders whose window passed between runs are marked too;
+          // only the closest one is sent.
+          for (const minutes of due) sent[formatOffset(minutes)] = true;
+          matchState.notified.reminders = sent;
+          matchState.last_notified_at = now;
+
+          const date = new Date(match.date);
+          const day = date.toLocaleDateString('en-US', { weekday: 'short', timeZone });
+          const time = date.toLocaleTimeString('en-US', {
+            hour: '2-digit',
+            minute: '2-digit',
+            timeZone,
+          });
+
+          notifications.push({
+            type: 'reminder',
+            match_id: match.id,
+            reminder: formatOffset(due[due.length - 1]),
+            message: `${match.homeTeam.name} vs ${match.awayTeam.name} kicks off in ${formatTimeUntil(timeTillMatch)} (${day} ${time})${match.venue ? ` at ${match.venue}` : ''}`,
+            match: matchToOutput(match, { timeZone }),
+          });
+        }
+
+        state.matches[match.id] = matchState;
+        continue;
+      }
+
       const matchYmd = formatDateYMD(new Date(match.timestamp), timeZone);
 
       // Day before reminder
-      const timeTillMatch = match.timestamp - now;
       if (
         timeTillMatch > 0 &&
         // Use calendar dates in the user's timezone instead of a narrow 23-24h window.
@@ -209,17 +382,19 @@ async function handleDaily(
  * Live polling: score updates during matches.
  */
 async function handleLive(
-  provider: ApiSportsProvider,
+  provider: ProviderChain,
   leagueIds: string[],
   teamIds: string[],
   timeZone: string,
-  state: State
+  state: State,
+  config: Config
 ): Promise<{ notifications: Notification[]; state: State }> {
   const notifications: Notification[] = [];
   const now = Date.now();
   // Use the cheaper "today" query path (one request per league, cached) instead of
   // fetching full season fixtures + results on every poll.
   const allMatches = await provider.getToday(leagueIds, { dateYmd: getTodayYMD(timeZone) });
+  const finished: Match[] = [];
 
   for (const match of allMatches) {
     const isTracked =
@@ -229,6 +404,10 @@ async function handleLive(
 
     if (!isTracked) continue;
 
+    // Muted matches are skipped; results-only matches wait for fulltime
+    const mode = getNotifyMode(match, config);
+    if (mode === 'mute' || (mode === 'results_only' && match.status !== 'finished')) continue;
+
     const matchState = state.matches[match.id] || {
       match_id: match.id,
       status: 'scheduled' as const,
@@ -238,6 +417,7 @@ async function handleLive(
         day_before: false,
         hour_before: false,
         kickoff: false,
+        half_time: false,
         fulltime: false,
       },
     };
@@ -256,6 +436,7 @@ async function handleLive(
       matchState.notified.kickoff = true;
       matchState.last_notified_at = now;
       matchState.last_score_hash = currentHash;
+      rememberScore(matchState, match);
       state.matches[match.id] = matchState;
 
       notifications.push({
@@ -267,14 +448,45 @@ async function handleLive(
       continue;
     }
 
+    // Half-time detection
+    if (
+      match.status === 'live' &&
+      match.phase === 'half_time' &&
+      !matchState.notified.half_time &&
+      canNotify(matchState, now)
+    ) {
+      matchState.status = 'live';
+      matchState.notified.half_time = true;
+      matchState.last_notified_at = now;
+      matchState.last_score_hash = currentHash;
+      rememberScore(matchState, match);
+      state.matches[match.id] = matchState;
+
+      const score = match.score ? `${match.score.home}-${match.score.away}` : '';
+
+      notifications.push({
+        type: 'half_time',
+        match_id: match.id,
+        message: `⏸️ Half-time: ${match.homeTeam.name} ${score || 'vs'} ${match.awayTeam.name}`,
+        match: matchToOutput(match, { timeZone }),
+      });
+      continue;
+    }
+
     // Score change detection
     if (
       match.status === 'live' &&
       currentHash !== matchState.last_score_hash &&
       canNotify(matchState, now)
     ) {
+      const previousScore = matchState.last_score ?? parseScoreHash(matchState.last_score_hash);
+      const scoreEvent = match.score && previousScore
+        ? inferScoreEvent(previousScore, match.score, match, matchState.max_deficit)
+        : null;
+
       matchState.status = 'live';
       matchState.last_score_hash = currentHash;
+      rememberScore(matchState, match);
       matchState.last_notified_at = now;
       state.matches[match.id] = matchState;
 
@@ -285,7 +497,10 @@ async function handleLive(
       notifications.push({
         type: 'score_update',
         match_id: match.id,
-        message: `🏉 ${match.homeTeam.name} ${score} ${match.awayTeam.name}`,
+        message: scoreEvent && match.score
+          ? formatScoreEvent(scoreEvent, match, match.score)
+          : `🏉 ${match.homeTeam.name} ${score} ${match.awayTeam.name}`,
+        score_event: scoreEvent ?? undefined,
         match: matchToOutput(match, { timeZone }),
       });
       continue;
@@ -302,6 +517,7 @@ async function handleLive(
       matchState.notified.fulltime = true;
       matchState.last_notified_at = now;
       matchState.last_score_hash = currentHash;
+      rememberScore(matchState, match);
       state.matches[match.id] = matchState;
 
       const teamId =
@@ -309,18 +525,23 @@ async function handleLive(
           (id) => id === match.homeTeam.id || id === match.awayTeam.id
         ) || undefined;
       const summary = generateSummary(match, teamId);
+      const halfTime = formatHalfTime(match.periods);
+      const message = summary || `FT: ${match.homeTeam.name} ${match.score?.home}-${match.score?.away} ${match.awayTeam.name}`;
 
       notifications.push({
         type: 'fulltime',
         match_id: match.id,
-        message: summary || `FT: ${match.homeTeam.name} ${match.score?.home}-${match.score?.away} ${match.awayTeam.name}`,
+        message: halfTime ? `${message} (${halfTime})` : message,
         match: matchToOutput(match, { timeZone }),
       });
+      finished.push(match);
     }
 
     state.matches[match.id] = matchState;
   }
 
+  notifications.push(...await handleStandingsImpact(provider, teamIds, state, finished, timeZone, now));
+
   // Prune old matches (older than 7 days)
   const weekAgo = now - 7 * DAY_MS;
   for (const [matchId, matchState] of Object.entries(state.matches)) {
@@ -332,74 +553,415 @@ async function handleLive(
   return { notifications, state };
 }
 
-export async function notifyCommand(options: NotifyOptions): Promise<void> {
+function standingsImpactNotification(match: Match, impact: StandingsImpact, timeZone: string): Notification {
+  return {
+    type: 'standings_impact',
+    match_id: match.id,
+    message: formatStandingsImpact(impact),
+    standings_impact: impact,
+    match: matchToOutput(match, { timeZone }),
+  };
+}
+
+/**
+ * Table impact for favorite teams. At fulltime it is projected from the
+ * score when the standings haven't counted the match yet; a later run
+ * confirms it, with the bonus points the table shows, once they have.
+ * Tables that don't catch up within STANDINGS_PENDING_MS are given up on.
+ */
+async function handleStandingsImpact(
+  provider: ProviderChain,
+  teamIds: string[],
+  state: State,
+  finished: Match[],
+  timeZone: string,
+  now: number
+): Promise<Notification[]> {
+  if (teamIds.length === 0) return [];
+  const notifications: Notification[] = [];
+
+  // One fetch per league per run; the impact is extra, so failures are skipped
+  const tables = new Map<string, Promise<StandingsEntry[]>>();
+  const results = new Map<string, Promise<Match[]>>();
+  const getTable = (leagueId: string) => {
+    if (!tables.has(leagueId)) tables.set(leagueId, provider.getStandings(leagueId).catch(() => []));
+    return tables.get(leagueId) as Promise<StandingsEntry[]>;
+  };
+  const getResults = (leagueId: string) => {
+    if (!results.has(leagueId)) results.set(leagueId, provider.getLeagueResults(leagueId).catch(() => []));
+    return results.get(leagueId) as Promise<Match[]>;
+  };
+
+  // Projected earlier: confirm once the table has the match
+  for (const matchState of Object.values(state.matches)) {
+    const pending = matchState.standings_pending;
+    if (!pending) continue;
+    if (now - pending.since > STANDINGS_PENDING_MS) {
+      delete matchState.standings_pending;
+      continue;
+    }
+
+    const table = await getTable(pending.league_id);
+    const match = (await getResults(pending.league_id)).find((m) => m.id === matchState.match_id);
+    if (!match) continue;
+
+    for (const [teamId, before] of Object.entries(pending.before)) {
+      const entry = table.find((row) => row.team.id === teamId);
+      if (!entry || entry.played <= before.played) continue;
+      delete pending.before[teamId];
+      const impact = buildStandingsImpact(match, teamId, table, { updated: true, before });
+      if (impact) notifications.push(standingsImpactNotification(match, impact, timeZone));
+    }
+    if (Object.keys(pending.before).length === 0) delete matchState.standings_pending;
+  }
+
+  for (const match of finished) {
+    const table = await getTable(match.league.id);
+    if (table.length === 0) continue;
+    const leagueResults = await getResults(match.league.id);
+    const before: Record<string, StandingsSnapshot> = {};
+
+    for (const teamId of teamIds.filter((id) => id === match.homeTeam.id || id === match.awayTeam.id)) {
+      const entry = table.find((row) => row.team.id === teamId);
+      if (!entry) continue;
+      const updated = isStandingsUpdated(entry, leagueResults, match, teamId);
+      const impact = buildStandingsImpact(match, teamId, table, { updated });
+      if (!impact) continue;
+      if (!updated) before[teamId] = snapshotEntry(entry);
+      notifications.push(standingsImpactNotification(match, impact, timeZone));
+    }
+
+    if (Object.keys(before).length > 0) {
+      state.matches[match.id].standings_pending = { league_id: match.league.id, since: now, before };
+    }
+  }
+
+  return notifications;
+}
+
+interface NotifyContext {
+  config: Config;
+  provider: ProviderChain;
+  leagueIds: string[];
+  teamIds: string[];
+  timeZone: string;
+  hasApiKey: boolean;
+  proxyToken?: string;
+}
+
+interface NotifyChecks {
+  weekly: boolean;
+  daily: boolean;
+  live: boolean;
+}
+
+interface NotifyCycle {
+  notifications: Notification[];
+  held: number;
+  deliveries?: NotifyDelivery[];
+}
+
+export interface NotifyRuntime {
+  sleep?: (ms: number, signal: AbortSignal) => Promise<void>;
+  /** Stops the daemon like SIGTERM does. */
+  signal?: AbortSignal;
+}
+
+function isTrackedMatch(match: Match, teamIds: string[]): boolean {
+  return teamIds.length === 0 || teamIds.includes(match.homeTeam.id) || teamIds.includes(match.awayTeam.id);
+}
+
+/**
+ * One pass of the requested checks: collect notifications, apply quiet
+ * hours, save state, then deliver to sinks. State is saved before
+ * delivery, so a failing sink can't cause repeats on the next run.
+ */
+async function runNotifyCycle(context: NotifyContext, checks: NotifyChecks): Promise<NotifyCycle> {
+  const { provider, leagueIds, teamIds, timeZone, config } = context;
+  let state = await loadState();
+  let notifications: Notification[] = [];
+
+  if (checks.weekly) {
+    notifications.push(...await handleWeekly(provider, leagueIds, teamIds, timeZone, state, config));
+    state.last_weekly_at = Date.now();
+  }
+  if (checks.daily) {
+    const result = await handleDaily(provider, leagueIds, teamIds, timeZone, state, config);
+    notifications.push(...result.notifications);
+    state = result.state;
+  }
+  if (checks.live) {
+    const result = await handleLive(provider, leagueIds, teamIds, timeZone, state, config);
+    notifications.push(...result.notifications);
+    state = result.state;
+  }
+
+  // Quiet hours hold notifications back and release them as one catch-up
+  const quiet = applyQuietHours(notifications, state, {
+    quietHours: config.notify?.quiet_hours,
+    timeZone,
+  });
+  const held = quiet.held > 0 ? notifications : []; // quiet hours hold the whole run
+  notifications = quiet.notifications;
+  await saveState(state);
+
+  const sinks = config.notify?.sinks ?? [];
+  const results = new Map<Notification, NotificationHistoryDelivery[]>();
+  const deliveries = notifications.length > 0 && sinks.length > 0
+    ? await deliverNotifications(notifications, sinks, (notification, sink, error) => {
+      const list = results.get(notification) ?? [];
+      list.push(error ? { sink, delivered: false, error } : { sink, delivered: true });
+      results.set(notification, list);
+    })
+    : undefined;
+
+  // History keeps what was sent or held, for `notify history`
+  const at = new Date().toISOString();
+  await appendNotificationHistory([
+    ...held.map((notification) => ({ at, status: 'held' as const, notification })),
+    ...notifications.map((notification) => ({
+      at,
+      status: 'sent' as const,
+      notification,
+      deliveries: results.get(notification),
+    })),
+  ]);
+
+  return { notifications, held: quiet.held, deliveries };
+}
+
+function printCycle(cycle: NotifyCycle, output: NotifyOutput, config: Config, emptyLine?: string): void {
+  if (cycle.notifications.length > 0) {
+    console.log(renderNotify(output));
+  } else if (cycle.held > 0) {
+    console.log(`Quiet hours: ${cycle.held} notification(s) held for a catch-up at ${config.notify?.quiet_hours?.end}.`);
+  } else if (emptyLine) {
+    console.log(emptyLine);
+  }
+  for (const delivery of cycle.deliveries ?? []) {
+    if (delivery.failed > 0) {
+      console.log(renderWarning(`${delivery.failed} notification(s) not delivered to ${delivery.sink}: ${delivery.error}`));
+    }
+  }
+}
+
+/**
+ * Upcoming moments the daemon must be awake for: kickoffs of tracked,
+ * unmuted matches, their reminders (the day-before reminder goes out 24h
+ * before kickoff), the end of quiet hours with a digest pending, and the
+ * next weekly digest.
+ */
+async function getDaemonWakeups(context: NotifyContext, state: State, now: number): Promise<number[]> {
+  const { provider, leagueIds, teamIds, config } = context;
+  const wakeups: number[] = [];
+
+  for (const leagueId of leagueIds) {
+    let fixtures: Match[];
+    try {
+      fixtures = await provider.getLeagueFixtures(leagueId);
+    } catch {
+      continue;
+    }
+
+    for (const match of fixtures) {
+      if (match.timestamp <= now || !isTrackedMatch(match, teamIds)) continue;
+      const mode = getNotifyMode(match, config);
+      if (mode === 'mute') continue;
+
+      wakeups.push(match.timestamp);
+      if (mode !== 'all') continue;
+      const offsets = getReminderOffsets(match, config) ?? [DAY_MS / MINUTE_MS, HOUR_MS / MINUTE_MS];
+      for (const minutes of offsets) {
+        wakeups.push(match.timestamp - minutes * MINUTE_MS);
+      }
+    }
+  }
+
+  const quietEnd = getQuietHoursEnd(config.notify?.quiet_hours, context.timeZone, now);
+  if (quietEnd !== null && state.quiet_digest) wakeups.push(quietEnd);
+  if (state.last_weekly_at) wakeups.push(state.last_weekly_at + WEEK_MS);
+
+  return wakeups;
+}
+
+function formatWake(plan: WakePlan, timeZone: string): string {
+  const at = new Date(Date.now() + plan.intervalMs).toLocaleTimeString('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+  if (plan.reason === 'live') return `Match in play · next check at ${at}`;
+  if (plan.reason === 'quota') return `Paced to free quota · next check at ${at}`;
+  if (plan.reason === 'wakeup') return `Next check at ${at} (next reminder or kickoff)`;
+  return `Nothing scheduled soon · next check at ${at}`;
+}
+
+/**
+ * Long-running notify: wake for reminders and kickoffs, poll at the live
+ * rate while tracked matches are in play, and stop cleanly on SIGINT/SIGTERM
+ * once the current cycle has saved its state.
+ */
+async function notifyDaemon(context: NotifyContext, options: NotifyOptions, runtime: NotifyRuntime): Promise<void> {
+  const { provider, leagueIds, teamIds, timeZone, config } = context;
+  const wait = runtime.sleep ?? sleep;
+  const structured = wantsStructuredOutput(options);
+
+  const controller = new AbortController();
+  const stop = (): void => controller.abort();
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+  runtime.signal?.addEventListener('abort', stop, { once: true });
+
+  if (!structured && !options.quiet) {
+    console.log(chalk.dim('Notify daemon started · Ctrl+C to stop'));
+  }
+
+  try {
+    // Start the weekly clock now rather than sending a digest on the first cycle
+    const initial = await loadState();
+    if (!initial.last_weekly_at) {
+      initial.last_weekly_at = Date.now();
+      await saveState(initial);
+    }
+
+    while (!controller.signal.aborted) {
+      let plan: WakePlan;
+
+      try {
+        const before = await loadState();
+        const weeklyDue = Date.now() - (before.last_weekly_at ?? 0) >= WEEK_MS;
+        const cycle = await runNotifyCycle(context, { weekly: weeklyDue, daily: true, live: true });
+
+        const now = Date.now();
+        const today = (await provider.getToday(leagueIds, { dateYmd: getTodayYMD(timeZone) }))
+          .filter((match) => isTrackedMatch(match, teamIds) && getNotifyMode(match, config) !== 'mute');
+        const wakeups = await getDaemonWakeups(context, await loadState(), now);
+        const proxyStatus = await getProxyStatusIfFree(context.hasApiKey, true, context.proxyToken);
+        plan = planNextWake({
+          matches: today,
+          wakeups,
+          now,
+          proxyStatus,
+          requestUnits: leagueIds.length * DAEMON_REQUESTS_PER_LEAGUE,
+        });
+
+        const meta = provider.consumeRuntimeMeta();
+        const output: NotifyOutput = {
+          type: 'daemon',
+          notifications: cycle.notifications,
+          held: cycle.held || undefined,
+          deliveries: cycle.deliveries,
+          next_check_at: new Date(now + plan.intervalMs).toISOString(),
+          generated_at: new Date().toISOString(),
+          trace_id: meta.traceId || undefined,
+          stale: meta.staleFallback || undefined,
+          cached_at: meta.cachedAt || undefined,
+        };
+
+        if (options.agent) {
+          emitCommandSuccess(output, options, { traceId: meta.traceId });
+        } else if (options.json) {
+          // One compact object per cycle (NDJSON), like `watch --json`.
+          console.log(JSON.stringify(output));
+        } else if (options.quiet) {
+          for (const notification of cycle.notifications) console.log(notification.message);
+        } else {
+          printCycle(cycle, output, config);
+          console.log(chalk.dim(formatWake(plan, timeZone)));
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const meta = provider.consumeRuntimeMeta();
+        // Bad credentials won't fix themselves; anything else is retried.
+        if (inferExitCodeFromMessage(message) === EXIT_CODES.AUTH_ERROR) {
+          emitCommandError(message, options, undefined, { traceId: meta.traceId });
+        }
+        plan = { intervalMs: IDLE_POLL_MS, reason: 'idle', quotaExhausted: false };
+        if (!structured && !options.quiet) {
+          console.log(renderWarning(`${message} Retrying in ${Math.round(IDLE_POLL_MS / 60_000)}m.`));
+        }
+      }
+
+      await wait(plan.intervalMs, controller.signal);
+    }
+  } finally {
+    process.off('SIGINT', stop);
+    process.off('SIGTERM', stop);
+    runtime.signal?.removeEventListener('abort', stop);
+  }
+
+  if (!structured && !options.quiet) {
+    console.log(chalk.dim('Notify daemon stopped.'));
+  }
+}
+
+export async function notifyCommand(options: NotifyOptions, runtime: NotifyRuntime = {}): Promise<void> {
   const config = await loadConfig();
   const secrets = await loadSecrets();
-  let state = await loadState();
   const timeZone = getEffectiveTimeZone(config);
 
   const hasApiKey = Boolean(secrets?.api_key);
-  const leagueSlugs = hasApiKey
-    ? (config.favorite_leagues.length > 0 ? config.favorite_leagues : DEFAULT_PROXY_LEAGUES)
-    : DEFAULT_PROXY_LEAGUES;
+  const leagueSlugs = (await getLeagueAccess(config, secrets)).effective;
   const leagueIds = leagueSlugs
     .map((slug) => LEAGUES[slug]?.id)
     .filter(Boolean) as string[];
   const teamIds = config.favorite_teams.map((t) => t.id);
 
-  const provider = new ApiSportsProvider(secrets?.api_key);
-  let notifications: Notification[] = [];
+  const provider = createProviderChain({ apiKey: secrets?.api_key, proxyToken: secrets?.proxy_token, config });
+  const context: NotifyContext = { config, provider, leagueIds, teamIds, timeZone, hasApiKey, proxyToken: secrets?.proxy_token };
 
-  try {
-    if (options.weekly) {
-      notifications = await handleWeekly(provider, leagueIds, teamIds, timeZone);
-    } else if (options.daily) {
-      const result = await handleDaily(provider, leagueIds, teamIds, timeZone, state);
-      notifications = result.notifications;
-      state = result.state;
-      await saveState(state);
-    } else if (options.live) {
-      const result = await handleLive(provider, leagueIds, teamIds, timeZone, state);
-      notifications = result.notifications;
-      state = result.state;
-      await saveState(state);
-    } else {
-      // Default: run all checks
-      const weeklyNotifs = await handleWeekly(provider, leagueIds, teamIds, timeZone);
-      const dailyResult = await handleDaily(provider, leagueIds, teamIds, timeZone, state);
-      const liveResult = await handleLive(provider, leagueIds, teamIds, timeZone, dailyResult.state);
-
-      notifications = [...weeklyNotifs, ...dailyResult.notifications, ...liveResult.notifications];
-      state = liveResult.state;
-      await saveState(state);
+  if (options.daemon) {
+    if (options.weekly || options.daily || options.live || options.format) {
+      emitCommandError('--daemon runs every check; drop --weekly/--daily/--live/--format.', options, EXIT_CODES.INVALID_INPUT);
     }
+    await notifyDaemon(context, options, runtime);
+    return;
+  }
 
-    const runtime = provider.consumeRuntimeMeta();
+  // --format prints nothing but the digest, so other checks' alerts would be marked sent unseen
+  if (options.format && (options.daily || options.live)) {
+    emitCommandError('--format prints the weekly digest only; drop --daily/--live.', options, EXIT_CODES.INVALID_INPUT);
+  }
+
+  try {
+    const weekly = Boolean(options.weekly || options.format);
+    const all = !weekly && !options.daily && !options.live;
+    const cycle = await runNotifyCycle(context, {
+      weekly: weekly || all,
+      daily: Boolean(options.daily) || all,
+      live: Boolean(options.live) || all,
+    });
+
+    const runtimeMeta = provider.consumeRuntimeMeta();
+    const mode = weekly ? 'weekly' : options.daily ? 'daily' : options.live ? 'live' : 'all';
     const output: NotifyOutput = {
-      type: options.weekly ? 'weekly' : options.daily ? 'daily' : options.live ? 'live' : 'all',
-      notifications,
+      type: mode,
+      notifications: cycle.notifications,
+      held: cycle.held || undefined,
+      deliveries: cycle.deliveries,
       generated_at: new Date().toISOString(),
-      trace_id: runtime.traceId || undefined,
-      stale: runtime.staleFallback || undefined,
-      cached_at: runtime.cachedAt || undefined,
+      trace_id: runtimeMeta.traceId || undefined,
+      stale: runtimeMeta.staleFallback || undefined,
+      cached_at: runtimeMeta.cachedAt || undefined,
     };
 
     if (wantsStructuredOutput(options)) {
-      emitCommandSuccess(output, options, { traceId: runtime.traceId });
-    } else if (!options.quiet) {
-      if (notifications.length > 0) {
-        console.log(renderNotify(output));
-      } else {
-        const mode = options.weekly ? 'weekly' : options.daily ? 'daily' : options.live ? 'live' : 'all';
-        console.log(`No ${mode} notifications at this time.`);
+      emitCommandSuccess(output, options, { traceId: runtimeMeta.traceId });
+    } else if (options.format) {
+      // Only the digest document, ready to pipe into mail or a chat post
+      for (const notification of cycle.notifications) {
+        if (notification.digest) process.stdout.write(renderDigest(notification.digest, options.format));
       }
-      if (runtime.staleFallback) {
-        console.log(getStaleFallbackLine(runtime.cachedAt));
+    } else if (!options.quiet) {
+      printCycle(cycle, output, config, `No ${mode} notifications at this time.`);
+      if (runtimeMeta.staleFallback) {
+        console.log(getStaleFallbackLine(runtimeMeta.cachedAt));
       }
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
-    const runtime = provider.consumeRuntimeMeta();
-    emitCommandError(message, options, undefined, { traceId: runtime.traceId });
+    const runtimeMeta = provider.consumeRuntimeMeta();
+    emitCommandError(message, options, undefined, { traceId: runtimeMeta.traceId });
   }
 }
@@ -4,10 +4,9 @@ import {
   loadConfig,
   loadSecrets,
   getEffectiveTimeZone,
-  DEFAULT_PROXY_LEAGUES,
-  getEffectiveLeagues,
 } from '../lib/config.js';
 import { PROXY_URL } from '../lib/providers/apisports.js';
+import { getLeagueAccess } from '../lib/free-mode.js';
 import { emitCommandSuccess, wantsStructuredOutput } from '../lib/output.js';
 import { emitCommandError } from '../lib/command-error.js';
 
@@ -27,7 +26,7 @@ export async function openclawInitCommand(options: OpenClawInitOptions): Promise
     const secrets = await loadSecrets();
     const hasApiKey = Boolean(secrets?.api_key);
     const mode = hasApiKey ? 'direct' : 'proxy';
-    const effectiveLeagues = hasApiKey ? await getEffectiveLeagues() : DEFAULT_PROXY_LEAGUES;
+    const effectiveLeagues = (await getLeagueAccess(config, secrets)).effective;
     const timezone = getEffectiveTimeZone(config);
 
     const payload = {
@@ -1,13 +1,12 @@
 import {
   loadConfig,
   loadSecrets,
-  getEffectiveLeagues,
-  DEFAULT_PROXY_LEAGUES,
   getEffectiveTimeZone,
 } from '../lib/config.js';
 import { LEAGUES } from '../lib/leagues.js';
-import { ApiSportsProvider } from '../lib/providers/apisports.js';
+import { createProviderChain } from '../lib/providers/registry.js';
 import {
+  getLeagueAccess,
   getProxyQuotaLine,
   getProxyRateLimit,
   getProxyStatusIfFree,
@@ -35,10 +34,10 @@ export async function scoresCommand(options: ScoresOptions): Promise<void> {
   // Get API key if available (otherwise use proxy mode)
   const secrets = await loadSecrets();
   const hasApiKey = Boolean(secrets?.api_key);
-  const provider = new ApiSportsProvider(secrets?.api_key);
+  const provider = createProviderChain({ apiKey: secrets?.api_key, proxyToken: secrets?.proxy_token, config });
 
   // Get effective leagues (user's favorites or defaults)
-  const favoriteLeagues = secrets?.api_key ? await getEffectiveLeagues() : DEFAULT_PROXY_LEAGUES;
+  const favoriteLeagues = (await getLeagueAccess(config, secrets)).effective;
   const selectedLeagues = favoriteLeagues
     .map((slug) => ({ slug, id: LEAGUES[slug]?.id, name: LEAGUES[slug]?.name }))
     .filter((league): league is { slug: string; id: string; name: string } => Boolean(league.id && league.name));
@@ -51,7 +50,7 @@ export async function scoresCommand(options: ScoresOptions): Promise<void> {
     const matches = await provider.getToday(leagueIds, { dateYmd });
 
     const wantProxyStatus = !hasApiKey && (wantsStructuredOutput(options) || !options.quiet);
-    const proxyStatus = await getProxyStatusIfFree(hasApiKey, wantProxyStatus);
+    const proxyStatus = await getProxyStatusIfFree(hasApiKey, wantProxyStatus, secrets?.proxy_token);
     const runtime = provider.consumeRuntimeMeta();
 
     const output: ScoresOutput = {
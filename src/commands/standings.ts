@@ -1,13 +1,13 @@
 import {
   loadConfig,
   loadSecrets,
-  getEffectiveLeagues,
-  DEFAULT_PROXY_LEAGUES,
   getEffectiveTimeZone,
 } from '../lib/config.js';
 import { LEAGUES, resolveLeague } from '../lib/leagues.js';
-import { ApiSportsProvider } from '../lib/providers/apisports.js';
+import { createProviderChain } from '../lib/providers/registry.js';
 import {
+  canUseLeague,
+  getLeagueAccess,
   getProxyQuotaLine,
   getProxyRateLimit,
   getProxyStatusIfFree,
@@ -58,7 +58,8 @@ export async function standingsCommand(
   const timeZone = getEffectiveTimeZone(config);
   const secrets = await loadSecrets();
   const hasApiKey = Boolean(secrets?.api_key);
-  const provider = new ApiSportsProvider(secrets?.api_key);
+  const provider = createProviderChain({ apiKey: secrets?.api_key, proxyToken: secrets?.proxy_token, config });
+  const leagueAccess = await getLeagueAccess(config, secrets);
 
   let standings: StandingsEntry[] = [];
   let leagueName: string | undefined;
@@ -77,7 +78,7 @@ export async function standingsCommand(
         emitCommandError(`Unknown league: "${leagueInput}"`, options, EXIT_CODES.INVALID_INPUT);
       }
 
-      if (!hasApiKey && !DEFAULT_PROXY_LEAGUES.includes(league.slug)) {
+      if (!canUseLeague(leagueAccess, league.slug)) {
         if (!wantsStructuredOutput(options) && !options.quiet) {
           console.log(renderError(`"${league.name}" is not available in free mode.`));
           console.log(renderWarning('Run "rugbyclaw config" to add your own API key to unlock more leagues.'));
@@ -90,7 +91,7 @@ export async function standingsCommand(
       standings = await provider.getStandings(league.id) ?? [];
       warnIfStandingsInvalid(standings, league.slug, options);
     } else {
-      const favoriteLeagues = hasApiKey ? await getEffectiveLeagues() : DEFAULT_PROXY_LEAGUES;
+      const favoriteLeagues = leagueAccess.effective;
       selectedLeagues = favoriteLeagues
         .map((slug) => ({ slug, id: LEAGUES[slug]?.id, name: LEAGUES[slug]?.name }))
         .filter((league): league is { slug: string; id: string; name: string } => Boolean(league.id && league.name));
@@ -106,7 +107,7 @@ export async function standingsCommand(
     }
 
     const wantProxyStatus = !hasApiKey && (wantsStructuredOutput(options) || !options.quiet);
-    const proxyStatus = await getProxyStatusIfFree(hasApiKey, wantProxyStatus);
+    const proxyStatus = await getProxyStatusIfFree(hasApiKey, wantProxyStatus, secrets?.proxy_token);
     const runtime = provider.consumeRuntimeMeta();
 
     const output: StandingsOutput = {
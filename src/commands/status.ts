@@ -1,9 +1,8 @@
 import chalk from 'chalk';
-import { loadConfig, loadSecrets, DEFAULT_PROXY_LEAGUES, getConfigDir, getEffectiveTimeZone } from '../lib/config.js';
+import { loadConfig, loadSecrets, getConfigDir, getEffectiveTimeZone } from '../lib/config.js';
 import { LEAGUES } from '../lib/leagues.js';
 import { fetchProxyStatus } from '../lib/providers/apisports.js';
-import { getProxyQuotaLine } from '../lib/free-mode.js';
-import type { Config } from '../types/index.js';
+import { getLeagueAccess, getProxyQuotaLine } from '../lib/free-mode.js';
 import { emitCommandSuccess, wantsStructuredOutput } from '../lib/output.js';
 import { renderFollowups, shouldShowFollowups } from '../lib/followups.js';
 
@@ -14,21 +13,15 @@ interface StatusOptions {
   followups?: boolean;
 }
 
-function getEffectiveLeagueSlugs(config: Config, hasApiKey: boolean): string[] {
-  if (!hasApiKey) return DEFAULT_PROXY_LEAGUES;
-  if (config.favorite_leagues.length > 0) return config.favorite_leagues;
-  return DEFAULT_PROXY_LEAGUES;
-}
-
 export async function statusCommand(options: StatusOptions): Promise<void> {
   const config = await loadConfig();
   const timeZone = getEffectiveTimeZone(config);
   const secrets = await loadSecrets();
   const hasApiKey = Boolean(secrets?.api_key);
   const mode = hasApiKey ? 'direct' : 'proxy';
-  const proxyStatus = !hasApiKey ? await fetchProxyStatus() : null;
+  const proxyStatus = !hasApiKey ? await fetchProxyStatus(secrets?.proxy_token) : null;
 
-  const leagueSlugs = getEffectiveLeagueSlugs(config, hasApiKey);
+  const leagueSlugs = (await getLeagueAccess(config, secrets, proxyStatus)).effective;
   const leagueNames = leagueSlugs.map((slug) => LEAGUES[slug]?.name ?? slug);
 
   const output = {
@@ -44,8 +37,9 @@ export async function statusCommand(options: StatusOptions): Promise<void> {
     proxy_status: mode === 'proxy' ? (proxyStatus?.status ?? 'unavailable') : undefined,
     trace_id: proxyStatus?.trace_id,
     rate_limit: proxyStatus?.rate_limit,
+    proxy_token: proxyStatus?.token,
     notes: mode === 'proxy'
-      ? ['Free mode: limited requests, default leagues only.']
+      ? [proxyStatus?.token ? 'Proxy token: its own quota and leagues.' : 'Free mode: limited requests, default leagues only.']
       : [],
   };
 
@@ -62,6 +56,9 @@ export async function statusCommand(options: StatusOptions): Promise<void> {
   lines.push(`${chalk.dim('Mode:')} ${mode === 'proxy' ? chalk.yellow('Free (no API key)') : chalk.green('API key')}`);
   if (mode === 'proxy') {
     lines.push(`${chalk.dim('Proxy:')} ${proxyStatus ? chalk.green('online') : chalk.yellow('unavailable')}`);
+    if (proxyStatus?.token) {
+      lines.push(`${chalk.dim('Proxy token:')} ${proxyStatus.token.name}`);
+    }
   }
   lines.push(`${chalk.dim('Timezone:')} ${timeZone}`);
   if (config.timezone && config.timezone !== timeZone) {
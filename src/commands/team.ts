@@ -4,26 +4,38 @@ import {
   loadConfig,
   loadSecrets,
   getEffectiveLeagues,
-  DEFAULT_PROXY_LEAGUES,
   getEffectiveTimeZone,
 } from '../lib/config.js';
 import { LEAGUES } from '../lib/leagues.js';
-import { ApiSportsProvider } from '../lib/providers/apisports.js';
+import { createProviderChain, type ProviderChain } from '../lib/providers/registry.js';
 import { normalizeText, similarityScore } from '../lib/fuzzy.js';
 import { getTeamQueryCandidates } from '../lib/team-aliases.js';
+import { getLeagueTeams, isWomenTeamName, resolveTeamId } from '../lib/team-resolver.js';
 import {
   renderMatch,
   renderTeamSearch,
+  renderTeamForm,
+  renderTeamSchedule,
   matchToOutput,
   renderWarning,
   renderSuccess,
 } from '../render/terminal.js';
 import { generateSummary } from '../lib/personality.js';
-import { matchToICS } from '../lib/ics.js';
-import type { Match, TeamSearchOutput, MatchOutput, Team } from '../types/index.js';
+import { feedToICS, getIcsTimeZone, matchToICS, recordCalendarRevisions } from '../lib/ics.js';
+import { buildTeamForm } from '../lib/team-form.js';
+import { getScheduleLeagueIds, getTeamSchedule } from '../lib/team-schedule.js';
+import type {
+  Match,
+  TeamSearchOutput,
+  TeamFormOutput,
+  TeamScheduleOutput,
+  MatchOutput,
+  StandingsEntry,
+  Team,
+} from '../types/index.js';
 import { emitCommandError } from '../lib/command-error.js';
 import { emitCommandSuccess, wantsStructuredOutput } from '../lib/output.js';
-import { getStaleFallbackLine } from '../lib/free-mode.js';
+import { getLeagueAccess, getStaleFallbackLine } from '../lib/free-mode.js';
 import { printFollowups, quoteArg } from '../lib/followups.js';
 
 interface TeamOptions {
@@ -32,6 +44,8 @@ interface TeamOptions {
   quiet?: boolean;
   followups?: boolean;
   ics?: boolean;
+  alarm?: number[];
+  localTime?: boolean;
 }
 
 function toSafeFilenamePart(value: string): string {
@@ -52,10 +66,8 @@ export async function teamCommand(
   const timeZone = getEffectiveTimeZone(config);
   const secrets = await loadSecrets();
   const hasApiKey = Boolean(secrets?.api_key);
-  const provider = new ApiSportsProvider(secrets?.api_key);
-  const leagueSlugs = hasApiKey
-    ? (config.favorite_leagues.length > 0 ? config.favorite_leagues : DEFAULT_PROXY_LEAGUES)
-    : DEFAULT_PROXY_LEAGUES;
+  const provider = createProviderChain({ apiKey: secrets?.api_key, proxyToken: secrets?.proxy_token, config });
+  const leagueSlugs = (await getLeagueAccess(config, secrets)).effective;
   const leagueIds = leagueSlugs
     .map((slug) => LEAGUES[slug]?.id)
     .filter(Boolean) as string[];
@@ -71,6 +83,12 @@ export async function teamCommand(
       case 'last':
         await handleLast(nameOrId, provider, config, timeZone, hasApiKey, leagueIds, options);
         break;
+      case 'form':
+        await handleForm(nameOrId, provider, config, timeZone, hasApiKey, leagueIds, options);
+        break;
+      case 'schedule':
+        await handleSchedule(nameOrId, provider, config, timeZone, hasApiKey, leagueIds, options);
+        break;
       default:
         // Default to 'next' if action looks like part of team name
         await handleNext(
@@ -100,26 +118,8 @@ function toOutputTeam(t: Team): TeamSearchOutput['teams'][number] {
   };
 }
 
-async function getLeagueTeams(
-  provider: ApiSportsProvider,
-  leagueIds: string[]
-): Promise<Map<string, Team>> {
-  const map = new Map<string, Team>();
-  for (const leagueId of leagueIds) {
-    try {
-      const teams = await provider.getLeagueTeams(leagueId);
-      for (const team of teams) {
-        if (!map.has(team.id)) map.set(team.id, team);
-      }
-    } catch {
-      // ignore per-league failures
-    }
-  }
-  return map;
-}
-
 async function getTeamsFromLeagueFixtures(
-  provider: ApiSportsProvider,
+  provider: ProviderChain,
   leagueIds: string[]
 ): Promise<Map<string, Team>> {
   const map = new Map<string, Team>();
@@ -138,7 +138,7 @@ async function getTeamsFromLeagueFixtures(
 }
 
 async function getTeamsFromLeagueResults(
-  provider: ApiSportsProvider,
+  provider: ProviderChain,
   leagueIds: string[]
 ): Promise<Map<string, Team>> {
   const map = new Map<string, Team>();
@@ -156,46 +156,9 @@ async function getTeamsFromLeagueResults(
   return map;
 }
 
-function pickBestTeamId(
-  query: string,
-  candidates: Array<{ id: string; name: string }>
-): string | undefined {
-  let bestId: string | undefined;
-  let bestScore = 0;
-
-  for (const c of candidates) {
-    const score = similarityScore(query, c.name);
-    if (score > bestScore) {
-      bestScore = score;
-      bestId = c.id;
-    }
-  }
-
-  if (bestId && bestScore >= 0.62) return bestId;
-  return undefined;
-}
-
-function pickBestTeamIdFromQueries(
-  queries: string[],
-  candidates: Array<{ id: string; name: string }>
-): string | undefined {
-  for (const query of queries) {
-    const teamId = pickBestTeamId(query, candidates);
-    if (teamId) return teamId;
-  }
-  return undefined;
-}
-
-function isWomenTeamName(name: string): boolean {
-  const n = normalizeText(name);
-  if (n.includes(' women') || n.includes(" women's")) return true;
-  if (/\bw\b$/.test(n)) return true;
-  return false;
-}
-
 async function handleSearch(
   query: string,
-  provider: ApiSportsProvider,
+  provider: ProviderChain,
   leagueIds: string[],
   options: TeamOptions
 ): Promise<void> {
@@ -270,30 +233,28 @@ async function handleSearch(
   }
 }
 
+/**
+ * Leagues to look for a team in: the command's leagues, or the user's
+ * effective leagues when none are set.
+ */
+async function resolveTeamLeagueIds(leagueIds: string[], hasApiKey: boolean): Promise<string[]> {
+  if (hasApiKey && leagueIds.length === 0) {
+    const favoriteLeagues = await getEffectiveLeagues();
+    return favoriteLeagues.map((slug) => LEAGUES[slug]?.id).filter(Boolean) as string[];
+  }
+  return leagueIds;
+}
+
 async function handleNext(
   nameOrId: string,
-  provider: ApiSportsProvider,
+  provider: ProviderChain,
   config: Awaited<ReturnType<typeof loadConfig>>,
   timeZone: string,
   hasApiKey: boolean,
   leagueIds: string[],
   options: TeamOptions
 ): Promise<void> {
-  const queryCandidates = getTeamQueryCandidates(nameOrId);
-
-  // First try to find team in favorites
-  let teamId = config.favorite_teams.find(
-    (t) =>
-      queryCandidates.some((candidate) => t.id === candidate) ||
-      queryCandidates.some((candidate) => t.name.toLowerCase().includes(candidate.toLowerCase())) ||
-      queryCandidates.some((candidate) => t.slug.includes(candidate.toLowerCase()))
-  )?.id;
-
-  // Get effective leagues (user's favorites or defaults)
-  if (hasApiKey && leagueIds.length === 0) {
-    const favoriteLeagues = await getEffectiveLeagues();
-    leagueIds = favoriteLeagues.map((slug) => LEAGUES[slug]?.id).filter(Boolean) as string[];
-  }
+  leagueIds = await resolveTeamLeagueIds(leagueIds, hasApiKey);
 
   const allLeagueFixtures: Match[] = [];
   for (const leagueId of leagueIds) {
@@ -301,81 +262,22 @@ async function handleNext(
     allLeagueFixtures.push(...fixtures);
   }
 
-  // If not in favorites, first try to match team name in fixtures
+  const teamId = await resolveTeamId(nameOrId, { provider, config, leagueIds, matches: allLeagueFixtures });
   if (!teamId) {
-    // Find team in fixtures by partial name match
-    for (const match of allLeagueFixtures) {
-      if (queryCandidates.some((candidate) => match.homeTeam.name.toLowerCase().includes(candidate.toLowerCase()))) {
-        teamId = match.homeTeam.id;
-        break;
-      }
-      if (queryCandidates.some((candidate) => match.awayTeam.name.toLowerCase().includes(candidate.toLowerCase()))) {
-        teamId = match.awayTeam.id;
-        break;
-      }
-    }
-  }
-
-  // If still not found, try search API
-  if (!teamId) {
-    // First try fuzzy match against teams seen in fixtures.
-    const matchCandidates = new Map<string, { id: string; name: string }>();
-    for (const m of allLeagueFixtures) {
-      matchCandidates.set(m.homeTeam.id, { id: m.homeTeam.id, name: m.homeTeam.name });
-      matchCandidates.set(m.awayTeam.id, { id: m.awayTeam.id, name: m.awayTeam.name });
-    }
-
-    teamId = pickBestTeamIdFromQueries(queryCandidates, Array.from(matchCandidates.values()));
-
-    // Then try fuzzy match against league teams.
-    if (!teamId) {
-      const teamsMap = await getLeagueTeams(provider, leagueIds);
-      teamId = pickBestTeamIdFromQueries(
-        queryCandidates,
-        Array.from(teamsMap.values()).map((t) => ({ id: t.id, name: t.name }))
+    const runtime = provider.consumeRuntimeMeta();
+    if (wantsStructuredOutput(options)) {
+      emitCommandSuccess(
+        { query: nameOrId, action: 'next', match: null, reason: 'team_not_found' },
+        options,
+        { traceId: runtime.traceId }
       );
-    }
-
-    // Finally, fall back to API search.
-    if (!teamId) {
-      let searchResults: Team[] = [];
-      for (const candidate of queryCandidates) {
-        searchResults = await provider.searchTeams(candidate);
-        if (searchResults.length > 0) break;
-      }
-      if (searchResults.length === 0) {
-        const runtime = provider.consumeRuntimeMeta();
-        if (wantsStructuredOutput(options)) {
-          emitCommandSuccess(
-            { query: nameOrId, action: 'next', match: null, reason: 'team_not_found' },
-            options,
-            { traceId: runtime.traceId }
-          );
-        } else if (!options.quiet) {
-          console.log(renderWarning(`No team found for "${nameOrId}"`));
-          if (runtime.staleFallback) {
-            console.log(getStaleFallbackLine(runtime.cachedAt));
-          }
-        }
-        return;
-      }
-
-      // Find first search result that appears in our league fixtures
-      for (const team of searchResults) {
-        const hasMatches = allLeagueFixtures.some(
-          (m) => m.homeTeam.id === team.id || m.awayTeam.id === team.id
-        );
-        if (hasMatches) {
-          teamId = team.id;
-          break;
-        }
-      }
-
-      // Fallback to first result if no matches found
-      if (!teamId) {
-        teamId = searchResults[0].id;
+    } else if (!options.quiet) {
+      console.log(renderWarning(`No team found for "${nameOrId}"`));
+      if (runtime.staleFallback) {
+        console.log(getStaleFallbackLine(runtime.cachedAt));
       }
     }
+    return;
   }
 
   // Filter fixtures for this team
@@ -406,7 +308,12 @@ async function handleNext(
 
   // Export to ICS if requested
   if (options.ics) {
-    const ics = matchToICS(nextMatch);
+    const ics = matchToICS(nextMatch, {
+      revisions: await recordCalendarRevisions([nextMatch]),
+      alarms: options.alarm,
+      durations: config.calendar?.durations,
+      timeZone: getIcsTimeZone(config, options.localTime),
+    });
     const filename = basename(
       `${toSafeFilenamePart(nextMatch.homeTeam.name)}-vs-${toSafeFilenamePart(nextMatch.awayTeam.name)}.ics`
     );
@@ -439,28 +346,14 @@ async function handleNext(
 
 async function handleLast(
   nameOrId: string,
-  provider: ApiSportsProvider,
+  provider: ProviderChain,
   config: Awaited<ReturnType<typeof loadConfig>>,
   timeZone: string,
   hasApiKey: boolean,
   leagueIds: string[],
   options: TeamOptions
 ): Promise<void> {
-  const queryCandidates = getTeamQueryCandidates(nameOrId);
-
-  // First try to find team in favorites
-  let teamId = config.favorite_teams.find(
-    (t) =>
-      queryCandidates.some((candidate) => t.id === candidate) ||
-      queryCandidates.some((candidate) => t.name.toLowerCase().includes(candidate.toLowerCase())) ||
-      queryCandidates.some((candidate) => t.slug.includes(candidate.toLowerCase()))
-  )?.id;
-
-  // Get effective leagues (user's favorites or defaults)
-  if (hasApiKey && leagueIds.length === 0) {
-    const favoriteLeagues = await getEffectiveLeagues();
-    leagueIds = favoriteLeagues.map((slug) => LEAGUES[slug]?.id).filter(Boolean) as string[];
-  }
+  leagueIds = await resolveTeamLeagueIds(leagueIds, hasApiKey);
 
   const allLeagueResults: Match[] = [];
   for (const leagueId of leagueIds) {
@@ -468,81 +361,22 @@ async function handleLast(
     allLeagueResults.push(...results);
   }
 
-  // If not in favorites, first try to match team name in results
+  const teamId = await resolveTeamId(nameOrId, { provider, config, leagueIds, matches: allLeagueResults });
   if (!teamId) {
-    // Find team in results by partial name match
-    for (const match of allLeagueResults) {
-      if (queryCandidates.some((candidate) => match.homeTeam.name.toLowerCase().includes(candidate.toLowerCase()))) {
-        teamId = match.homeTeam.id;
-        break;
-      }
-      if (queryCandidates.some((candidate) => match.awayTeam.name.toLowerCase().includes(candidate.toLowerCase()))) {
-        teamId = match.awayTeam.id;
-        break;
-      }
-    }
-  }
-
-  // If still not found, try search API
-  if (!teamId) {
-    // First try fuzzy match against teams seen in results.
-    const matchCandidates = new Map<string, { id: string; name: string }>();
-    for (const m of allLeagueResults) {
-      matchCandidates.set(m.homeTeam.id, { id: m.homeTeam.id, name: m.homeTeam.name });
-      matchCandidates.set(m.awayTeam.id, { id: m.awayTeam.id, name: m.awayTeam.name });
-    }
-
-    teamId = pickBestTeamIdFromQueries(queryCandidates, Array.from(matchCandidates.values()));
-
-    // Then try fuzzy match against league teams.
-    if (!teamId) {
-      const teamsMap = await getLeagueTeams(provider, leagueIds);
-      teamId = pickBestTeamIdFromQueries(
-        queryCandidates,
-        Array.from(teamsMap.values()).map((t) => ({ id: t.id, name: t.name }))
+    const runtime = provider.consumeRuntimeMeta();
+    if (wantsStructuredOutput(options)) {
+      emitCommandSuccess(
+        { query: nameOrId, action: 'last', match: null, reason: 'team_not_found' },
+        options,
+        { traceId: runtime.traceId }
       );
-    }
-
-    // Finally, fall back to API search.
-    if (!teamId) {
-      let searchResults: Team[] = [];
-      for (const candidate of queryCandidates) {
-        searchResults = await provider.searchTeams(candidate);
-        if (searchResults.length > 0) break;
-      }
-      if (searchResults.length === 0) {
-        const runtime = provider.consumeRuntimeMeta();
-        if (wantsStructuredOutput(options)) {
-          emitCommandSuccess(
-            { query: nameOrId, action: 'last', match: null, reason: 'team_not_found' },
-            options,
-            { traceId: runtime.traceId }
-          );
-        } else if (!options.quiet) {
-          console.log(renderWarning(`No team found for "${nameOrId}"`));
-          if (runtime.staleFallback) {
-            console.log(getStaleFallbackLine(runtime.cachedAt));
-          }
-        }
-        return;
-      }
-
-      // Find first search result that appears in our league results
-      for (const team of searchResults) {
-        const hasMatches = allLeagueResults.some(
-          (m) => m.homeTeam.id === team.id || m.awayTeam.id === team.id
-        );
-        if (hasMatches) {
-          teamId = team.id;
-          break;
-        }
-      }
-
-      // Fallback to first result if no matches found
-      if (!teamId) {
-        teamId = searchResults[0].id;
+    } else if (!options.quiet) {
+      console.log(renderWarning(`No team found for "${nameOrId}"`));
+      if (runtime.staleFallback) {
+        console.log(getStaleFallbackLine(runtime.cachedAt));
       }
     }
+    return;
   }
 
   // Filter results for this team
@@ -588,3 +422,186 @@ async function handleLast(
     ]);
   }
 }
+
+async function handleForm(
+  nameOrId: string,
+  provider: ProviderChain,
+  config: Awaited<ReturnType<typeof loadConfig>>,
+  timeZone: string,
+  hasApiKey: boolean,
+  leagueIds: string[],
+  options: TeamOptions
+): Promise<void> {
+  leagueIds = await resolveTeamLeagueIds(leagueIds, hasApiKey);
+
+  const allLeagueResults: Match[] = [];
+  for (const leagueId of leagueIds) {
+    const results = await provider.getLeagueResults(leagueId);
+    allLeagueResults.push(...results);
+  }
+
+  const teamId = await resolveTeamId(nameOrId, { provider, config, leagueIds, matches: allLeagueResults });
+  if (!teamId) {
+    const runtime = provider.consumeRuntimeMeta();
+    if (wantsStructuredOutput(options)) {
+      emitCommandSuccess(
+        { query: nameOrId, action: 'form', team: null, reason: 'team_not_found' },
+        options,
+        { traceId: runtime.traceId }
+      );
+    } else if (!options.quiet) {
+      console.log(renderWarning(`No team found for "${nameOrId}"`));
+      if (runtime.staleFallback) {
+        console.log(getStaleFallbackLine(runtime.cachedAt));
+      }
+    }
+    return;
+  }
+
+  const teamResults = allLeagueResults
+    .filter((m) => m.score && (m.homeTeam.id === teamId || m.awayTeam.id === teamId))
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  // Standings carry try bonus points, which scores alone can't tell us.
+  const teamLeagueIds = Array.from(new Set(teamResults.map((m) => m.league.id)));
+  const standings: StandingsEntry[] = [];
+  for (const leagueId of teamLeagueIds) {
+    try {
+      standings.push(...await provider.getStandings(leagueId));
+    } catch {
+      // ignore per-league failures
+    }
+  }
+
+  const latest = teamResults[0];
+  const team: Team = latest
+    ? (latest.homeTeam.id === teamId ? latest.homeTeam : latest.awayTeam)
+    : { id: teamId, name: config.favorite_teams.find((t) => t.id === teamId)?.name ?? nameOrId };
+  const runtime = provider.consumeRuntimeMeta();
+  const output: TeamFormOutput = {
+    query: nameOrId,
+    team: {
+      ...toOutputTeam(team),
+      leagues: Array.from(new Set(teamResults.map((m) => m.league.name))),
+    },
+    ...buildTeamForm(teamResults, teamId, standings),
+    matches: teamResults.map((m) => matchToOutput(m, { timeZone })),
+    trace_id: runtime.traceId || undefined,
+    stale: runtime.staleFallback || undefined,
+    cached_at: runtime.cachedAt || undefined,
+  };
+
+  if (wantsStructuredOutput(options)) {
+    emitCommandSuccess(output, options, { traceId: runtime.traceId });
+  } else if (!options.quiet) {
+    console.log(renderTeamForm(output));
+    if (runtime.staleFallback) {
+      console.log(getStaleFallbackLine(runtime.cachedAt));
+    }
+    printFollowups(options, [
+      `Next match: rugbyclaw team next ${quoteArg(nameOrId)}`,
+      'League table: rugbyclaw standings',
+    ]);
+  }
+}
+
+async function handleSchedule(
+  nameOrId: string,
+  provider: ProviderChain,
+  config: Awaited<ReturnType<typeof loadConfig>>,
+  timeZone: string,
+  hasApiKey: boolean,
+  leagueIds: string[],
+  options: TeamOptions
+): Promise<void> {
+  const { teamId, schedule } = await getTeamSchedule(nameOrId, {
+    provider,
+    config,
+    leagueIds: getScheduleLeagueIds(leagueIds, hasApiKey),
+    includeCalledOff: options.ics,
+  });
+  if (!teamId) {
+    const runtime = provider.consumeRuntimeMeta();
+    if (wantsStructuredOutput(options)) {
+      emitCommandSuccess(
+        { query: nameOrId, action: 'schedule', matches: [], reason: 'team_not_found' },
+        options,
+        { traceId: runtime.traceId }
+      );
+    } else if (!options.quiet) {
+      console.log(renderWarning(`No team found for "${nameOrId}"`));
+      if (runtime.staleFallback) {
+        console.log(getStaleFallbackLine(runtime.cachedAt));
+      }
+    }
+    return;
+  }
+
+  if (!schedule) {
+    const runtime = provider.consumeRuntimeMeta();
+    if (wantsStructuredOutput(options)) {
+      emitCommandSuccess(
+        { query: nameOrId, action: 'schedule', matches: [], reason: 'no_upcoming_matches' },
+        options,
+        { traceId: runtime.traceId }
+      );
+    } else if (!options.quiet) {
+      console.log(renderWarning('No upcoming matches found.'));
+      if (runtime.staleFallback) {
+        console.log(getStaleFallbackLine(runtime.cachedAt));
+      }
+    }
+    return;
+  }
+
+  const { team, matches: teamFixtures } = schedule;
+
+  // Export the whole schedule as one calendar if requested
+  if (options.ics) {
+    const ics = await feedToICS(`team-schedule/${teamId}`, teamFixtures, {
+      alarms: options.alarm,
+      durations: config.calendar?.durations,
+      timeZone: getIcsTimeZone(config, options.localTime),
+    });
+    const filename = basename(`${toSafeFilenamePart(team.name)}-schedule.ics`);
+    await writeFile(filename, ics);
+    const runtime = provider.consumeRuntimeMeta();
+    if (wantsStructuredOutput(options)) {
+      emitCommandSuccess(
+        { query: nameOrId, action: 'schedule', exported: teamFixtures.length, out: filename },
+        options,
+        { traceId: runtime.traceId }
+      );
+    } else if (!options.quiet) {
+      console.log(renderSuccess(`Exported ${teamFixtures.length} fixtures to ${filename}`));
+    }
+    return;
+  }
+
+  const runtime = provider.consumeRuntimeMeta();
+  const output: TeamScheduleOutput = {
+    query: nameOrId,
+    team: {
+      ...toOutputTeam(team),
+      leagues: Array.from(new Set(teamFixtures.map((m) => m.league.name))),
+    },
+    matches: teamFixtures.map((m) => matchToOutput(m, { timeZone })),
+    generated_at: new Date().toISOString(),
+    trace_id: runtime.traceId || undefined,
+    stale: runtime.staleFallback || undefined,
+    cached_at: runtime.cachedAt || undefined,
+  };
+
+  if (wantsStructuredOutput(options)) {
+    emitCommandSuccess(output, options, { traceId: runtime.traceId });
+  } else if (!options.quiet) {
+    console.log(renderTeamSchedule(output, timeZone));
+    if (runtime.staleFallback) {
+      console.log(getStaleFallbackLine(runtime.cachedAt));
+    }
+    printFollowups(options, [
+      `Import the whole season: rugbyclaw team schedule ${quoteArg(nameOrId)} --ics`,
+      `Season form so far: rugbyclaw team form ${quoteArg(nameOrId)}`,
+    ]);
+  }
+}
@@ -0,0 +1,205 @@
+import chalk from 'chalk';
+import {
+  loadConfig,
+  loadSecrets,
+  getEffectiveTimeZone,
+} from '../lib/config.js';
+import { LEAGUES } from '../lib/leagues.js';
+import { createProviderChain } from '../lib/providers/registry.js';
+import {
+  getLeagueAccess,
+  getProxyQuotaLine,
+  getProxyRateLimit,
+  getProxyStatusIfFree,
+  getStaleFallbackLine,
+} from '../lib/free-mode.js';
+import { LIVE_POLL_MS, planNextPoll, sleep, type PollReason } from '../lib/polling.js';
+import { renderScores, renderWarning, matchToOutput } from '../render/terminal.js';
+import type { Match, MatchOutput, WatchOutput } from '../types/index.js';
+import { getTodayYMD } from '../lib/datetime.js';
+import { emitCommandError } from '../lib/command-error.js';
+import { EXIT_CODES, inferExitCodeFromMessage } from '../lib/exit-codes.js';
+import { emitCommandSuccess, wantsStructuredOutput } from '../lib/output.js';
+
+interface WatchOptions {
+  json?: boolean;
+  agent?: boolean;
+  quiet?: boolean;
+  interval?: number; // seconds, lower bound between polls
+  iterations?: number; // stop after this many polls
+}
+
+export interface WatchRuntime {
+  sleep?: (ms: number, signal: AbortSignal) => Promise<void>;
+  isTTY?: boolean;
+}
+
+const CLEAR_SCREEN = '\x1B[2J\x1B[H';
+/** Give up after this many failed polls in a row (~5 minutes at the live rate). */
+const MAX_CONSECUTIVE_ERRORS = 10;
+
+function scoreKey(match: MatchOutput): string | null {
+  if (match.home.score === undefined || match.away.score === undefined) return null;
+  return `${match.home.score}-${match.away.score}`;
+}
+
+function formatDelay(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  return `${minutes}m`;
+}
+
+function formatClock(date: Date, timeZone: string): string {
+  return date.toLocaleTimeString('en-GB', { timeZone, hour12: false });
+}
+
+function refreshLabel(reason: PollReason): string {
+  if (reason === 'quota') return ' (paced to free quota)';
+  if (reason === 'kickoff') return ' (waiting for kickoff)';
+  return '';
+}
+
+export async function watchCommand(options: WatchOptions, runtime: WatchRuntime = {}): Promise<void> {
+  const config = await loadConfig();
+  const timeZone = getEffectiveTimeZone(config);
+  const secrets = await loadSecrets();
+  const hasApiKey = Boolean(secrets?.api_key);
+  const provider = createProviderChain({ apiKey: secrets?.api_key, proxyToken: secrets?.proxy_token, config });
+  const wait = runtime.sleep ?? sleep;
+  const isTTY = runtime.isTTY ?? Boolean(process.stdout.isTTY);
+
+  const favoriteLeagues = (await getLeagueAccess(config, secrets)).effective;
+  const leagueIds = favoriteLeagues
+    .map((slug) => LEAGUES[slug]?.id)
+    .filter(Boolean) as string[];
+  const minIntervalMs = (options.interval ?? 0) * 1000;
+
+  const controller = new AbortController();
+  const stop = (): void => controller.abort();
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+
+  const previousScores = new Map<string, string>();
+  let polls = 0;
+  // Every attempt counts toward --iterations, failed ones included.
+  let attempts = 0;
+  let consecutiveErrors = 0;
+
+  try {
+    while (!controller.signal.aborted) {
+      const dateYmd = getTodayYMD(timeZone);
+      let matches: Match[];
+      attempts += 1;
+
+      try {
+        matches = await provider.getToday(leagueIds, { dateYmd });
+        consecutiveErrors = 0;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const meta = provider.consumeRuntimeMeta();
+        const exitCode = inferExitCodeFromMessage(message);
+        consecutiveErrors += 1;
+        // Keep watching through transient upstream errors once we have a board.
+        if (
+          polls === 0
+          || exitCode === EXIT_CODES.RATE_LIMITED
+          || exitCode === EXIT_CODES.AUTH_ERROR
+          || consecutiveErrors >= MAX_CONSECUTIVE_ERRORS
+          || (options.iterations && attempts >= options.iterations)
+        ) {
+          emitCommandError(message, options, undefined, { traceId: meta.traceId });
+        }
+        if (!wantsStructuredOutput(options) && !options.quiet) {
+          console.log(renderWarning(`${message} Retrying in ${formatDelay(Math.max(LIVE_POLL_MS, minIntervalMs))}.`));
+        }
+        await wait(Math.max(LIVE_POLL_MS, minIntervalMs), controller.signal);
+        continue;
+      }
+
+      polls += 1;
+      const proxyStatus = await getProxyStatusIfFree(hasApiKey, true, secrets?.proxy_token);
+      const meta = provider.consumeRuntimeMeta();
+      const plan = planNextPoll({
+        matches,
+        proxyStatus,
+        requestUnits: leagueIds.length,
+        minIntervalMs,
+      });
+
+      const outputs = matches.map((m) => matchToOutput(m, { timeZone }));
+      const changed = new Set<string>();
+      for (const match of outputs) {
+        const key = scoreKey(match);
+        if (!key) continue;
+        const previous = previousScores.get(match.id);
+        if (previous !== undefined && previous !== key) changed.add(match.id);
+        previousScores.set(match.id, key);
+      }
+
+      const output: WatchOutput = {
+        matches: outputs,
+        generated_at: new Date().toISOString(),
+        poll: polls,
+        changed: Array.from(changed),
+        next_poll_ms: plan.done || plan.quotaExhausted ? undefined : plan.intervalMs,
+        rate_limit: getProxyRateLimit(proxyStatus),
+        trace_id: meta.traceId || undefined,
+        stale: meta.staleFallback || undefined,
+        cached_at: meta.cachedAt || undefined,
+      };
+
+      if (options.agent) {
+        emitCommandSuccess(output, options, { traceId: meta.traceId });
+      } else if (options.json) {
+        // One compact object per poll (NDJSON) so consumers can stream it.
+        console.log(JSON.stringify(output));
+      } else if (options.quiet) {
+        for (const match of outputs.filter((m) => changed.has(m.id))) {
+          console.log(`${match.home.name} ${scoreKey(match)} ${match.away.name}`);
+        }
+      } else {
+        if (isTTY) process.stdout.write(CLEAR_SCREEN);
+        console.log(renderScores(output, changed));
+        if (meta.staleFallback) {
+          console.log(getStaleFallbackLine(meta.cachedAt));
+        }
+        const quotaLine = getProxyQuotaLine(proxyStatus, hasApiKey, {
+          staleFallback: meta.staleFallback,
+          requestUnits: Math.max(1, leagueIds.length),
+          timeZone,
+        });
+        if (quotaLine) console.log(quotaLine);
+        if (!plan.done && !plan.quotaExhausted) {
+          console.log(chalk.dim(
+            `Updated ${formatClock(new Date(), timeZone)} · next refresh in ${formatDelay(plan.intervalMs)}`
+            + `${refreshLabel(plan.reason)} · Ctrl+C to stop`
+          ));
+        }
+      }
+
+      if (plan.quotaExhausted) {
+        emitCommandError(
+          'Daily limit reached. Run "rugbyclaw config" to add your own API key for unlimited access.',
+          options,
+          undefined,
+          { traceId: meta.traceId }
+        );
+      }
+
+      if (plan.done) {
+        if (!wantsStructuredOutput(options) && !options.quiet) {
+          console.log(chalk.dim('No live or upcoming matches left today. Stopping.'));
+        }
+        break;
+      }
+
+      if (options.iterations && attempts >= options.iterations) break;
+
+      await wait(plan.intervalMs, controller.signal);
+    }
+  } finally {
+    process.off('SIGINT', stop);
+    process.off('SIGTERM', stop);
+  }
+}
@@ -1,5 +1,7 @@
 import { InvalidArgumentError } from 'commander';
 import { isValidTimeZone } from './config.js';
+import { parseOffsetMinutes } from './datetime.js';
+import type { DigestFormat } from '../types/index.js';
 
 export function parseTimeZoneOption(value: string): string {
   const trimmed = value.trim();
@@ -17,3 +19,39 @@ export function parseTimeZoneOption(value: string): string {
 
   return trimmed;
 }
+
+export function parsePositiveIntegerOption(value: string): number {
+  const trimmed = value.trim();
+  const parsed = Number(trimmed);
+  if (!/^\d+$/.test(trimmed) || !Number.isSafeInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError(`Expected a positive integer, got "${value}".`);
+  }
+  return parsed;
+}
+
+/**
+ * Repeatable reminder offset (`--alarm 60m --alarm 1d`), collected as minutes.
+ */
+export function parseAlarmOption(value: string, previous: number[] = []): number[] {
+  const minutes = parseOffsetMinutes(value);
+  if (minutes === null) {
+    throw new InvalidArgumentError(`Invalid alarm "${value}". Use an offset like "30m", "2h" or "1d".`);
+  }
+  return [...previous, minutes];
+}
+
+export function parseDigestFormatOption(value: string): DigestFormat {
+  const format = value.trim().toLowerCase();
+  if (format === 'markdown' || format === 'md') return 'markdown';
+  if (format === 'html') return 'html';
+  throw new InvalidArgumentError(`Invalid format "${value}". Use "markdown" or "html".`);
+}
+
+export function parseDateOption(value: string): string {
+  const trimmed = value.trim();
+  const parsed = new Date(`${trimmed}T00:00:00.000Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(trimmed) || Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== trimmed) {
+    throw new InvalidArgumentError(`Invalid date "${value}". Use YYYY-MM-DD.`);
+  }
+  return trimmed;
+}
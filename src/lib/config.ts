@@ -1,8 +1,16 @@
-import { readFile, writeFile, mkdir, chmod, unlink } from 'node:fs/promises';
+import { readFile, writeFile, appendFile, mkdir, chmod, rename, unlink } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 import { dirname, join, resolve } from 'node:path';
 import { homedir } from 'node:os';
-import type { Config, Secrets, State, FavoriteTeam } from '../types/index.js';
+import type {
+  CalendarState,
+  Config,
+  Secrets,
+  SmtpCredentials,
+  State,
+  FavoriteTeam,
+  NotificationHistoryEntry,
+} from '../types/index.js';
 
 const DEFAULT_CONFIG_DIR = join(homedir(), '.config', 'rugbyclaw');
 
@@ -10,6 +18,9 @@ let configDir = DEFAULT_CONFIG_DIR;
 let configPath = join(configDir, 'config.json');
 let secretsPath = join(configDir, 'secrets.json');
 let statePath = join(configDir, 'state.json');
+let smtpPath = join(configDir, 'smtp.json');
+let historyPath = join(configDir, 'notify-history.jsonl');
+let calendarPath = join(configDir, 'calendar.json');
 
 let timeZoneOverride: string | null = null;
 
@@ -18,6 +29,9 @@ export interface ConfigPaths {
   configPath: string;
   secretsPath: string;
   statePath: string;
+  smtpPath: string;
+  historyPath: string;
+  calendarPath: string;
 }
 
 export function isValidTimeZone(timeZone: string): boolean {
@@ -59,6 +73,9 @@ export function setConfigPathOverride(pathLike: string): ConfigPaths {
 
   secretsPath = join(configDir, 'secrets.json');
   statePath = join(configDir, 'state.json');
+  smtpPath = join(configDir, 'smtp.json');
+  historyPath = join(configDir, 'notify-history.jsonl');
+  calendarPath = join(configDir, 'calendar.json');
 
   return getConfigPaths();
 }
@@ -108,6 +125,9 @@ export function getConfigPaths(): ConfigPaths {
     configPath,
     secretsPath,
     statePath,
+    smtpPath,
+    historyPath,
+    calendarPath,
   };
 }
 
@@ -213,9 +233,42 @@ export async function saveSecrets(secrets: Secrets): Promise<void> {
 }
 
 /**
- * Remove API secrets (switch back to free mode).
+ * Load SMTP credentials (host -> login). Kept out of secrets.json so that
+ * switching back to free mode doesn't drop them.
+ */
+export async function loadSmtpCredentials(): Promise<Record<string, SmtpCredentials>> {
+  try {
+    const data = await readFile(smtpPath, 'utf-8');
+    return JSON.parse(data) as Record<string, SmtpCredentials>;
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code !== 'ENOENT') throw error;
+    return {};
+  }
+}
+
+/**
+ * Save the SMTP login for one host, with the same 0600 mode as secrets.
+ */
+export async function saveSmtpCredentials(host: string, credentials: SmtpCredentials): Promise<void> {
+  const all = await loadSmtpCredentials();
+  all[host.toLowerCase()] = credentials;
+  await ensureConfigDir();
+  await writeFile(smtpPath, JSON.stringify(all, null, 2), { mode: 0o600 });
+  await chmod(smtpPath, 0o600);
+}
+
+/**
+ * Remove the API key (switch back to free mode). A proxy token is kept,
+ * since it only matters in free mode.
  */
 export async function clearSecrets(): Promise<void> {
+  const secrets = await loadSecrets();
+  if (secrets?.proxy_token) {
+    await saveSecrets({ proxy_token: secrets.proxy_token });
+    return;
+  }
+
   try {
     await unlink(secretsPath);
   } catch (error) {
@@ -229,7 +282,7 @@ export async function clearSecrets(): Promise<void> {
  */
 export async function isConfigured(): Promise<boolean> {
   const secrets = await loadSecrets();
-  return secrets !== null && secrets.api_key.length > 0;
+  return Boolean(secrets?.api_key);
 }
 
 /**
@@ -264,7 +317,8 @@ export async function loadState(): Promise<State> {
   } catch (error) {
     const code = (error as NodeJS.ErrnoException).code;
     if (code !== 'ENOENT') throw error;
-    return { ...DEFAULT_STATE };
+    // Fresh matches map: callers mutate the state they get back
+    return { ...DEFAULT_STATE, matches: {} };
   }
 }
 
@@ -277,6 +331,69 @@ export async function saveState(state: State): Promise<void> {
   await writeFile(statePath, JSON.stringify(state, null, 2), { mode: 0o600 });
 }
 
+/**
+ * Load calendar revisions. They used to be kept in state.json under
+ * `calendar`, which is read instead until calendar.json is first written.
+ */
+export async function loadCalendarState(): Promise<CalendarState> {
+  try {
+    const data = await readFile(calendarPath, 'utf-8');
+    return JSON.parse(data) as CalendarState;
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code !== 'ENOENT') throw error;
+    const legacy = (await loadState()).calendar;
+    return { revisions: legacy ?? {} };
+  }
+}
+
+/**
+ * Save calendar revisions. Written to a temp file and renamed, so a
+ * reader never sees a half-written file.
+ */
+export async function saveCalendarState(calendar: CalendarState): Promise<void> {
+  await ensureConfigDir();
+  const tempPath = `${calendarPath}.${process.pid}.${Date.now()}.tmp`;
+  await writeFile(tempPath, JSON.stringify(calendar, null, 2), { mode: 0o600 });
+  await rename(tempPath, calendarPath);
+}
+
+/**
+ * Load the notification history, oldest first. Lines that don't parse
+ * (e.g. a write cut short) are skipped rather than failing the whole log.
+ */
+export async function loadNotificationHistory(): Promise<NotificationHistoryEntry[]> {
+  let data: string;
+  try {
+    data = await readFile(historyPath, 'utf-8');
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code !== 'ENOENT') throw error;
+    return [];
+  }
+
+  const entries: NotificationHistoryEntry[] = [];
+  for (const line of data.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as NotificationHistoryEntry);
+    } catch {
+      // Skip the damaged line
+    }
+  }
+  return entries;
+}
+
+/**
+ * Append entries to the notification history (one JSON object per line).
+ */
+export async function appendNotificationHistory(entries: NotificationHistoryEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  await ensureConfigDir();
+  const lines = entries.map((entry) => JSON.stringify(entry)).join('\n');
+  await appendFile(historyPath, `${lines}\n`, { mode: 0o600 });
+}
+
 /**
  * Add a favorite team.
  */
@@ -42,3 +42,47 @@ export function getTodayYMD(timeZone: string, now: Date = new Date()): string {
 export function getTomorrowYMD(timeZone: string, now: Date = new Date()): string {
   return formatDateYMD(new Date(now.getTime() + 24 * 60 * 60 * 1000), timeZone);
 }
+
+const OFFSET_UNIT_MINUTES: Record<string, number> = { m: 1, h: 60, d: 24 * 60, w: 7 * 24 * 60 };
+
+/**
+ * Parse a relative offset like "30m", "2h", "1d" or "1w" into minutes.
+ * A bare number is read as minutes. Returns null when unparseable.
+ */
+export function parseOffsetMinutes(value: string): number | null {
+  const match = /^(\d+)\s*([mhdw]?)$/i.exec(value.trim());
+  if (!match) return null;
+  const minutes = Number(match[1]) * OFFSET_UNIT_MINUTES[(match[2] || 'm').toLowerCase()];
+  return Number.isSafeInteger(minutes) && minutes > 0 ? minutes : null;
+}
+
+/**
+ * UTC offset of `timeZone` at `date`, in minutes (Europe/Paris in summer: 120).
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes): number => Number(parts.find((p) => p.type === type)?.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((wallClock - instant) / 60_000);
+}
+
+/**
+ * Canonical label for an offset in minutes, the inverse of
+ * parseOffsetMinutes: 4320 -> "3d", 120 -> "2h", 90 -> "90m".
+ */
+export function formatOffset(minutes: number): string {
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)}d`;
+  if (minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${minutes}m`;
+}
@@ -1,6 +1,16 @@
 import chalk from 'chalk';
+import { DEFAULT_PROXY_LEAGUES } from './config.js';
+import { getLeagueById } from './leagues.js';
 import { fetchProxyStatus } from './providers/apisports.js';
 import type { ProxyStatus } from './providers/apisports.js';
+import type { Config, Secrets } from '../types/index.js';
+
+export interface LeagueAccess {
+  /** League slugs commands may query; null when any league may be. */
+  allowed: string[] | null;
+  /** League slugs used when a command isn't given one. */
+  effective: string[];
+}
 
 interface ProxyQuotaOptions {
   staleFallback?: boolean;
@@ -28,10 +38,46 @@ function formatResetLabel(reset: string | undefined, timeZone: string): string |
 
 export async function getProxyStatusIfFree(
   hasApiKey: boolean,
-  enabled: boolean
+  enabled: boolean,
+  proxyToken?: string
 ): Promise<ProxyStatus | null> {
   if (hasApiKey || !enabled) return null;
-  return fetchProxyStatus();
+  return fetchProxyStatus(proxyToken);
+}
+
+/**
+ * Leagues the CLI can use. With an API key, any league, defaulting to the
+ * favorites. Anonymous free mode is limited to DEFAULT_PROXY_LEAGUES. With
+ * a proxy token, the token's leagues as the proxy's /status reports them,
+ * narrowed to the favorites where they overlap; when /status is down the
+ * proxy is left to enforce them. Pass `proxyStatus` if already fetched.
+ */
+export async function getLeagueAccess(
+  config: Pick<Config, 'favorite_leagues'>,
+  secrets: Pick<Secrets, 'api_key' | 'proxy_token'> | null,
+  proxyStatus?: ProxyStatus | null
+): Promise<LeagueAccess> {
+  const favorites = config.favorite_leagues;
+  const favoritesOrDefault = favorites.length > 0 ? favorites : DEFAULT_PROXY_LEAGUES;
+
+  if (secrets?.api_key) return { allowed: null, effective: favoritesOrDefault };
+  if (!secrets?.proxy_token) return { allowed: DEFAULT_PROXY_LEAGUES, effective: DEFAULT_PROXY_LEAGUES };
+
+  const status = proxyStatus === undefined ? await fetchProxyStatus(secrets.proxy_token) : proxyStatus;
+  const tokenLeagues = (status?.token?.leagues ?? [])
+    .map((id) => getLeagueById(id)?.slug)
+    .filter((slug): slug is string => Boolean(slug));
+  if (tokenLeagues.length === 0) return { allowed: null, effective: favoritesOrDefault };
+
+  const preferred = favorites.filter((slug) => tokenLeagues.includes(slug));
+  return { allowed: tokenLeagues, effective: preferred.length > 0 ? preferred : tokenLeagues };
+}
+
+/**
+ * Whether a league is within `access.allowed`.
+ */
+export function canUseLeague(access: LeagueAccess, slug: string): boolean {
+  return access.allowed === null || access.allowed.includes(slug);
 }
 
 export function getProxyRateLimit(status: ProxyStatus | null): ProxyStatus['rate_limit'] | undefined {
@@ -68,7 +114,8 @@ export function getProxyQuotaLine(
   const estimatedMinuteRuns = minute ? Math.max(0, Math.floor(minute.remaining / requestUnits)) : null;
   const resetLabel = formatResetLabel(day.reset, timeZone);
 
-  let line = `Free quota: ${day.remaining}/${day.limit} today`;
+  const label = status.token ? `Token "${status.token.name}" quota` : 'Free quota';
+  let line = `${label}: ${day.remaining}/${day.limit} today`;
   if (minute) {
     line += `, ${minute.remaining}/${minute.limit} per minute`;
   }
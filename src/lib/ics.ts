@@ -1,4 +1,37 @@
-import type { Match, CalendarEvent } from '../types/index.js';
+import type { Match, CalendarEvent, CalendarEventStatus, CalendarRevision, CalendarState, Config } from '../types/index.js';
+import { getEffectiveTimeZone, loadCalendarState, saveCalendarState } from './config.js';
+import { getTimeZoneOffsetMinutes } from './datetime.js';
+
+type CalendarRevisions = Record<string, CalendarRevision>;
+
+export interface IcsOptions {
+  revisions?: CalendarRevisions;
+  alarms?: number[]; // minutes before kickoff
+  durations?: Record<string, number>; // league slug (or "default") -> minutes
+  timeZone?: string; // write local times with TZID + VTIMEZONE instead of UTC
+}
+
+export interface FeedOptions extends Omit<IcsOptions, 'revisions'> {
+  omitted?: string[]; // ids still scheduled but left out of this export (e.g. past a limit)
+}
+
+interface OffsetTransition {
+  at: number; // epoch ms
+  from: number; // offset minutes before
+  to: number; // offset minutes after
+}
+
+/** Rugby matches are typically 80 minutes + halftime and stoppages. */
+export const DEFAULT_EVENT_DURATION_MINUTES = 100;
+
+/** Keep revisions this long after kickoff so late re-exports still match. */
+const REVISION_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Tail of the pending revision updates; see recordCalendarRevisions. */
+let revisionQueue: Promise<unknown> = Promise.resolve();
 
 /**
  * Generate a UID for an ICS event.
@@ -14,6 +47,24 @@ function formatICSDate(date: Date): string {
   return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
 }
 
+/**
+ * Format a date as floating wall-clock time in a timezone (YYYYMMDDTHHMMSS),
+ * for use with a TZID parameter.
+ */
+function formatICSLocalDate(date: Date, timeZone: string): string {
+  const offset = getTimeZoneOffsetMinutes(date, timeZone);
+  return formatICSDate(new Date(date.getTime() + offset * MINUTE_MS)).slice(0, -1);
+}
+
+/**
+ * Format a UTC offset in minutes as +HHMM / -HHMM.
+ */
+function formatICSOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+}
+
 /**
  * Escape text for ICS format.
  */
@@ -44,11 +95,47 @@ function foldLine(line: string): string {
   return result.join('\r\n');
 }
 
+/**
+ * Calendar status for a match: called-off matches are cancelled, matches
+ * still waiting on a kickoff time are tentative.
+ */
+export function getCalendarStatus(match: Match): CalendarEventStatus {
+  if (match.status === 'cancelled' || match.status === 'postponed') return 'CANCELLED';
+  if (match.timeTbd) return 'TENTATIVE';
+  return 'CONFIRMED';
+}
+
+/**
+ * Event length in minutes: the league's configured duration, then the
+ * configured default, then DEFAULT_EVENT_DURATION_MINUTES.
+ */
+export function getEventDuration(match: Match, durations: Record<string, number> = {}): number {
+  return getLeagueEventDuration(match.league.slug, durations);
+}
+
+/**
+ * getEventDuration by league slug, for events without a Match.
+ */
+function getLeagueEventDuration(leagueSlug: string | undefined, durations: Record<string, number> = {}): number {
+  for (const minutes of [leagueSlug ? durations[leagueSlug] : undefined, durations.default]) {
+    if (typeof minutes === 'number' && Number.isFinite(minutes) && minutes > 0) return minutes;
+  }
+  return DEFAULT_EVENT_DURATION_MINUTES;
+}
+
+/**
+ * Event title for a match.
+ */
+function getEventSummary(match: Match): string {
+  return `${match.homeTeam.name} vs ${match.awayTeam.name}`;
+}
+
 /**
  * Create a calendar event from a match.
  */
-export function matchToCalendarEvent(match: Match): CalendarEvent {
-  const summary = `${match.homeTeam.name} vs ${match.awayTeam.name}`;
+export function matchToCalendarEvent(match: Match, options: IcsOptions = {}): CalendarEvent {
+  const revision = options.revisions?.[match.id];
+  const summary = getEventSummary(match);
   const description = [
     `${match.league.name}`,
     match.round ? `Round ${match.round}` : '',
@@ -58,9 +145,7 @@ export function matchToCalendarEvent(match: Match): CalendarEvent {
     .join('\n');
 
   const startDate = new Date(match.timestamp);
-
-  // Rugby matches are typically 80 minutes + halftime
-  const endDate = new Date(startDate.getTime() + 100 * 60 * 1000);
+  const endDate = new Date(startDate.getTime() + getEventDuration(match, options.durations) * 60 * 1000);
 
   return {
     uid: generateUID(match.id),
@@ -69,27 +154,171 @@ export function matchToCalendarEvent(match: Match): CalendarEvent {
     location: match.venue,
     start: startDate,
     end: endDate,
+    status: getCalendarStatus(match),
+    sequence: revision?.sequence ?? 0,
+    stamp: revision ? new Date(revision.stamp) : undefined,
+    alarms: options.alarms,
   };
 }
 
 /**
- * Generate ICS content for a single event.
+ * CANCELLED event for a match that is no longer in a feed, from its
+ * last revision.
+ */
+function droppedMatchEvent(matchId: string, revision: CalendarRevision, options: IcsOptions = {}): CalendarEvent {
+  const start = new Date(revision.kickoff);
+  const minutes = getLeagueEventDuration(revision.league, options.durations);
+  return {
+    uid: generateUID(matchId),
+    summary: revision.summary ?? 'Rugby match',
+    description: '',
+    start,
+    end: new Date(start.getTime() + minutes * MINUTE_MS),
+    status: 'CANCELLED',
+    sequence: revision.sequence,
+    stamp: new Date(revision.stamp),
+  };
+}
+
+/**
+ * Fold matches into the revision history. A match whose kickoff or
+ * calendar status changed since its last export gets the next SEQUENCE
+ * and a fresh DTSTAMP; unchanged matches keep theirs, so re-exports are
+ * byte-for-byte stable. `dropped` matches are revised to CANCELLED.
  */
-export function generateICS(event: CalendarEvent): string {
+export function reviseCalendar(
+  matches: Match[],
+  previous: CalendarRevisions = {},
+  now = Date.now(),
+  dropped: string[] = []
+): CalendarRevisions {
+  const revisions: CalendarRevisions = {};
+
+  for (const [matchId, revision] of Object.entries(previous)) {
+    if (revision.kickoff + REVISION_RETENTION_MS > now) {
+      revisions[matchId] = revision;
+    }
+  }
+
+  for (const match of matches) {
+    const status = getCalendarStatus(match);
+    const details = { summary: getEventSummary(match), league: match.league.slug };
+    const last = revisions[match.id];
+    if (last && last.kickoff === match.timestamp && last.status === status) {
+      revisions[match.id] = { ...last, ...details };
+      continue;
+    }
+    revisions[match.id] = {
+      kickoff: match.timestamp,
+      status,
+      sequence: last ? last.sequence + 1 : 0,
+      stamp: now,
+      ...details,
+    };
+  }
+
+  for (const matchId of dropped) {
+    const last = revisions[matchId];
+    if (!last || last.status === 'CANCELLED') continue;
+    revisions[matchId] = { ...last, status: 'CANCELLED', sequence: last.sequence + 1, stamp: now };
+  }
+
+  return revisions;
+}
+
+/**
+ * Read-modify-write calendar.json. Updates run one at a time, so
+ * concurrent feed requests can't drop each other's revisions.
+ */
+function updateCalendarState<T>(apply: (calendar: CalendarState) => T): Promise<T> {
+  const update = revisionQueue.then(async () => {
+    const calendar = await loadCalendarState();
+    const result = apply(calendar);
+    await saveCalendarState(calendar);
+    return result;
+  });
+  revisionQueue = update.catch(() => undefined);
+  return update;
+}
+
+/**
+ * Record matches in the persisted revision history and return it.
+ */
+export function recordCalendarRevisions(matches: Match[]): Promise<CalendarRevisions> {
+  return updateCalendarState((calendar) => {
+    calendar.revisions = reviseCalendar(matches, calendar.revisions);
+    return calendar.revisions;
+  });
+}
+
+/**
+ * Generate a multi-event calendar that is re-fetched or re-imported under
+ * the same `feed` key. Matches the feed served before that are no longer
+ * in `matches`, and haven't kicked off, stay in it as CANCELLED events
+ * with a bumped SEQUENCE until their revision expires, so calendars drop
+ * them instead of keeping the old kickoff. `omitted` matches are neither:
+ * they stay tracked for when they come back.
+ */
+export async function feedToICS(
+  feed: string,
+  matches: Match[],
+  options: FeedOptions = {},
+  now = Date.now()
+): Promise<string> {
+  const { omitted = [], ...icsOptions } = options;
+  const { revisions, dropped } = await updateCalendarState((calendar) => {
+    const current = new Set(matches.map((match) => match.id));
+    const kept = new Set(omitted);
+    const tracked = calendar.feeds?.[feed] ?? [];
+    const dropped = tracked.filter(
+      (matchId) => !current.has(matchId) && !kept.has(matchId) && (calendar.revisions[matchId]?.kickoff ?? 0) > now
+    );
+    calendar.revisions = reviseCalendar(matches, calendar.revisions, now, dropped);
+    calendar.feeds = {
+      ...calendar.feeds,
+      [feed]: [...current, ...dropped, ...tracked.filter((matchId) => kept.has(matchId))],
+    };
+    return { revisions: calendar.revisions, dropped };
+  });
+
+  const events = [
+    ...matches.map((match) => matchToCalendarEvent(match, { ...icsOptions, revisions })),
+    ...dropped.map((matchId) => droppedMatchEvent(matchId, revisions[matchId], icsOptions)),
+  ].sort((a, b) => a.start.getTime() - b.start.getTime());
+  return generateMultiEventICS(events, icsOptions.timeZone);
+}
+
+/**
+ * Relative TRIGGER duration for an alarm `minutes` before the start.
+ */
+function formatAlarmTrigger(minutes: number): string {
+  if (minutes % (24 * 60) === 0) return `-P${minutes / (24 * 60)}D`;
+  if (minutes % 60 === 0) return `-PT${minutes / 60}H`;
+  return `-PT${minutes}M`;
+}
+
+/**
+ * VEVENT lines for one event.
+ */
+function eventLines(event: CalendarEvent, timeZone?: string): string[] {
   const lines: string[] = [
-    'BEGIN:VCALENDAR',
-    'VERSION:2.0',
-    'PRODID:-//Rugbyclaw//Rugby Calendar//EN',
-    'CALSCALE:GREGORIAN',
-    'METHOD:PUBLISH',
     'BEGIN:VEVENT',
     `UID:${escapeICS(event.uid)}`,
-    `DTSTAMP:${formatICSDate(new Date())}`,
-    `DTSTART:${formatICSDate(event.start)}`,
-    `DTEND:${formatICSDate(event.end)}`,
+    `DTSTAMP:${formatICSDate(event.stamp ?? new Date())}`,
+    timeZone
+      ? `DTSTART;TZID=${timeZone}:${formatICSLocalDate(event.start, timeZone)}`
+      : `DTSTART:${formatICSDate(event.start)}`,
+    timeZone
+      ? `DTEND;TZID=${timeZone}:${formatICSLocalDate(event.end, timeZone)}`
+      : `DTEND:${formatICSDate(event.end)}`,
+    `SEQUENCE:${event.sequence ?? 0}`,
     `SUMMARY:${escapeICS(event.summary)}`,
   ];
 
+  if (event.status) {
+    lines.push(`STATUS:${event.status}`);
+  }
+
   if (event.description) {
     lines.push(`DESCRIPTION:${escapeICS(event.description)}`);
   }
@@ -102,16 +331,101 @@ export function generateICS(event: CalendarEvent): string {
     lines.push(`URL:${escapeICS(event.url)}`);
   }
 
-  lines.push('END:VEVENT', 'END:VCALENDAR');
+  for (const minutes of new Set(event.alarms ?? [])) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeICS(event.summary)}`,
+      `TRIGGER:${formatAlarmTrigger(minutes)}`,
+      'END:VALARM'
+    );
+  }
 
-  // Fold long lines and join with CRLF
-  return lines.map(foldLine).join('\r\n') + '\r\n';
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Offset changes in `timeZone` between two instants, to the minute.
+ * Zones never change offset twice in a day, so a daily scan finds
+ * every transition and a binary search pins it down.
+ */
+function findOffsetTransitions(timeZone: string, from: number, to: number): OffsetTransition[] {
+  const offsetAt = (ms: number): number => getTimeZoneOffsetMinutes(new Date(ms), timeZone);
+  const transitions: OffsetTransition[] = [];
+
+  let previous = offsetAt(from);
+  for (let day = from + DAY_MS; day - DAY_MS < to; day += DAY_MS) {
+    const current = offsetAt(day);
+    if (current === previous) continue;
+
+    let low = day - DAY_MS; // still `previous`
+    let high = day; // already `current`
+    while (high - low > MINUTE_MS) {
+      const mid = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (offsetAt(mid) === previous) low = mid;
+      else high = mid;
+    }
+
+    transitions.push({ at: high, from: previous, to: current });
+    previous = current;
+  }
+
+  return transitions;
+}
+
+/**
+ * VTIMEZONE lines covering every calendar year the events touch, so a
+ * season crossing New Year (and both of its DST changes) is described.
+ * Each observance is listed explicitly rather than as an RRULE.
+ */
+function timeZoneLines(timeZone: string, events: CalendarEvent[]): string[] {
+  const years = events.flatMap((event) => [event.start.getUTCFullYear(), event.end.getUTCFullYear()]);
+  const now = new Date().getUTCFullYear();
+  const from = Date.UTC(years.length > 0 ? Math.min(...years) : now, 0, 1);
+  const to = Date.UTC((years.length > 0 ? Math.max(...years) : now) + 1, 0, 1);
+
+  const initial = getTimeZoneOffsetMinutes(new Date(from), timeZone);
+  const transitions = findOffsetTransitions(timeZone, from, to);
+  const startsInDaylight = transitions.length > 0 && transitions[0].to < initial;
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  const observances = [{ at: from, from: initial, to: initial }, ...transitions];
+  for (const [index, observance] of observances.entries()) {
+    const daylight = index === 0 ? startsInDaylight : observance.to > observance.from;
+    const kind = daylight ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatICSDate(new Date(observance.at + observance.from * MINUTE_MS)).slice(0, -1)}`,
+      `TZOFFSETFROM:${formatICSOffset(observance.from)}`,
+      `TZOFFSETTO:${formatICSOffset(observance.to)}`,
+      `END:${kind}`
+    );
+  }
+  lines.push('END:VTIMEZONE');
+  return lines;
 }
 
 /**
- * Generate ICS content for multiple events.
+ * Timezone for ICS output: the effective timezone when local times were
+ * asked for (flag or `calendar.local_time`), otherwise undefined (UTC).
  */
-export function generateMultiEventICS(events: CalendarEvent[]): string {
+export function getIcsTimeZone(config: Pick<Config, 'timezone' | 'calendar'>, localTime = false): string | undefined {
+  return localTime || config.calendar?.local_time ? getEffectiveTimeZone(config) : undefined;
+}
+
+/**
+ * Generate ICS content for a single event.
+ */
+export function generateICS(event: CalendarEvent, timeZone?: string): string {
+  return generateMultiEventICS([event], timeZone);
+}
+
+/**
+ * Generate ICS content for multiple events. With a timeZone, start and end
+ * are written as `DTSTART;TZID=...` wall-clock times with a matching VTIMEZONE.
+ */
+export function generateMultiEventICS(events: CalendarEvent[], timeZone?: string): string {
   const lines: string[] = [
     'BEGIN:VCALENDAR',
     'VERSION:2.0',
@@ -120,44 +434,32 @@ export function generateMultiEventICS(events: CalendarEvent[]): string {
     'METHOD:PUBLISH',
   ];
 
-  for (const event of events) {
-    lines.push(
-      'BEGIN:VEVENT',
-      `UID:${escapeICS(event.uid)}`,
-      `DTSTAMP:${formatICSDate(new Date())}`,
-      `DTSTART:${formatICSDate(event.start)}`,
-      `DTEND:${formatICSDate(event.end)}`,
-      `SUMMARY:${escapeICS(event.summary)}`
-    );
-
-    if (event.description) {
-      lines.push(`DESCRIPTION:${escapeICS(event.description)}`);
-    }
-
-    if (event.location) {
-      lines.push(`LOCATION:${escapeICS(event.location)}`);
-    }
+  if (timeZone) {
+    lines.push(...timeZoneLines(timeZone, events));
+  }
 
-    lines.push('END:VEVENT');
+  for (const event of events) {
+    lines.push(...eventLines(event, timeZone));
   }
 
   lines.push('END:VCALENDAR');
 
+  // Fold long lines and join with CRLF
   return lines.map(foldLine).join('\r\n') + '\r\n';
 }
 
 /**
  * Generate ICS from a match.
  */
-export function matchToICS(match: Match): string {
-  const event = matchToCalendarEvent(match);
-  return generateICS(event);
+export function matchToICS(match: Match, options: IcsOptions = {}): string {
+  const event = matchToCalendarEvent(match, options);
+  return generateICS(event, options.timeZone);
 }
 
 /**
  * Generate ICS from multiple matches.
  */
-export function matchesToICS(matches: Match[]): string {
-  const events = matches.map(matchToCalendarEvent);
-  return generateMultiEventICS(events);
+export function matchesToICS(matches: Match[], options: IcsOptions = {}): string {
+  const events = matches.map((match) => matchToCalendarEvent(match, options));
+  return generateMultiEventICS(events, options.timeZone);
 }
@@ -1,4 +1,10 @@
-import type { League } from '../types/index.js';
+import type { League, LeaguePointsRules } from '../types/index.js';
+
+/** Standard bonus-point system: 4/2/0 and a losing bonus within 7 points. */
+export const DEFAULT_POINTS_RULES: LeaguePointsRules = { win: 4, draw: 2, loss: 0, losingBonusMargin: 7 };
+
+/** LNR (Top 14, Pro D2): losing bonus only within 5 points. */
+const LNR_POINTS_RULES: LeaguePointsRules = { ...DEFAULT_POINTS_RULES, losingBonusMargin: 5 };
 
 /**
  * Supported rugby leagues with API-Sports IDs.
@@ -14,6 +20,7 @@ export const LEAGUES: Record<string, League> = {
     name: 'Top 14',
     country: 'France',
     sport: 'rugby',
+    points: LNR_POINTS_RULES,
   },
   premiership: {
     id: '13',
@@ -35,6 +42,7 @@ export const LEAGUES: Record<string, League> = {
     name: 'Pro D2',
     country: 'France',
     sport: 'rugby',
+    points: LNR_POINTS_RULES,
   },
 
   // Club Competitions - Southern Hemisphere
@@ -86,6 +94,13 @@ export function getLeagueById(id: string): League | undefined {
   return Object.values(LEAGUES).find((l) => l.id === id);
 }
 
+/**
+ * Table points rules for a league ID; unknown leagues get the standard system.
+ */
+export function getPointsRules(leagueId: string): LeaguePointsRules {
+  return getLeagueById(leagueId)?.points ?? DEFAULT_POINTS_RULES;
+}
+
 /**
  * Get all league slugs.
  */
@@ -0,0 +1,112 @@
+import type { Config, Match, Notification, NotifyMode, QuietHours, State } from '../types/index.js';
+import { formatTimeHM } from './datetime.js';
+
+const MODE_RANK: Record<NotifyMode, number> = { mute: 0, results_only: 1, all: 2 };
+
+/**
+ * Notification mode for a match. A favorite team's own `notify` setting
+ * wins over its league's; when both teams set one, the more permissive
+ * applies. Defaults to 'all'.
+ */
+export function getNotifyMode(match: Match, config: Pick<Config, 'favorite_teams' | 'notify'>): NotifyMode {
+  const teamModes = config.favorite_teams
+    .filter((team) => team.id === match.homeTeam.id || team.id === match.awayTeam.id)
+    .map((team) => team.notify)
+    .filter((mode): mode is NotifyMode => Boolean(mode && mode in MODE_RANK));
+
+  if (teamModes.length > 0) {
+    return teamModes.reduce((best, mode) => (MODE_RANK[mode] > MODE_RANK[best] ? mode : best));
+  }
+
+  const leagueMode = config.notify?.leagues?.[match.league.slug];
+  return leagueMode && leagueMode in MODE_RANK ? leagueMode : 'all';
+}
+
+function parseClock(value: string | undefined): number | null {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(value?.trim() ?? '');
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Whether `now` falls inside the quiet-hours window in `timeZone`.
+ * Windows may cross midnight ("23:00"-"07:00"); invalid or empty
+ * windows are never quiet.
+ */
+export function isQuietTime(quietHours: QuietHours | undefined, timeZone: string, now = Date.now()): boolean {
+  const start = parseClock(quietHours?.start);
+  const end = parseClock(quietHours?.end);
+  if (start === null || end === null || start === end) return false;
+
+  const current = parseClock(formatTimeHM(new Date(now), timeZone));
+  if (current === null) return false;
+
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+/**
+ * When the current quiet-hours window ends (epoch ms, to the minute), or
+ * null outside quiet hours.
+ */
+export function getQuietHoursEnd(quietHours: QuietHours | undefined, timeZone: string, now = Date.now()): number | null {
+  if (!isQuietTime(quietHours, timeZone, now)) return null;
+  const end = parseClock(quietHours?.end) as number;
+  const current = parseClock(formatTimeHM(new Date(now), timeZone)) as number;
+  const minutesLeft = (end - current + 24 * 60) % (24 * 60);
+  return now - (now % 60_000) + minutesLeft * 60_000;
+}
+
+/**
+ * One notification summing up what was held during quiet hours. Only the
+ * latest notification per match is kept: a fulltime result makes earlier
+ * score updates for that match redundant.
+ */
+export function buildCatchUp(held: Notification[]): Notification {
+  const latest = new Map<string, Notification>();
+  for (const notification of held) {
+    // Table impact is kept next to the result, not in place of it
+    const key = notification.type === 'standings_impact' ? `${notification.match_id}:table` : notification.match_id;
+    latest.delete(key); // re-insert to keep chronological order
+    latest.set(key, notification);
+  }
+  const batched = Array.from(latest.values());
+  const count = batched.length === 1 ? '1 update' : `${batched.length} updates`;
+
+  return {
+    type: 'catch_up',
+    match_id: 'catch_up',
+    message: [`🌙 Catch-up: ${count} from quiet hours`, ...batched.map((n) => `• ${n.message}`)].join('\n'),
+    batched,
+  };
+}
+
+/**
+ * Apply quiet hours to a run's notifications. Inside the window they are
+ * appended to `state.quiet_digest` and nothing is sent; on the first run
+ * after it, the digest goes out as a single catch-up ahead of anything new.
+ * Mutates `state`; the caller saves it.
+ */
+export function applyQuietHours(
+  notifications: Notification[],
+  state: State,
+  options: { quietHours?: QuietHours; timeZone: string; now?: number }
+): { notifications: Notification[]; held: number } {
+  const now = options.now ?? Date.now();
+
+  if (isQuietTime(options.quietHours, options.timeZone, now)) {
+    if (notifications.length > 0) {
+      const digest = state.quiet_digest ?? { since: now, notifications: [] };
+      digest.notifications.push(...notifications);
+      state.quiet_digest = digest;
+    }
+    return { notifications: [], held: notifications.length };
+  }
+
+  const pending = state.quiet_digest?.notifications ?? [];
+  delete state.quiet_digest;
+  if (pending.length === 0) return { notifications, held: 0 };
+
+  return { notifications: [buildCatchUp(pending), ...notifications], held: 0 };
+}
@@ -0,0 +1,270 @@
+import { spawn } from 'node:child_process';
+import { loadSmtpCredentials } from './config.js';
+import { SmtpError, sendMail } from './smtp.js';
+import { renderDigestHtml, renderDigestMarkdown, renderMessageHtml } from '../render/digest.js';
+import type { Notification, NotifyDelivery, NotifySinkConfig } from '../types/index.js';
+
+const RETRYABLE_HTTP_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+const DELIVERY_MAX_ATTEMPTS = 3;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const DEFAULT_NTFY_URL = 'https://ntfy.sh';
+const DISCORD_MAX_CONTENT = 2000;
+
+export const NOTIFICATION_TITLES: Record<Notification['type'], string> = {
+  weekly_digest: 'This week',
+  day_before: 'Tomorrow',
+  hour_before: 'Kickoff soon',
+  reminder: 'Reminder',
+  kickoff: 'Kickoff',
+  score_update: 'Score update',
+  half_time: 'Half-time',
+  fulltime: 'Full-time',
+  catch_up: 'Catch-up',
+  standings_impact: 'Table impact',
+};
+
+/**
+ * A failed delivery attempt. `retryable` is false for problems another
+ * attempt can't fix (bad config, 4xx responses, missing command).
+ */
+class DeliveryError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
+
+interface SinkRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export function getSinkName(sink: NotifySinkConfig): string {
+  return sink.name || sink.type;
+}
+
+function requireHttpUrl(value: string | undefined, sink: NotifySinkConfig): string {
+  try {
+    const url = new URL(value ?? '');
+    if (url.protocol === 'http:' || url.protocol === 'https:') return url.toString();
+  } catch {
+    // fall through
+  }
+  throw new DeliveryError(`Sink "${getSinkName(sink)}" needs an http(s) url.`, false);
+}
+
+/**
+ * Discord renders Markdown, so the weekly digest goes out with headings.
+ */
+function discordContent(notification: Notification): string {
+  return notification.digest ? renderDigestMarkdown(notification.digest) : notification.message;
+}
+
+/**
+ * Per-sink request for one notification.
+ */
+function formatRequest(sink: NotifySinkConfig, notification: Notification): SinkRequest {
+  const json = { 'Content-Type': 'application/json' };
+
+  switch (sink.type) {
+    case 'webhook':
+      return {
+        url: requireHttpUrl(sink.url, sink),
+        headers: { ...json, ...sink.headers },
+        body: JSON.stringify(notification),
+      };
+    case 'slack':
+      return {
+        url: requireHttpUrl(sink.url, sink),
+        headers: json,
+        body: JSON.stringify({ text: notification.message }),
+      };
+    case 'discord':
+      return {
+        url: requireHttpUrl(sink.url, sink),
+        headers: json,
+        body: JSON.stringify({ content: discordContent(notification).slice(0, DISCORD_MAX_CONTENT) }),
+      };
+    case 'ntfy': {
+      if (!sink.topic || !/^[\w-]{1,64}$/.test(sink.topic)) {
+        throw new DeliveryError(`Sink "${getSinkName(sink)}" needs a topic (letters, digits, "-" or "_").`, false);
+      }
+      const base = requireHttpUrl(sink.url ?? DEFAULT_NTFY_URL, sink).replace(/\/+$/, '');
+      const headers: Record<string, string> = {
+        'Content-Type': 'text/plain; charset=utf-8',
+        Title: `Rugbyclaw: ${NOTIFICATION_TITLES[notification.type] ?? notification.type}`,
+        Tags: 'rugby_football',
+      };
+      if (sink.priority) headers.Priority = String(sink.priority);
+      if (sink.token) headers.Authorization = `Bearer ${sink.token}`;
+      return { url: `${base}/${sink.topic}`, headers, body: notification.message };
+    }
+    default:
+      throw new DeliveryError(`Unknown sink type "${(sink as { type?: string }).type}".`, false);
+  }
+}
+
+async function waitForRetry(attempt: number): Promise<void> {
+  if (process.env.NODE_ENV === 'test') return;
+  const baseDelay = 500 * Math.pow(2, attempt - 1);
+  const jitter = Math.floor(Math.random() * 250);
+  await new Promise<void>((resolve) => {
+    setTimeout(() => resolve(), Math.min(5000, baseDelay + jitter));
+  });
+}
+
+async function postRequest(request: SinkRequest): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: request.body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'fetch failed';
+    throw new DeliveryError(message, true);
+  }
+
+  // Drain the body so the connection can be reused.
+  await response.arrayBuffer().catch(() => undefined);
+  if (!response.ok) {
+    throw new DeliveryError(`HTTP ${response.status}`, RETRYABLE_HTTP_STATUSES.has(response.status));
+  }
+}
+
+/**
+ * Run a local command with the notification JSON on stdin. The message and
+ * type are also exposed as environment variables for simple shell hooks.
+ * No shell is involved, so arguments are passed through verbatim.
+ */
+function runCommand(sink: Extract<NotifySinkConfig, { type: 'command' }>, notification: Notification): Promise<void> {
+  if (!sink.command) {
+    return Promise.reject(new DeliveryError(`Sink "${getSinkName(sink)}" needs a command.`, false));
+  }
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(sink.command, sink.args ?? [], {
+      stdio: ['pipe', 'ignore', 'pipe'],
+      timeout: DELIVERY_TIMEOUT_MS,
+      env: {
+        ...process.env,
+        RUGBYCLAW_NOTIFICATION_TYPE: notification.type,
+        RUGBYCLAW_MATCH_ID: notification.match_id,
+        RUGBYCLAW_MESSAGE: notification.message,
+      },
+    });
+
+    let stderr = '';
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (chunk: string) => {
+      stderr = (stderr + chunk).slice(-500);
+    });
+    child.stdin.on('error', () => undefined); // command may exit without reading stdin
+    child.on('error', (error) => reject(new DeliveryError(error.message, false)));
+    child.on('close', (code, signal) => {
+      if (code === 0) {
+        resolve();
+        return;
+      }
+      const reason = signal ? `killed by ${signal}` : `exited with code ${code}`;
+      reject(new DeliveryError(stderr.trim() ? `${reason}: ${stderr.trim()}` : reason, true));
+    });
+
+    child.stdin.end(JSON.stringify(notification));
+  });
+}
+
+/**
+ * Email one notification as text + HTML. The login comes from smtp.json
+ * (`rugbyclaw notify smtp-login <host>`); without one, mail is sent
+ * unauthenticated, as local relays expect.
+ */
+async function sendEmail(sink: Extract<NotifySinkConfig, { type: 'smtp' }>, notification: Notification): Promise<void> {
+  const to = (Array.isArray(sink.to) ? sink.to : [sink.to ?? '']).filter((address) => address.includes('@'));
+  if (!sink.host || !sink.from?.includes('@') || to.length === 0) {
+    throw new DeliveryError(`Sink "${getSinkName(sink)}" needs a host, a from address and at least one to address.`, false);
+  }
+
+  const credentials = (await loadSmtpCredentials())[sink.host.toLowerCase()];
+  const title = `Rugbyclaw: ${NOTIFICATION_TITLES[notification.type] ?? notification.type}`;
+
+  try {
+    await sendMail(
+      { host: sink.host, port: sink.port, security: sink.security, ...credentials },
+      {
+        from: sink.from,
+        to,
+        subject: title,
+        text: notification.message, // already the text digest for weekly_digest
+        html: notification.digest ? renderDigestHtml(notification.digest) : renderMessageHtml(title, notification.message),
+      }
+    );
+  } catch (error) {
+    if (error instanceof SmtpError) throw new DeliveryError(error.message, error.transient);
+    throw error;
+  }
+}
+
+async function deliverOnce(sink: NotifySinkConfig, notification: Notification): Promise<void> {
+  if (sink.type === 'command') {
+    await runCommand(sink, notification);
+    return;
+  }
+  if (sink.type === 'smtp') {
+    await sendEmail(sink, notification);
+    return;
+  }
+  await postRequest(formatRequest(sink, notification));
+}
+
+/**
+ * Deliver one notification to one sink, retrying transient failures.
+ */
+export async function deliverToSink(sink: NotifySinkConfig, notification: Notification): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await deliverOnce(sink, notification);
+      return;
+    } catch (error) {
+      const retryable = error instanceof DeliveryError ? error.retryable : false;
+      if (!retryable || attempt >= DELIVERY_MAX_ATTEMPTS) throw error;
+      await waitForRetry(attempt);
+    }
+  }
+}
+
+/**
+ * Deliver notifications to every configured sink, in order. A failing sink
+ * never blocks the others; failures are reported per sink. `onResult` sees
+ * each notification/sink outcome.
+ */
+export async function deliverNotifications(
+  notifications: Notification[],
+  sinks: NotifySinkConfig[],
+  onResult?: (notification: Notification, sink: string, error?: string) => void
+): Promise<NotifyDelivery[]> {
+  const results: NotifyDelivery[] = [];
+
+  for (const sink of sinks) {
+    const result: NotifyDelivery = { sink: getSinkName(sink), type: sink.type, delivered: 0, failed: 0 };
+
+    for (const notification of notifications) {
+      try {
+        await deliverToSink(sink, notification);
+        result.delivered += 1;
+        onResult?.(notification, result.sink);
+      } catch (error) {
+        result.failed += 1;
+        result.error = error instanceof Error ? error.message : 'Unknown error';
+        onResult?.(notification, result.sink, result.error);
+      }
+    }
+
+    results.push(result);
+  }
+
+  return results;
+}
@@ -0,0 +1,186 @@
+import type { Match } from '../types/index.js';
+import type { ProxyStatus } from './providers/apisports.js';
+import { CACHE_PROFILES } from './providers/types.js';
+
+/** Poll no faster than live data goes stale in the cache. */
+export const LIVE_POLL_MS = CACHE_PROFILES.live.stale_after;
+/** Between matches, poll no faster than fixtures go stale. */
+export const IDLE_POLL_MS = CACHE_PROFILES.standard.stale_after;
+
+const MINUTE_MS = 60 * 1000;
+/**
+ * Scheduled matches this long past kickoff count as about to go live;
+ * after that they're treated as stuck and no longer keep polling alive.
+ */
+const KICKOFF_GRACE_MS = 3 * 60 * 60 * 1000;
+
+export type PollReason = 'live' | 'kickoff' | 'quota' | 'done';
+
+export interface PollPlan {
+  /** Delay before the next poll. */
+  intervalMs: number;
+  reason: PollReason;
+  /** True when nothing is live or still to kick off. */
+  done: boolean;
+  /** True when the proxy quota cannot cover another poll. */
+  quotaExhausted: boolean;
+}
+
+export interface PollPlanInput {
+  matches: Match[];
+  now?: number;
+  /** Proxy status (free mode only); null/undefined skips quota pacing. */
+  proxyStatus?: ProxyStatus | null;
+  /** Upstream requests spent per poll (one per league). */
+  requestUnits?: number;
+  /** User-requested lower bound. */
+  minIntervalMs?: number;
+}
+
+/**
+ * Wait `ms`, resolving early (never rejecting) when `signal` aborts.
+ */
+export function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(done, ms);
+    function done(): void {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+    signal.addEventListener('abort', done, { once: true });
+  });
+}
+
+function nextUtcMidnight(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+/**
+ * Smallest interval that keeps polling within the proxy quota until it resets.
+ * Returns Infinity when the remaining quota can't cover another poll.
+ */
+export function getQuotaFloorMs(
+  status: ProxyStatus | null | undefined,
+  requestUnits: number,
+  now = Date.now()
+): number {
+  const units = Math.max(1, Math.floor(requestUnits));
+  const day = status?.rate_limit?.day;
+  const minute = status?.rate_limit?.minute;
+  let floor = 0;
+
+  if (day) {
+    const pollsLeft = Math.floor(day.remaining / units);
+    if (pollsLeft < 1) return Infinity;
+    const resetMs = day.reset ? Date.parse(day.reset) : NaN;
+    const untilReset = (Number.isFinite(resetMs) && resetMs > now ? resetMs : nextUtcMidnight(now)) - now;
+    floor = Math.ceil(untilReset / pollsLeft);
+  }
+
+  if (minute && minute.remaining < units) {
+    floor = Math.max(floor, MINUTE_MS);
+  }
+
+  return floor;
+}
+
+/**
+ * Decide when to poll next: fast while matches are live, waking up for the
+ * next kickoff otherwise, and never faster than the proxy quota allows.
+ */
+export function planNextPoll(input: PollPlanInput): PollPlan {
+  const now = input.now ?? Date.now();
+  const live = input.matches.some((match) => match.status === 'live');
+  const upcoming = input.matches
+    .filter((match) => match.status === 'scheduled' && now - match.timestamp < KICKOFF_GRACE_MS)
+    .map((match) => match.timestamp)
+    .sort((a, b) => a - b);
+
+  const quotaFloor = input.proxyStatus
+    ? getQuotaFloorMs(input.proxyStatus, input.requestUnits ?? 1, now)
+    : 0;
+  const quotaExhausted = quotaFloor === Infinity;
+
+  if (!live && upcoming.length === 0) {
+    return { intervalMs: 0, reason: 'done', done: true, quotaExhausted };
+  }
+
+  // Scheduled matches past kickoff are about to flip to live: poll at the live rate.
+  const base = live
+    ? LIVE_POLL_MS
+    : Math.min(IDLE_POLL_MS, Math.max(LIVE_POLL_MS, upcoming[0] - now));
+  const intervalMs = Math.max(base, input.minIntervalMs ?? 0, quotaExhausted ? 0 : quotaFloor);
+  const reason: PollReason = !quotaExhausted && quotaFloor > base && quotaFloor >= (input.minIntervalMs ?? 0)
+    ? 'quota'
+    : live ? 'live' : 'kickoff';
+
+  return { intervalMs, reason, done: false, quotaExhausted };
+}
+
+/** Longest a daemon sleeps without re-reading fixtures (kickoffs move). */
+export const MAX_SLEEP_MS = 6 * 60 * 60 * 1000;
+
+export type WakeReason = 'live' | 'quota' | 'wakeup' | 'idle';
+
+export interface WakePlan {
+  intervalMs: number;
+  reason: WakeReason;
+  quotaExhausted: boolean;
+}
+
+export interface WakePlanInput {
+  /** Today's tracked matches. */
+  matches: Match[];
+  /** Upcoming deadlines (reminders, kickoffs, ...) as epoch ms. */
+  wakeups: number[];
+  now?: number;
+  proxyStatus?: ProxyStatus | null;
+  requestUnits?: number;
+  maxSleepMs?: number;
+}
+
+/**
+ * Decide when a long-running process should wake next: at the live rate
+ * (via planNextPoll) while a match is in play, otherwise asleep until the
+ * next deadline, at most maxSleepMs. When the proxy quota is spent during
+ * a match, sleep until it resets.
+ */
+export function planNextWake(input: WakePlanInput): WakePlan {
+  const now = input.now ?? Date.now();
+  const maxSleepMs = input.maxSleepMs ?? MAX_SLEEP_MS;
+  const nextWakeup = input.wakeups.filter((at) => at > now).sort((a, b) => a - b)[0];
+  const sleepMs = Math.min(maxSleepMs, nextWakeup === undefined ? Infinity : nextWakeup - now);
+
+  const inPlay = input.matches.filter((match) =>
+    match.status === 'live'
+    || (match.status === 'scheduled' && match.timestamp <= now && now - match.timestamp < KICKOFF_GRACE_MS)
+  );
+
+  if (inPlay.length > 0) {
+    const poll = planNextPoll({
+      matches: inPlay,
+      now,
+      proxyStatus: input.proxyStatus,
+      requestUnits: input.requestUnits,
+    });
+    if (poll.quotaExhausted) {
+      return { intervalMs: nextUtcMidnight(now) - now, reason: 'quota', quotaExhausted: true };
+    }
+    if (poll.reason === 'quota') {
+      return { intervalMs: poll.intervalMs, reason: 'quota', quotaExhausted: false };
+    }
+    return { intervalMs: Math.min(poll.intervalMs, sleepMs), reason: 'live', quotaExhausted: false };
+  }
+
+  return {
+    intervalMs: Math.max(1000, sleepMs),
+    reason: sleepMs < maxSleepMs ? 'wakeup' : 'idle',
+    quotaExhausted: false,
+  };
+}
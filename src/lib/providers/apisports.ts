@@ -1,11 +1,16 @@
-import type { Provider, CacheOptions } from './types.js';
-import { ProviderError, CACHE_PROFILES } from './types.js';
-import type { Match, Team, MatchStatus, RateLimitInfo, StandingsEntry } from '../../types/index.js';
+import type { Provider, CacheOptions, FixtureOptions, ProviderCapabilities, ProviderRuntimeMeta } from './types.js';
+import { ProviderError, CACHE_PROFILES, isUpcomingFixture } from './types.js';
+import type { Match, MatchPeriods, MatchPhase, Team, MatchStatus, RateLimitInfo, Score, StandingsEntry } from '../../types/index.js';
 import { getLeagueById } from '../leagues.js';
 import { getCache, cacheKey } from '../cache.js';
 import { loadKickoffOverrides } from '../kickoff-overrides.js';
 import { randomUUID } from 'node:crypto';
-import { resolveOfficialKickoffFallbacks } from './top14-fallback.js';
+import {
+  getInCrowdLeagueIds,
+  getLnrLeagueIds,
+  getUrcLeagueIds,
+  resolveOfficialKickoffFallbacks,
+} from './top14-fallback.js';
 import { fetchEspnStandings, type EspnStandingsEntry } from './espn-standings.js';
 
 export const API_SPORTS_BASE_URL = 'https://v1.rugby.api-sports.io';
@@ -49,20 +54,23 @@ export interface ProxyStatus {
   now?: string;
   trace_id?: string;
   rate_limit?: RateLimitInfo;
+  /** Present when the request carried a proxy token. */
+  token?: { name: string; leagues: string[] };
 }
 
-export interface ProviderRuntimeMeta {
-  traceId: string | null;
-  traceIds: string[];
-  staleFallback: boolean;
-  cachedAt: string | null;
-  staleFallbackCount: number;
+export type { ProviderRuntimeMeta } from './types.js';
+
+function proxyAuthHeaders(proxyToken: string | null | undefined): Record<string, string> {
+  return proxyToken ? { Authorization: `Bearer ${proxyToken}` } : {};
 }
 
-export async function fetchProxyStatus(): Promise<ProxyStatus | null> {
+/**
+ * Free-mode quota from the proxy; with a proxy token, that token's quota.
+ */
+export async function fetchProxyStatus(proxyToken?: string): Promise<ProxyStatus | null> {
   try {
     const res = await fetch(`${PROXY_URL}/status`, {
-      headers: { Accept: 'application/json' },
+      headers: { Accept: 'application/json', ...proxyAuthHeaders(proxyToken) },
     });
     if (!res.ok) return null;
     return (await res.json()) as ProxyStatus;
@@ -97,6 +105,7 @@ interface ApiGame {
   status: {
     long: string;
     short: string;
+    timer?: string | number | null;
   };
   country: {
     id: number;
@@ -183,26 +192,16 @@ interface ApiStandingsEntry {
   form?: string;
 }
 
-const TOP14_LEAGUE_ID = '16';
-const PRO_D2_LEAGUE_ID = '17';
-const PREMIERSHIP_LEAGUE_ID = '13';
-const URC_LEAGUE_ID = '76';
 const SIX_NATIONS_LEAGUE_ID = '51';
 const SUPER_RUGBY_LEAGUE_ID = '71';
 const CHAMPIONS_CUP_LEAGUE_ID = '54';
 const CHALLENGE_CUP_LEAGUE_ID = '52';
-const LNR_LEAGUE_IDS = new Set([TOP14_LEAGUE_ID, PRO_D2_LEAGUE_ID]);
-const INCROWD_FALLBACK_LEAGUE_IDS = new Set([
-  PREMIERSHIP_LEAGUE_ID,
-  SIX_NATIONS_LEAGUE_ID,
-  SUPER_RUGBY_LEAGUE_ID,
-  CHAMPIONS_CUP_LEAGUE_ID,
-  CHALLENGE_CUP_LEAGUE_ID,
-]);
+const LNR_LEAGUE_IDS = new Set(getLnrLeagueIds());
+// Leagues whose official schedule (the lnr, urc and incrowd providers) corrects placeholder kickoffs
 const KICKOFF_FALLBACK_LEAGUE_IDS = new Set([
-  ...LNR_LEAGUE_IDS,
-  URC_LEAGUE_ID,
-  ...INCROWD_FALLBACK_LEAGUE_IDS,
+  ...getLnrLeagueIds(),
+  ...getUrcLeagueIds(),
+  ...getInCrowdLeagueIds(),
 ]);
 const LNR_PLACEHOLDER_UTC_TIMES = new Set(['11:00', '13:00', '15:00', '17:00', '19:00', '21:00']);
 const RETRYABLE_HTTP_STATUSES = new Set([408, 425, 500, 502, 503, 504]);
@@ -268,6 +267,60 @@ function mapStatus(status: { short: string; long: string }): MatchStatus {
   return 'scheduled';
 }
 
+/**
+ * Map in-play API-Sports status codes to a match phase.
+ */
+function mapPhase(status: { short: string }): MatchPhase | undefined {
+  switch (status.short.toUpperCase()) {
+    case '1H':
+      return 'first_half';
+    case 'HT':
+      return 'half_time';
+    case '2H':
+      return 'second_half';
+    case 'ET':
+      return 'extra_time';
+    case 'P':
+      return 'sudden_death';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Elapsed minutes from the status timer (e.g. "63" or "63+2"), if reported.
+ */
+function parseElapsed(status: { timer?: string | number | null }): number | undefined {
+  if (status.timer === null || status.timer === undefined) return undefined;
+  const match = String(status.timer).match(/^\s*(\d+)(?:\s*\+\s*(\d+))?/);
+  if (!match) return undefined;
+  return Number(match[1]) + (match[2] ? Number(match[2]) : 0);
+}
+
+function toPeriodScore(period?: { home: number | null; away: number | null }): Score | undefined {
+  if (!period || period.home === null || period.away === null) return undefined;
+  if (!Number.isFinite(period.home) || !Number.isFinite(period.away)) return undefined;
+  return { home: period.home, away: period.away };
+}
+
+/**
+ * Per-half scores. The first half is only reported once it is over
+ * (during 1H it just mirrors the live score), the second once it starts.
+ */
+function parsePeriods(game: ApiGame): MatchPeriods | undefined {
+  const code = game.status.short.toUpperCase();
+  if (['NS', 'TBD', '1H'].includes(code)) return undefined;
+
+  const first = toPeriodScore(game.periods?.first);
+  const second = code === 'HT' ? undefined : toPeriodScore(game.periods?.second);
+  if (!first && !second) return undefined;
+
+  return {
+    ...(first ? { first } : {}),
+    ...(second ? { second } : {}),
+  };
+}
+
 /**
  * Get current season year for a league
  * Different competitions use different season conventions:
@@ -380,16 +433,22 @@ function toOptionalNumber(value: unknown): number | undefined {
  * Pro tier: 7,500 requests/day, 300 requests/min
  */
 export class ApiSportsProvider implements Provider {
+  readonly id = 'apisports';
   readonly name = 'API-Sports';
+  readonly capabilities: ProviderCapabilities = {
+    operations: ['search', 'fixtures', 'results', 'standings', 'match', 'today', 'live', 'teams', 'history'],
+  };
   private apiKey: string | null;
+  private proxyToken: string | null;
   private mode: ProviderMode;
   private cache = getCache();
   private kickoffOverrides = loadKickoffOverrides();
   private traceIds: string[] = [];
   private staleFallbackTimestamps: number[] = [];
 
-  constructor(apiKey?: string) {
+  constructor(apiKey?: string, proxyToken?: string) {
     this.apiKey = apiKey || null;
+    this.proxyToken = proxyToken || null;
     this.mode = apiKey ? 'direct' : 'proxy';
   }
 
@@ -508,6 +567,8 @@ export class ApiSportsProvider implements Provider {
       headers['x-rugbyclaw-trace-id'] = clientTraceId;
       if (this.mode === 'direct' && this.apiKey) {
         headers['x-apisports-key'] = this.apiKey;
+      } else {
+        Object.assign(headers, proxyAuthHeaders(this.proxyToken));
       }
 
       const response = await this.fetchWithRetry(url, headers);
@@ -529,6 +590,16 @@ export class ApiSportsProvider implements Provider {
         throw new ProviderError(message, 'RATE_LIMITED', this.name, undefined, traceId);
       }
 
+      if (response.status === 401 && this.mode === 'proxy') {
+        throw new ProviderError(
+          'Proxy token rejected. Check proxy_token in secrets.json.',
+          'UNAUTHORIZED',
+          this.name,
+          undefined,
+          traceId
+        );
+      }
+
       if (response.status === 401 || response.status === 403) {
         throw new ProviderError(
           'Invalid API key. Check your configuration.',
@@ -641,9 +712,12 @@ export class ApiSportsProvider implements Provider {
       league,
       date,
       status,
+      phase: status === 'live' ? mapPhase(game.status) : undefined,
+      elapsed: status === 'live' ? parseElapsed(game.status) : undefined,
       score: game.scores.home !== null && game.scores.away !== null
         ? { home: game.scores.home, away: game.scores.away }
         : undefined,
+      periods: parsePeriods(game),
       round: game.week || undefined,
       timestamp, // ms
       timeTbd,
@@ -828,7 +902,7 @@ export class ApiSportsProvider implements Provider {
     }));
   }
 
-  async getLeagueFixtures(leagueId: string, _days?: number): Promise<Match[]> {
+  async getLeagueFixtures(leagueId: string, _days?: number, options?: FixtureOptions): Promise<Match[]> {
     const season = getCurrentSeason(leagueId);
     const games = await this.fetch<ApiGame[]>(
       'games',
@@ -841,7 +915,7 @@ export class ApiSportsProvider implements Provider {
 
     return games
       .map((g) => this.parseGame(g, fallbackOverrides.get(String(g.id))))
-      .filter((m) => m.status === 'scheduled' && m.timestamp > now)
+      .filter((m) => isUpcomingFixture(m, now, options))
       .sort((a, b) => a.timestamp - b.timestamp);
   }
 
@@ -860,6 +934,26 @@ export class ApiSportsProvider implements Provider {
       .sort((a, b) => b.timestamp - a.timestamp);
   }
 
+  /**
+   * Get finished matches for the current and previous seasons.
+   * Past seasons no longer change, so they are cached long-term.
+   */
+  async getLeagueHistory(leagueId: string, seasons: number): Promise<Match[]> {
+    const currentSeason = getCurrentSeason(leagueId);
+    const matches: Match[] = [];
+
+    for (let offset = 0; offset < Math.max(1, seasons); offset += 1) {
+      const games = await this.fetch<ApiGame[]>(
+        'games',
+        { league: leagueId, season: String(currentSeason - offset) },
+        offset === 0 ? CACHE_PROFILES.standard : CACHE_PROFILES.long
+      );
+      matches.push(...games.map((g) => this.parseGame(g)).filter((m) => m.status === 'finished'));
+    }
+
+    return matches.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
   async getMatch(matchId: string): Promise<Match | null> {
     const games = await this.fetch<ApiGame[]>(
       'games',
@@ -1,5 +1,9 @@
-import { cacheKey, type Cache } from '../cache.js';
-import { CACHE_PROFILES } from './types.js';
+import { cacheKey, getCache, type Cache } from '../cache.js';
+import { getLeague, getLeagueById } from '../leagues.js';
+import { normalizeText } from '../fuzzy.js';
+import type { Match, StandingsEntry, Team } from '../../types/index.js';
+import { CACHE_PROFILES, ProviderError } from './types.js';
+import type { Provider, ProviderCapabilities } from './types.js';
 
 const ESPN_BASE_URL = 'https://site.api.espn.com/apis/v2/sports/rugby';
 
@@ -209,3 +213,89 @@ export async function fetchEspnStandings(
     return cached?.data || null;
   }
 }
+
+function toStandingsEntry(entry: EspnStandingsEntry): StandingsEntry {
+  const pointsFor = entry.pointsFor ?? 0;
+  const pointsAgainst = entry.pointsAgainst ?? 0;
+  return {
+    position: entry.rank,
+    team: {
+      // ESPN has no API-Sports team IDs; derive a stable one from the name.
+      id: `espn:${normalizeText(entry.teamName).replace(/\s+/g, '-')}`,
+      name: entry.teamName,
+    },
+    played: entry.gamesPlayed ?? 0,
+    won: entry.gamesWon ?? 0,
+    drawn: entry.gamesDrawn ?? 0,
+    lost: entry.gamesLost ?? 0,
+    points_for: pointsFor,
+    points_against: pointsAgainst,
+    points_diff: entry.pointsDifference ?? pointsFor - pointsAgainst,
+    points: entry.points ?? 0,
+    bonus_points: entry.bonusPoints,
+    bonus_points_try: entry.bonusPointsTry,
+    bonus_points_losing: entry.bonusPointsLosing,
+    tries_for: entry.triesFor,
+    tries_against: entry.triesAgainst,
+    tries_diff: entry.triesDifference,
+    win_percent: entry.winPercent,
+    avg_points_for: entry.avgPointsFor,
+    avg_points_against: entry.avgPointsAgainst,
+    form: entry.form,
+  };
+}
+
+/**
+ * Standings-only provider backed by ESPN's public standings feed.
+ *
+ * Used as a secondary source in provider chains; every other operation
+ * throws UNSUPPORTED so the chain skips it.
+ */
+export class EspnStandingsProvider implements Provider {
+  readonly id = 'espn';
+  readonly name = 'ESPN';
+  readonly capabilities: ProviderCapabilities = {
+    operations: ['standings'],
+    leagueIds: Object.keys(ESPN_LEAGUE_IDS)
+      .map((slug) => getLeague(slug)?.id)
+      .filter((id): id is string => Boolean(id)),
+  };
+  private cache: Cache;
+
+  constructor(cache: Cache = getCache()) {
+    this.cache = cache;
+  }
+
+  private unsupported(operation: string): never {
+    throw new ProviderError(`${this.name} does not support ${operation}`, 'UNSUPPORTED', this.name);
+  }
+
+  async getStandings(leagueId: string): Promise<StandingsEntry[]> {
+    const league = getLeagueById(leagueId);
+    const entries = league ? await fetchEspnStandings(league.slug, this.cache) : null;
+    if (!entries) {
+      throw new ProviderError(`No ESPN standings for league ${leagueId}`, 'NOT_FOUND', this.name);
+    }
+    return entries.map(toStandingsEntry);
+  }
+
+  async searchTeams(_query: string): Promise<Team[]> {
+    return this.unsupported('team search');
+  }
+
+  async getLeagueFixtures(_leagueId: string, _days?: number): Promise<Match[]> {
+    return this.unsupported('fixtures');
+  }
+
+  async getLeagueResults(_leagueId: string, _days?: number): Promise<Match[]> {
+    return this.unsupported('results');
+  }
+
+  async getMatch(_matchId: string): Promise<Match | null> {
+    return this.unsupported('match lookup');
+  }
+
+  async getToday(_leagueIds: string[], _options?: { dateYmd?: string }): Promise<Match[]> {
+    return this.unsupported('today');
+  }
+}
@@ -0,0 +1,268 @@
+import type { Match, MatchPhase, MatchStatus, Team } from '../../types/index.js';
+import { getCache, cacheKey, type Cache } from '../cache.js';
+import { normalizeText } from '../fuzzy.js';
+import { getLeagueById } from '../leagues.js';
+import {
+  fetchInCrowdMatches,
+  getInCrowdLeagueIds,
+  isUnknownTeamName,
+  resolveInCrowdSeasonIdsForYears,
+  type InCrowdMatch,
+  type InCrowdTeam,
+} from './top14-fallback.js';
+import { CACHE_PROFILES, ProviderError, isUpcomingFixture } from './types.js';
+import type { CacheOptions, FixtureOptions, Provider, ProviderCapabilities, ProviderRuntimeMeta } from './types.js';
+
+const CACHE_NAMESPACE = 'incrowd';
+
+/**
+ * Map InCrowd match status labels to RugbyClaw status.
+ */
+export function mapInCrowdStatus(status: string | null | undefined): MatchStatus {
+  const value = (status || '').toLowerCase().replace(/[\s_-]+/g, '');
+  if (!value) return 'scheduled';
+
+  if (value.includes('postpon') || value.includes('suspend')) return 'postponed';
+  if (value.includes('cancel') || value.includes('abandon')) return 'cancelled';
+  if (value === 'ft' || ['result', 'fulltime', 'complete', 'finished', 'final'].some((code) => value.includes(code))) {
+    return 'finished';
+  }
+  if (['live', 'half', 'inprogress', 'playing', 'extratime'].some((code) => value.includes(code))) {
+    return 'live';
+  }
+
+  return 'scheduled';
+}
+
+/**
+ * Map in-play InCrowd status labels (e.g. "Second Half") to a match phase.
+ */
+export function mapInCrowdPhase(status: string | null | undefined): MatchPhase | undefined {
+  const value = (status || '').toLowerCase().replace(/[\s_-]+/g, '');
+  if (value.includes('halftime')) return 'half_time';
+  if (value.includes('firsthalf')) return 'first_half';
+  if (value.includes('secondhalf')) return 'second_half';
+  if (value.includes('extratime')) return 'extra_time';
+  if (value.includes('suddendeath')) return 'sudden_death';
+  return undefined;
+}
+
+function toScore(value: InCrowdTeam['score']): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function toTeam(team: InCrowdTeam, name: string): Team {
+  return {
+    id: team.id !== undefined && team.id !== null && team.id !== ''
+      ? `incrowd:${team.id}`
+      : `incrowd:${normalizeText(name).replace(/\s+/g, '-')}`,
+    name,
+    shortName: team.shortName?.trim() || undefined,
+  };
+}
+
+/**
+ * Full provider on top of the InCrowd rugby-union feed (Premiership,
+ * Six Nations, Super Rugby, EPCR cups). Serves fixtures, results and
+ * live scores when API-Sports is unavailable.
+ */
+export class InCrowdProvider implements Provider {
+  readonly id = 'incrowd';
+  readonly name = 'InCrowd';
+  readonly capabilities: ProviderCapabilities = {
+    operations: ['fixtures', 'results', 'today', 'live', 'history'],
+    leagueIds: getInCrowdLeagueIds(),
+  };
+  private cache: Cache;
+  private fetchFn: typeof fetch;
+  private staleFallbackTimestamps: number[] = [];
+
+  constructor(options: { cache?: Cache; fetchFn?: typeof fetch } = {}) {
+    this.cache = options.cache || getCache();
+    this.fetchFn = options.fetchFn || ((input, init) => fetch(input, init));
+  }
+
+  consumeRuntimeMeta(): ProviderRuntimeMeta {
+    const staleFallbackCount = this.staleFallbackTimestamps.length;
+    const cachedAtMs = staleFallbackCount > 0 ? Math.max(...this.staleFallbackTimestamps) : null;
+    this.staleFallbackTimestamps = [];
+
+    return {
+      traceId: null,
+      traceIds: [],
+      staleFallback: cachedAtMs !== null,
+      cachedAt: cachedAtMs !== null ? new Date(cachedAtMs).toISOString() : null,
+      staleFallbackCount,
+    };
+  }
+
+  private unsupported(operation: string): never {
+    throw new ProviderError(`${this.name} does not support ${operation}`, 'UNSUPPORTED', this.name);
+  }
+
+  private async fetchMatches(
+    leagueId: string,
+    cacheOptions: CacheOptions,
+    years = [new Date().getUTCFullYear()]
+  ): Promise<Match[]> {
+    const league = getLeagueById(leagueId);
+    if (!league || !getInCrowdLeagueIds().includes(leagueId)) {
+      throw new ProviderError(`${this.name} does not cover league ${leagueId}`, 'UNSUPPORTED', this.name);
+    }
+
+    const seasonIds = resolveInCrowdSeasonIdsForYears(years);
+    // Live reads must not be served from an entry written with a longer profile
+    const key = cacheKey(
+      'matches',
+      { league: leagueId, seasons: seasonIds.join(','), stale_after: String(cacheOptions.stale_after) },
+      CACHE_NAMESPACE
+    );
+
+    const cached = await this.cache.get<InCrowdMatch[]>(key);
+    let rows: InCrowdMatch[];
+
+    if (cached && !cached.stale) {
+      rows = cached.data;
+    } else {
+      try {
+        rows = await fetchInCrowdMatches(leagueId, seasonIds, this.fetchFn);
+        await this.cache.set(key, rows, cacheOptions);
+      } catch (error) {
+        if (cached) {
+          this.staleFallbackTimestamps.push(cached.cachedAt);
+          rows = cached.data;
+        } else {
+          throw new ProviderError(
+            'Failed to fetch data from InCrowd. Check your internet connection.',
+            'NETWORK_ERROR',
+            this.name,
+            error instanceof Error ? error : undefined
+          );
+        }
+      }
+    }
+
+    return rows
+      .map((row) => this.parseMatch(row, leagueId))
+      .filter((match): match is Match => match !== null);
+  }
+
+  private parseMatch(row: InCrowdMatch, leagueId: string): Match | null {
+    const league = getLeagueById(leagueId);
+    const home = row.homeTeam?.name?.trim();
+    const away = row.awayTeam?.name?.trim();
+    const timestamp = row.date ? Date.parse(row.date) : NaN;
+    if (!league || !row.id || !home || !away || !Number.isFinite(timestamp)) return null;
+    if (isUnknownTeamName(home) || isUnknownTeamName(away)) return null;
+
+    const status = mapInCrowdStatus(row.status);
+    const homeScore = toScore(row.homeTeam?.score);
+    const awayScore = toScore(row.awayTeam?.score);
+    const hasScore = status !== 'scheduled' && homeScore !== null && awayScore !== null;
+
+    return {
+      id: `incrowd:${row.id}`,
+      homeTeam: toTeam(row.homeTeam || {}, home),
+      awayTeam: toTeam(row.awayTeam || {}, away),
+      league,
+      date: new Date(timestamp),
+      venue: row.venue?.name?.trim() || undefined,
+      status,
+      phase: status === 'live' ? mapInCrowdPhase(row.status) : undefined,
+      score: hasScore ? { home: homeScore, away: awayScore } : undefined,
+      round: row.round !== null && row.round !== undefined && row.round !== '' ? String(row.round) : undefined,
+      timestamp,
+      timeSource: 'provider',
+    };
+  }
+
+  /**
+   * Run a per-league fetch across leagues; throw only if every league fails.
+   */
+  private async collect(
+    leagueIds: string[],
+    cacheOptions: CacheOptions,
+    keep: (match: Match) => boolean,
+    failureLabel: string
+  ): Promise<Match[]> {
+    const matchMap = new Map<string, Match>();
+    const failedLeagues: string[] = [];
+    let successfulLeagues = 0;
+
+    for (const leagueId of leagueIds) {
+      try {
+        const matches = await this.fetchMatches(leagueId, cacheOptions);
+        successfulLeagues += 1;
+        for (const match of matches) {
+          if (keep(match) && !matchMap.has(match.id)) {
+            matchMap.set(match.id, match);
+          }
+        }
+      } catch {
+        failedLeagues.push(leagueId);
+      }
+    }
+
+    if (successfulLeagues === 0 && failedLeagues.length > 0) {
+      throw new ProviderError(
+        `Failed to fetch ${failureLabel}: all ${failedLeagues.length} league requests failed.`,
+        'NETWORK_ERROR',
+        this.name
+      );
+    }
+
+    return Array.from(matchMap.values()).sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async getLeagueFixtures(leagueId: string, _days?: number, options?: FixtureOptions): Promise<Match[]> {
+    const now = Date.now();
+    const matches = await this.fetchMatches(leagueId, CACHE_PROFILES.standard);
+
+    return matches
+      .filter((m) => isUpcomingFixture(m, now, options))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async getLeagueResults(leagueId: string, _days?: number): Promise<Match[]> {
+    const matches = await this.fetchMatches(leagueId, CACHE_PROFILES.standard);
+
+    return matches
+      .filter((m) => m.status === 'finished')
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async getLeagueHistory(leagueId: string, seasons: number): Promise<Match[]> {
+    const year = new Date().getUTCFullYear();
+    const years = Array.from({ length: Math.max(1, seasons) }, (_, offset) => year - offset);
+    const matches = await this.fetchMatches(leagueId, CACHE_PROFILES.standard, years);
+
+    return matches
+      .filter((m) => m.status === 'finished')
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async getToday(leagueIds: string[], options?: { dateYmd?: string }): Promise<Match[]> {
+    const dateStr = options?.dateYmd || new Date().toISOString().split('T')[0]; // YYYY-MM-DD
+
+    return this.collect(
+      leagueIds,
+      CACHE_PROFILES.live,
+      (match) => match.date.toISOString().split('T')[0] === dateStr,
+      `matches for ${dateStr}`
+    );
+  }
+
+  async getLive(leagueIds: string[]): Promise<Match[]> {
+    return this.collect(leagueIds, CACHE_PROFILES.live, (match) => match.status === 'live', 'live matches');
+  }
+
+  async searchTeams(_query: string): Promise<Team[]> {
+    return this.unsupported('team search');
+  }
+
+  async getMatch(_matchId: string): Promise<Match | null> {
+    return this.unsupported('match lookup');
+  }
+}
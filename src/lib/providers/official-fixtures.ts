@@ -0,0 +1,165 @@
+import type { Match, Team } from '../../types/index.js';
+import { getCache, cacheKey, type Cache } from '../cache.js';
+import { normalizeText } from '../fuzzy.js';
+import { getLeagueById } from '../leagues.js';
+import {
+  fetchLnrLeagueFixtures,
+  fetchUrcSeasonFixtures,
+  getLnrLeagueIds,
+  getUrcLeagueIds,
+  isUnknownTeamName,
+  resolveUrcSeasonIdsForYears,
+  type OfficialFixture,
+} from './top14-fallback.js';
+import { CACHE_PROFILES, ProviderError, isUpcomingFixture } from './types.js';
+import type { FixtureOptions, Provider, ProviderCapabilities, ProviderRuntimeMeta } from './types.js';
+
+/**
+ * An official schedule: the provider ID it is registered under, the leagues
+ * it covers and how to fetch one league's fixtures.
+ */
+export interface OfficialFixtureSource {
+  id: string;
+  name: string;
+  leagueIds: string[];
+  fetchFixtures(leagueId: string, fetchFn: typeof fetch): Promise<OfficialFixture[]>;
+}
+
+/** Top 14 and Pro D2, scraped from the LNR sites. */
+export const LNR_SOURCE: OfficialFixtureSource = {
+  id: 'lnr',
+  name: 'LNR',
+  leagueIds: getLnrLeagueIds(),
+  fetchFixtures: (leagueId, fetchFn) => fetchLnrLeagueFixtures(leagueId, fetchFn),
+};
+
+/** URC, from the United Rugby Championship GraphQL API. */
+export const URC_SOURCE: OfficialFixtureSource = {
+  id: 'urc',
+  name: 'URC',
+  leagueIds: getUrcLeagueIds(),
+  fetchFixtures: (_leagueId, fetchFn) =>
+    fetchUrcSeasonFixtures(resolveUrcSeasonIdsForYears([new Date().getUTCFullYear()]), fetchFn),
+};
+
+function toTeam(name: string, namespace: string): Team {
+  return { id: `${namespace}:${normalizeText(name).replace(/\s+/g, '-')}`, name };
+}
+
+/**
+ * Fixtures-only provider on top of a league's official schedule. These
+ * sources carry kickoffs and teams but no status or scores, so they only
+ * serve upcoming fixtures; API-Sports also reads them to correct its
+ * placeholder kickoff times.
+ */
+export class OfficialFixturesProvider implements Provider {
+  readonly id: string;
+  readonly name: string;
+  readonly capabilities: ProviderCapabilities;
+  private source: OfficialFixtureSource;
+  private cache: Cache;
+  private fetchFn: typeof fetch;
+  private staleFallbackTimestamps: number[] = [];
+
+  constructor(source: OfficialFixtureSource, options: { cache?: Cache; fetchFn?: typeof fetch } = {}) {
+    this.source = source;
+    this.id = source.id;
+    this.name = source.name;
+    this.capabilities = { operations: ['fixtures'], leagueIds: source.leagueIds };
+    this.cache = options.cache || getCache();
+    this.fetchFn = options.fetchFn || ((input, init) => fetch(input, init));
+  }
+
+  consumeRuntimeMeta(): ProviderRuntimeMeta {
+    const staleFallbackCount = this.staleFallbackTimestamps.length;
+    const cachedAtMs = staleFallbackCount > 0 ? Math.max(...this.staleFallbackTimestamps) : null;
+    this.staleFallbackTimestamps = [];
+
+    return {
+      traceId: null,
+      traceIds: [],
+      staleFallback: cachedAtMs !== null,
+      cachedAt: cachedAtMs !== null ? new Date(cachedAtMs).toISOString() : null,
+      staleFallbackCount,
+    };
+  }
+
+  private unsupported(operation: string): never {
+    throw new ProviderError(`${this.name} does not support ${operation}`, 'UNSUPPORTED', this.name);
+  }
+
+  private async loadFixtures(leagueId: string): Promise<OfficialFixture[]> {
+    if (!this.capabilities.leagueIds?.includes(leagueId)) {
+      throw new ProviderError(`${this.name} does not cover league ${leagueId}`, 'UNSUPPORTED', this.name);
+    }
+
+    const key = cacheKey('fixtures', { league: leagueId }, this.id);
+    const cached = await this.cache.get<OfficialFixture[]>(key);
+    if (cached && !cached.stale) return cached.data;
+
+    try {
+      const fixtures = await this.source.fetchFixtures(leagueId, this.fetchFn);
+      // An empty schedule means the page or API changed, not an empty season
+      if (fixtures.length === 0) {
+        throw new ProviderError(`${this.name} returned no fixtures`, 'PARSE_ERROR', this.name);
+      }
+      await this.cache.set(key, fixtures, CACHE_PROFILES.standard);
+      return fixtures;
+    } catch (error) {
+      if (cached) {
+        this.staleFallbackTimestamps.push(cached.cachedAt);
+        return cached.data;
+      }
+      if (error instanceof ProviderError) throw error;
+      throw new ProviderError(
+        `Failed to fetch data from ${this.name}. Check your internet connection.`,
+        'NETWORK_ERROR',
+        this.name,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  private toMatch(fixture: OfficialFixture, leagueId: string): Match | null {
+    const league = getLeagueById(fixture.leagueId || leagueId);
+    if (!league || isUnknownTeamName(fixture.home) || isUnknownTeamName(fixture.away)) return null;
+
+    return {
+      id: `${this.id}:${fixture.sourceId}`,
+      homeTeam: toTeam(fixture.home, this.id),
+      awayTeam: toTeam(fixture.away, this.id),
+      league,
+      date: new Date(fixture.kickoffMs),
+      status: 'scheduled',
+      round: fixture.round !== null ? String(fixture.round) : undefined,
+      timestamp: fixture.kickoffMs,
+      timeSource: 'provider',
+    };
+  }
+
+  async getLeagueFixtures(leagueId: string, _days?: number, options?: FixtureOptions): Promise<Match[]> {
+    const now = Date.now();
+    const fixtures = await this.loadFixtures(leagueId);
+
+    return fixtures
+      .map((fixture) => this.toMatch(fixture, leagueId))
+      .filter((match): match is Match => match !== null && isUpcomingFixture(match, now, options))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async getLeagueResults(_leagueId: string, _days?: number): Promise<Match[]> {
+    return this.unsupported('results');
+  }
+
+  async getToday(_leagueIds: string[], _options?: { dateYmd?: string }): Promise<Match[]> {
+    return this.unsupported('today\'s matches');
+  }
+
+  async searchTeams(_query: string): Promise<Team[]> {
+    return this.unsupported('team search');
+  }
+
+  async getMatch(_matchId: string): Promise<Match | null> {
+    return this.unsupported('match lookup');
+  }
+}
@@ -0,0 +1,400 @@
+import type { Config, FavoriteTeam, Match, ProviderChainConfig, StandingsEntry, Team } from '../../types/index.js';
+import { getCache, cacheKey, type Cache } from '../cache.js';
+import { normalizeText } from '../fuzzy.js';
+import { getLeagueById } from '../leagues.js';
+import { getTeamQueryCandidates } from '../team-aliases.js';
+import { ApiSportsProvider } from './apisports.js';
+import { EspnStandingsProvider } from './espn-standings.js';
+import { InCrowdProvider } from './incrowd.js';
+import { LNR_SOURCE, OfficialFixturesProvider, URC_SOURCE } from './official-fixtures.js';
+import { ProviderError, providerSupports } from './types.js';
+import type { FixtureOptions, Provider, ProviderCapabilities, ProviderOperation, ProviderRuntimeMeta } from './types.js';
+
+export interface ProviderFactoryContext {
+  apiKey?: string;
+  proxyToken?: string;
+}
+
+export type ProviderFactory = (context: ProviderFactoryContext) => Provider;
+
+const ALL_OPERATIONS: readonly ProviderOperation[] = [
+  'search',
+  'fixtures',
+  'results',
+  'standings',
+  'match',
+  'today',
+  'live',
+  'teams',
+  'history',
+];
+
+/**
+ * Chain used when config.json has no `providers` section.
+ * API-Sports stays primary; InCrowd covers scores for the leagues it
+ * carries, the LNR and URC schedules cover their fixtures and ESPN only
+ * steps in for standings.
+ */
+export const DEFAULT_PROVIDER_ORDER = ['apisports', 'incrowd', 'lnr', 'urc', 'espn'];
+
+/**
+ * Team and match IDs in config (favorites), notify state and calendars are
+ * API-Sports IDs; other providers' matches are mapped onto them by team
+ * name and kickoff.
+ */
+const CANONICAL_PROVIDER_ID = 'apisports';
+
+/** API-Sports matches seen per league, kept so a later fall-through can reuse their IDs. */
+const MATCH_INDEX_NAMESPACE = 'canonical';
+const MATCH_INDEX_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+/** A fallback match this close to an indexed kickoff, with the same teams, is the same match. */
+const SAME_MATCH_WINDOW_MS = 12 * 60 * 60 * 1000;
+
+interface IndexedMatch {
+  id: string;
+  home: string;
+  away: string;
+  kickoff: number;
+}
+
+const factories = new Map<string, ProviderFactory>();
+
+/**
+ * Register (or replace) a provider factory under a stable ID.
+ */
+export function registerProvider(id: string, factory: ProviderFactory): void {
+  factories.set(id, factory);
+}
+
+export function getRegisteredProviderIds(): string[] {
+  return Array.from(factories.keys());
+}
+
+registerProvider('apisports', ({ apiKey, proxyToken }) => new ApiSportsProvider(apiKey, proxyToken));
+registerProvider('incrowd', () => new InCrowdProvider());
+registerProvider('lnr', () => new OfficialFixturesProvider(LNR_SOURCE));
+registerProvider('urc', () => new OfficialFixturesProvider(URC_SOURCE));
+registerProvider('espn', () => new EspnStandingsProvider());
+
+/**
+ * Resolve the ordered provider IDs for a league.
+ *
+ * Per-league config wins over `default`; unknown IDs are dropped, and an
+ * empty result falls back to DEFAULT_PROVIDER_ORDER.
+ */
+export function resolveProviderOrder(chain: ProviderChainConfig | undefined, leagueId?: string): string[] {
+  const slug = leagueId ? getLeagueById(leagueId)?.slug : undefined;
+  const configured = (slug ? chain?.leagues?.[slug] : undefined) || chain?.default || DEFAULT_PROVIDER_ORDER;
+  const order = Array.from(new Set(configured)).filter((id) => factories.has(id));
+  return order.length > 0 ? order : [...DEFAULT_PROVIDER_ORDER];
+}
+
+/** Name keys a team is known by: its normalized name and alias target. */
+function teamNameKeys(name: string): string[] {
+  return getTeamQueryCandidates(name).map((candidate) => normalizeText(candidate));
+}
+
+function sameTeam(a: string, b: string): boolean {
+  const keys = new Set(teamNameKeys(a));
+  return teamNameKeys(b).some((key) => keys.has(key));
+}
+
+function mergeRuntimeMeta(metas: ProviderRuntimeMeta[]): ProviderRuntimeMeta {
+  const traceIds = metas.flatMap((meta) => meta.traceIds);
+  const cachedAtValues = metas
+    .map((meta) => meta.cachedAt)
+    .filter((value): value is string => Boolean(value))
+    .sort();
+
+  return {
+    traceId: traceIds.length > 0 ? traceIds[traceIds.length - 1] : null,
+    traceIds,
+    staleFallback: metas.some((meta) => meta.staleFallback),
+    cachedAt: cachedAtValues.length > 0 ? cachedAtValues[cachedAtValues.length - 1] : null,
+    staleFallbackCount: metas.reduce((sum, meta) => sum + meta.staleFallbackCount, 0),
+  };
+}
+
+/**
+ * Provider that delegates each call through an ordered chain of registered
+ * providers, skipping those that don't support the operation/league and
+ * falling through to the next one when a provider throws.
+ */
+export class ProviderChain implements Provider {
+  readonly id = 'chain';
+  readonly name = 'Provider chain';
+  readonly capabilities: ProviderCapabilities = { operations: ALL_OPERATIONS };
+  private apiKey?: string;
+  private proxyToken?: string;
+  private chain?: ProviderChainConfig;
+  private instances = new Map<string, Provider>();
+  /** Normalized team name -> API-Sports team ID. */
+  private canonicalTeamIds = new Map<string, string>();
+  /** League ID -> API-Sports matches, loaded from and saved to the cache. */
+  private matchIndex = new Map<string, IndexedMatch[]>();
+  private cache: Cache;
+
+  constructor(options: {
+    apiKey?: string;
+    proxyToken?: string;
+    chain?: ProviderChainConfig;
+    teams?: Pick<FavoriteTeam, 'id' | 'name'>[];
+    cache?: Cache;
+  } = {}) {
+    this.apiKey = options.apiKey || undefined;
+    this.proxyToken = options.proxyToken || undefined;
+    this.chain = options.chain;
+    this.cache = options.cache || getCache();
+    for (const team of options.teams ?? []) this.learnTeam(team);
+  }
+
+  private learnTeam(team: Pick<Team, 'id' | 'name'>): void {
+    for (const key of teamNameKeys(team.name)) {
+      if (!this.canonicalTeamIds.has(key)) this.canonicalTeamIds.set(key, team.id);
+    }
+  }
+
+  private canonicalTeam(team: Team): Team {
+    for (const key of teamNameKeys(team.name)) {
+      const id = this.canonicalTeamIds.get(key);
+      if (id) return id === team.id ? team : { ...team, id };
+    }
+    return team;
+  }
+
+  private async loadMatchIndex(leagueId: string): Promise<IndexedMatch[]> {
+    const loaded = this.matchIndex.get(leagueId);
+    if (loaded) return loaded;
+    let entries: IndexedMatch[] = [];
+    try {
+      entries = (await this.cache.get<IndexedMatch[]>(cacheKey('matches', { league: leagueId }, MATCH_INDEX_NAMESPACE)))?.data ?? [];
+    } catch {
+      // Unreadable cache: start over
+    }
+    this.matchIndex.set(leagueId, entries);
+    return entries;
+  }
+
+  /**
+   * Remember API-Sports matches, across runs, so a fall-through later on
+   * (the daily quota running out mid-afternoon) still yields their IDs.
+   */
+  private async indexMatches(matches: Match[]): Promise<void> {
+    const cutoff = Date.now() - MATCH_INDEX_TTL_MS;
+    for (const leagueId of new Set(matches.map((match) => match.league.id))) {
+      const byId = new Map((await this.loadMatchIndex(leagueId)).map((entry) => [entry.id, entry]));
+      let changed = false;
+      for (const match of matches.filter((m) => m.league.id === leagueId)) {
+        const existing = byId.get(match.id);
+        if (existing?.kickoff === match.timestamp && existing.home === match.homeTeam.name && existing.away === match.awayTeam.name) {
+          continue;
+        }
+        byId.set(match.id, { id: match.id, home: match.homeTeam.name, away: match.awayTeam.name, kickoff: match.timestamp });
+        changed = true;
+      }
+      if (!changed) continue;
+
+      const entries = Array.from(byId.values()).filter((entry) => entry.kickoff >= cutoff);
+      this.matchIndex.set(leagueId, entries);
+      try {
+        await this.cache.set(cacheKey('matches', { league: leagueId }, MATCH_INDEX_NAMESPACE), entries, {
+          stale_after: MATCH_INDEX_TTL_MS,
+          expires_after: MATCH_INDEX_TTL_MS,
+        });
+      } catch {
+        // Best effort: the in-memory index still covers this run
+      }
+    }
+  }
+
+  private async canonicalMatchId(match: Match): Promise<string> {
+    const entries = await this.loadMatchIndex(match.league.id);
+    const found = entries.find((entry) =>
+      Math.abs(entry.kickoff - match.timestamp) <= SAME_MATCH_WINDOW_MS
+      && sameTeam(entry.home, match.homeTeam.name)
+      && sameTeam(entry.away, match.awayTeam.name));
+    return found?.id ?? match.id;
+  }
+
+  /**
+   * API-Sports matches teach the chain canonical IDs; matches from a
+   * fallback provider get their teams and the match itself mapped onto
+   * them, so favorite-team filters, notify state and calendar UIDs stay
+   * the same after a fall-through.
+   */
+  private async canonicalMatches(provider: Provider, matches: Match[]): Promise<Match[]> {
+    if (provider.id === CANONICAL_PROVIDER_ID) {
+      for (const match of matches) {
+        this.learnTeam(match.homeTeam);
+        this.learnTeam(match.awayTeam);
+      }
+      await this.indexMatches(matches);
+      return matches;
+    }
+
+    return Promise.all(matches.map(async (match) => ({
+      ...match,
+      id: await this.canonicalMatchId(match),
+      homeTeam: this.canonicalTeam(match.homeTeam),
+      awayTeam: this.canonicalTeam(match.awayTeam),
+    })));
+  }
+
+  private instance(id: string): Provider | null {
+    const existing = this.instances.get(id);
+    if (existing) return existing;
+    const factory = factories.get(id);
+    if (!factory) return null;
+    const provider = factory({ apiKey: this.apiKey, proxyToken: this.proxyToken });
+    this.instances.set(id, provider);
+    return provider;
+  }
+
+  /**
+   * Providers eligible for an operation, in chain order.
+   */
+  providersFor(operation: ProviderOperation, leagueId?: string): Provider[] {
+    return resolveProviderOrder(this.chain, leagueId)
+      .map((id) => this.instance(id))
+      .filter((provider): provider is Provider => provider !== null)
+      .filter((provider) => providerSupports(provider, operation, leagueId));
+  }
+
+  private async run<T>(
+    operation: ProviderOperation,
+    leagueId: string | undefined,
+    call: (provider: Provider) => Promise<T>
+  ): Promise<T> {
+    const providers = this.providersFor(operation, leagueId);
+    if (providers.length === 0) {
+      const scope = leagueId ? ` for league ${leagueId}` : '';
+      throw new ProviderError(`No configured provider supports ${operation}${scope}.`, 'UNSUPPORTED', this.name);
+    }
+
+    let firstError: unknown;
+    for (const provider of providers) {
+      try {
+        return await call(provider);
+      } catch (error) {
+        firstError ??= error;
+      }
+    }
+
+    // Surface the primary provider's error: its message drives exit codes.
+    throw firstError;
+  }
+
+  /**
+   * Multi-league calls: leagues sharing the same chain are fetched together,
+   * so a single provider still sees one batched request per group.
+   */
+  private async runGrouped(
+    operation: ProviderOperation,
+    leagueIds: string[],
+    call: (provider: Provider, leagueIds: string[]) => Promise<Match[]>
+  ): Promise<Match[]> {
+    const groups = new Map<string, string[]>();
+    for (const leagueId of leagueIds) {
+      const key = this.providersFor(operation, leagueId).map((provider) => provider.id).join('>');
+      const bucket = groups.get(key) || [];
+      bucket.push(leagueId);
+      groups.set(key, bucket);
+    }
+
+    const matchMap = new Map<string, Match>();
+    let firstError: unknown;
+    let successfulGroups = 0;
+
+    for (const groupLeagueIds of groups.values()) {
+      try {
+        const matches = await this.run(operation, groupLeagueIds[0], (provider) => call(provider, groupLeagueIds));
+        successfulGroups += 1;
+        for (const match of matches) {
+          if (!matchMap.has(match.id)) matchMap.set(match.id, match);
+        }
+      } catch (error) {
+        firstError ??= error;
+      }
+    }
+
+    if (successfulGroups === 0 && firstError !== undefined) {
+      throw firstError;
+    }
+
+    return Array.from(matchMap.values()).sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  searchTeams(query: string): Promise<Team[]> {
+    return this.run('search', undefined, (provider) => provider.searchTeams(query));
+  }
+
+  getLeagueFixtures(leagueId: string, days?: number, options?: FixtureOptions): Promise<Match[]> {
+    return this.run('fixtures', leagueId, async (provider) =>
+      this.canonicalMatches(provider, await provider.getLeagueFixtures(leagueId, days, options)));
+  }
+
+  getLeagueResults(leagueId: string, days?: number): Promise<Match[]> {
+    return this.run('results', leagueId, async (provider) =>
+      this.canonicalMatches(provider, await provider.getLeagueResults(leagueId, days)));
+  }
+
+  getStandings(leagueId: string): Promise<StandingsEntry[]> {
+    return this.run('standings', leagueId, async (provider) => {
+      const standings = (await provider.getStandings?.(leagueId)) ?? [];
+      if (provider.id === CANONICAL_PROVIDER_ID) {
+        for (const entry of standings) this.learnTeam(entry.team);
+        return standings;
+      }
+      return standings.map((entry) => ({ ...entry, team: { ...entry.team, id: this.canonicalTeam(entry.team).id } }));
+    });
+  }
+
+  getMatch(matchId: string): Promise<Match | null> {
+    return this.run('match', undefined, async (provider) => {
+      const match = await provider.getMatch(matchId);
+      return match ? (await this.canonicalMatches(provider, [match]))[0] : null;
+    });
+  }
+
+  getToday(leagueIds: string[], options?: { dateYmd?: string }): Promise<Match[]> {
+    return this.runGrouped('today', leagueIds, async (provider, ids) =>
+      this.canonicalMatches(provider, await provider.getToday(ids, options)));
+  }
+
+  getLive(leagueIds: string[]): Promise<Match[]> {
+    return this.runGrouped('live', leagueIds, async (provider, ids) =>
+      this.canonicalMatches(provider, (await provider.getLive?.(ids)) ?? []));
+  }
+
+  getLeagueTeams(leagueId: string): Promise<Team[]> {
+    return this.run('teams', leagueId, async (provider) => (await provider.getLeagueTeams?.(leagueId)) ?? []);
+  }
+
+  getLeagueHistory(leagueId: string, seasons: number): Promise<Match[]> {
+    return this.run('history', leagueId, async (provider) =>
+      this.canonicalMatches(provider, (await provider.getLeagueHistory?.(leagueId, seasons)) ?? []));
+  }
+
+  consumeRuntimeMeta(): ProviderRuntimeMeta {
+    const metas = Array.from(this.instances.values())
+      .map((provider) => provider.consumeRuntimeMeta?.())
+      .filter((meta): meta is ProviderRuntimeMeta => Boolean(meta));
+    return mergeRuntimeMeta(metas);
+  }
+}
+
+/**
+ * Build the provider chain commands should use, from config + secrets.
+ */
+export function createProviderChain(options: {
+  apiKey?: string;
+  proxyToken?: string;
+  config?: (Pick<Config, 'providers'> & Partial<Pick<Config, 'favorite_teams'>>) | null;
+}): ProviderChain {
+  return new ProviderChain({
+    apiKey: options.apiKey,
+    proxyToken: options.proxyToken,
+    chain: options.config?.providers,
+    teams: options.config?.favorite_teams,
+  });
+}
@@ -410,6 +410,31 @@ async function fetchLnrOfficialFixtures(
   return fixtures;
 }
 
+const LNR_SOURCE_URLS: Record<string, string> = {
+  [TOP14_LEAGUE_ID]: TOP14_SOURCE_URL,
+  [PRO_D2_LEAGUE_ID]: PRO_D2_SOURCE_URL,
+};
+
+/**
+ * League IDs covered by the LNR sites (Top 14, Pro D2).
+ */
+export function getLnrLeagueIds(): string[] {
+  return Object.keys(LNR_SOURCE_URLS);
+}
+
+/**
+ * Fixtures for one LNR league, scraped from its site.
+ */
+export async function fetchLnrLeagueFixtures(
+  leagueId: string,
+  fetchFn: typeof fetch = fetch,
+  nowMs = Date.now()
+): Promise<OfficialFixture[]> {
+  const sourceUrl = LNR_SOURCE_URLS[leagueId];
+  if (!sourceUrl) throw new Error(`No LNR source for league ${leagueId}`);
+  return fetchLnrOfficialFixtures(sourceUrl, leagueId, fetchFn, nowMs);
+}
+
 export async function fetchTop14OfficialFixtures(
   fetchFn: typeof fetch = fetch,
   nowMs = Date.now()
@@ -424,12 +449,21 @@ export async function fetchProD2OfficialFixtures(
   return fetchLnrOfficialFixtures(PRO_D2_SOURCE_URL, PRO_D2_LEAGUE_ID, fetchFn, nowMs);
 }
 
-interface InCrowdMatch {
+export interface InCrowdTeam {
+  id?: number | string;
+  name?: string | null;
+  shortName?: string | null;
+  score?: number | string | null;
+}
+
+export interface InCrowdMatch {
   id?: number | string;
   date?: string;
+  status?: string | null;
   round?: number | string | null;
-  homeTeam?: { name?: string | null };
-  awayTeam?: { name?: string | null };
+  homeTeam?: InCrowdTeam;
+  awayTeam?: InCrowdTeam;
+  venue?: { name?: string | null };
 }
 
 interface InCrowdMatchesResponse {
@@ -437,11 +471,20 @@ interface InCrowdMatchesResponse {
   data?: InCrowdMatch[];
 }
 
-function resolveInCrowdSeasonIds(games: ApiGameForFallback[]): number[] {
+/**
+ * League IDs covered by the InCrowd rugby-union feed.
+ */
+export function getInCrowdLeagueIds(): string[] {
+  return Object.keys(INCROWD_COMPETITION_IDS);
+}
+
+/**
+ * InCrowd season IDs are `YYYY00`/`YYYY01`; probe both for each year.
+ */
+export function resolveInCrowdSeasonIdsForYears(years: number[]): number[] {
   const seasonIds = new Set<number>();
 
-  for (const game of games) {
-    const year = new Date(game.timestamp * 1000).getUTCFullYear();
+  for (const year of years) {
     seasonIds.add(year * 100);
     seasonIds.add(year * 100 + 1);
     seasonIds.add((year - 1) * 100);
@@ -451,27 +494,30 @@ function resolveInCrowdSeasonIds(games: ApiGameForFallback[]): number[] {
   return Array.from(seasonIds).sort((a, b) => a - b);
 }
 
-function isUnknownTeamName(name: string): boolean {
+function resolveInCrowdSeasonIds(games: ApiGameForFallback[]): number[] {
+  return resolveInCrowdSeasonIdsForYears(
+    games.map((game) => new Date(game.timestamp * 1000).getUTCFullYear())
+  );
+}
+
+export function isUnknownTeamName(name: string): boolean {
   const normalized = normalizeText(name);
   return normalized === 'tbc' || normalized === 'to be confirmed';
 }
 
-export async function fetchInCrowdOfficialFixtures(
+/**
+ * Fetch raw InCrowd matches for a league across the given seasons.
+ * Throws when every season request fails; unsupported leagues return [].
+ */
+export async function fetchInCrowdMatches(
   leagueId: string,
-  games: ApiGameForFallback[],
-  fetchFn: typeof fetch = fetch,
-  nowMs = Date.now()
-): Promise<OfficialFixture[]> {
-  if (games.length === 0) return [];
+  seasonIds: number[],
+  fetchFn: typeof fetch = fetch
+): Promise<InCrowdMatch[]> {
   const competitionId = INCROWD_COMPETITION_IDS[leagueId];
   if (!competitionId) return [];
 
-  const seasonIds = resolveInCrowdSeasonIds(games);
-  const cacheKey = `incrowd:${leagueId}:${seasonIds.join(',')}`;
-  const cached = getCachedFixtures(cacheKey, nowMs);
-  if (cached) return cached;
-
-  const fixturesById = new Map<string, OfficialFixture>();
+  const matchesById = new Map<string, InCrowdMatch>();
   let requestSucceeded = false;
 
   for (const seasonId of seasonIds) {
@@ -494,24 +540,9 @@ export async function fetchInCrowdOfficialFixtures(
     const matches = Array.isArray(payload.data) ? payload.data : [];
 
     for (const match of matches) {
-      const home = match.homeTeam?.name?.trim();
-      const away = match.awayTeam?.name?.trim();
-      const kickoffIso = match.date;
       const sourceId = String(match.id || '');
-      if (!home || !away || !kickoffIso || !sourceId) continue;
-      if (isUnknownTeamName(home) || isUnknownTeamName(away)) continue;
-
-      const kickoffMs = Date.parse(kickoffIso);
-      if (!Number.isFinite(kickoffMs)) continue;
-
-      fixturesById.set(sourceId, {
-        sourceId,
-        home,
-        away,
-        kickoffMs,
-        round: extractRound(match.round),
-        leagueId,
-      });
+      if (!sourceId) continue;
+      matchesById.set(sourceId, match);
     }
   }
 
@@ -519,7 +550,47 @@ export async function fetchInCrowdOfficialFixtures(
     throw new Error(`InCrowd source returned non-success for league ${leagueId}`);
   }
 
-  const fixtures = Array.from(fixturesById.values()).sort((a, b) => a.kickoffMs - b.kickoffMs);
+  return Array.from(matchesById.values());
+}
+
+export async function fetchInCrowdOfficialFixtures(
+  leagueId: string,
+  games: ApiGameForFallback[],
+  fetchFn: typeof fetch = fetch,
+  nowMs = Date.now()
+): Promise<OfficialFixture[]> {
+  if (games.length === 0) return [];
+  if (!INCROWD_COMPETITION_IDS[leagueId]) return [];
+
+  const seasonIds = resolveInCrowdSeasonIds(games);
+  const cacheKey = `incrowd:${leagueId}:${seasonIds.join(',')}`;
+  const cached = getCachedFixtures(cacheKey, nowMs);
+  if (cached) return cached;
+
+  const fixtures: OfficialFixture[] = [];
+
+  for (const match of await fetchInCrowdMatches(leagueId, seasonIds, fetchFn)) {
+    const home = match.homeTeam?.name?.trim();
+    const away = match.awayTeam?.name?.trim();
+    const kickoffIso = match.date;
+    const sourceId = String(match.id || '');
+    if (!home || !away || !kickoffIso || !sourceId) continue;
+    if (isUnknownTeamName(home) || isUnknownTeamName(away)) continue;
+
+    const kickoffMs = Date.parse(kickoffIso);
+    if (!Number.isFinite(kickoffMs)) continue;
+
+    fixtures.push({
+      sourceId,
+      home,
+      away,
+      kickoffMs,
+      round: extractRound(match.round),
+      leagueId,
+    });
+  }
+
+  fixtures.sort((a, b) => a.kickoffMs - b.kickoffMs);
   setCachedFixtures(cacheKey, fixtures, nowMs);
   return fixtures;
 }
@@ -539,11 +610,20 @@ interface UrcGraphqlResponse {
   data?: { matches?: UrcGraphqlMatch[] };
 }
 
-function resolveUrcSeasonIds(games: ApiGameForFallback[]): number[] {
+/**
+ * League IDs covered by the URC GraphQL API.
+ */
+export function getUrcLeagueIds(): string[] {
+  return [URC_LEAGUE_ID];
+}
+
+/**
+ * URC season IDs are `YYYY01`, named after the year the season starts.
+ */
+export function resolveUrcSeasonIdsForYears(years: number[]): number[] {
   const ids = new Set<number>();
 
-  for (const game of games) {
-    const year = new Date(game.timestamp * 1000).getUTCFullYear();
+  for (const year of years) {
     ids.add(year * 100 + 1);
     ids.add((year - 1) * 100 + 1);
   }
@@ -551,13 +631,27 @@ function resolveUrcSeasonIds(games: ApiGameForFallback[]): number[] {
   return Array.from(ids).sort((a, b) => a - b);
 }
 
+function resolveUrcSeasonIds(games: ApiGameForFallback[]): number[] {
+  return resolveUrcSeasonIdsForYears(games.map((game) => new Date(game.timestamp * 1000).getUTCFullYear()));
+}
+
 export async function fetchUrcOfficialFixtures(
   games: ApiGameForFallback[],
   fetchFn: typeof fetch = fetch,
   nowMs = Date.now()
 ): Promise<OfficialFixture[]> {
   if (games.length === 0) return [];
-  const seasonIds = resolveUrcSeasonIds(games);
+  return fetchUrcSeasonFixtures(resolveUrcSeasonIds(games), fetchFn, nowMs);
+}
+
+/**
+ * URC fixtures for the given seasons from the URC GraphQL API.
+ */
+export async function fetchUrcSeasonFixtures(
+  seasonIds: number[],
+  fetchFn: typeof fetch = fetch,
+  nowMs = Date.now()
+): Promise<OfficialFixture[]> {
   const cacheKey = `urc:${seasonIds.join(',')}`;
   const cached = getCachedFixtures(cacheKey, nowMs);
   if (cached) return cached;
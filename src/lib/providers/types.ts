@@ -1,5 +1,34 @@
 import type { Match, Team, StandingsEntry } from '../../types/index.js';
 
+/**
+ * Operations a provider can serve. Used by the registry to decide which
+ * providers in a chain are eligible for a given call.
+ */
+export type ProviderOperation =
+  | 'search'
+  | 'fixtures'
+  | 'results'
+  | 'standings'
+  | 'match'
+  | 'today'
+  | 'live'
+  | 'teams'
+  | 'history';
+
+export interface ProviderCapabilities {
+  operations: readonly ProviderOperation[];
+  /** League IDs the provider covers. Omit when it covers every league. */
+  leagueIds?: readonly string[];
+}
+
+export interface ProviderRuntimeMeta {
+  traceId: string | null;
+  traceIds: string[];
+  staleFallback: boolean;
+  cachedAt: string | null;
+  staleFallbackCount: number;
+}
+
 /**
  * Provider interface for rugby data sources.
  *
@@ -7,9 +36,13 @@ import type { Match, Team, StandingsEntry } from '../../types/index.js';
  * - Handle rate limiting internally
  * - Normalize responses to Match/Team types
  * - Throw ProviderError for API failures
+ * - Declare supported operations/leagues in `capabilities`
  */
 export interface Provider {
+  /** Stable registry ID used in config (e.g. "apisports"). */
+  readonly id: string;
   readonly name: string;
+  readonly capabilities: ProviderCapabilities;
 
   /**
    * Search for teams by name.
@@ -20,8 +53,9 @@ export interface Provider {
    * Get upcoming fixtures for a league.
    * @param leagueId - The league ID
    * @param days - Number of days ahead to fetch (default: 14)
+   * @param options - See FixtureOptions
    */
-  getLeagueFixtures(leagueId: string, days?: number): Promise<Match[]>;
+  getLeagueFixtures(leagueId: string, days?: number, options?: FixtureOptions): Promise<Match[]>;
 
   /**
    * Get recent results for a league.
@@ -52,6 +86,54 @@ export interface Provider {
    * Returns empty array if not supported.
    */
   getLive?(leagueIds: string[]): Promise<Match[]>;
+
+  /**
+   * Get all teams in a league for the current season.
+   */
+  getLeagueTeams?(leagueId: string): Promise<Team[]>;
+
+  /**
+   * Get finished matches for a league over recent seasons.
+   * @param leagueId - The league ID
+   * @param seasons - Number of seasons to cover, current season included
+   */
+  getLeagueHistory?(leagueId: string, seasons: number): Promise<Match[]>;
+
+  /**
+   * Drain trace IDs and stale-fallback markers collected since the last call.
+   */
+  consumeRuntimeMeta?(): ProviderRuntimeMeta;
+}
+
+/**
+ * Check whether a provider declares support for an operation (and league).
+ */
+export function providerSupports(
+  provider: Pick<Provider, 'capabilities'>,
+  operation: ProviderOperation,
+  leagueId?: string
+): boolean {
+  const { operations, leagueIds } = provider.capabilities;
+  if (!operations.includes(operation)) return false;
+  if (!leagueId || !leagueIds) return true;
+  return leagueIds.includes(leagueId);
+}
+
+/**
+ * Options for fixture lookups.
+ */
+export interface FixtureOptions {
+  /** Keep upcoming postponed and cancelled matches, so calendars can mark them. */
+  includeCalledOff?: boolean;
+}
+
+/**
+ * Whether a match belongs in an upcoming fixtures list.
+ */
+export function isUpcomingFixture(match: Match, now: number, options: FixtureOptions = {}): boolean {
+  if (match.timestamp <= now) return false;
+  if (match.status === 'scheduled') return true;
+  return Boolean(options.includeCalledOff) && (match.status === 'postponed' || match.status === 'cancelled');
 }
 
 export class ProviderError extends Error {
@@ -73,6 +155,7 @@ export type ProviderErrorCode =
   | 'NOT_FOUND'
   | 'NETWORK_ERROR'
   | 'PARSE_ERROR'
+  | 'UNSUPPORTED'
   | 'UNKNOWN';
 
 /**
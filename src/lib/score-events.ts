@@ -0,0 +1,111 @@
+import type { Match, ScoreEvent, ScoreEventKind } from '../types/index.js';
+
+/** Trailing by more than a converted try is a two-score game. */
+const COMEBACK_DEFICIT = 8;
+
+const KIND_BY_POINTS: Record<number, ScoreEventKind> = {
+  5: 'try',
+  7: 'converted_try',
+  3: 'penalty_or_drop_goal',
+  2: 'conversion',
+};
+
+export interface Score {
+  home: number;
+  away: number;
+}
+
+export type Deficits = Score;
+
+function leader(score: Score): 'home' | 'away' | null {
+  if (score.home === score.away) return null;
+  return score.home > score.away ? 'home' : 'away';
+}
+
+/**
+ * Largest margin each side has trailed by, including `score`.
+ */
+export function updateDeficits(deficits: Deficits | undefined, score: Score): Deficits {
+  return {
+    home: Math.max(deficits?.home ?? 0, score.away - score.home),
+    away: Math.max(deficits?.away ?? 0, score.home - score.away),
+  };
+}
+
+/**
+ * Infer what happened between two scores of the same match. Single scores
+ * map from the points: 5 try, 7 converted try, 3 penalty or drop goal,
+ * 2 conversion. Anything else (several scores between polls, both teams
+ * scoring) is `multiple`; a score going down is a `correction`.
+ *
+ * `deficits` are the largest margins each side trailed by before this
+ * change; a side that trailed by two scores and is now level or ahead has
+ * come back.
+ */
+export function inferScoreEvent(
+  previous: Score,
+  current: Score,
+  match: Pick<Match, 'homeTeam' | 'awayTeam'>,
+  deficits?: Deficits
+): ScoreEvent | null {
+  const homeDelta = current.home - previous.home;
+  const awayDelta = current.away - previous.away;
+  if (homeDelta === 0 && awayDelta === 0) return null;
+
+  if (homeDelta < 0 || awayDelta < 0) {
+    return { kind: 'correction', team: null, points: homeDelta + awayDelta, lead_change: false, comeback: false };
+  }
+
+  const team = homeDelta > 0 && awayDelta > 0 ? null : homeDelta > 0 ? 'home' : 'away';
+  const points = homeDelta + awayDelta;
+  const kind = team ? KIND_BY_POINTS[points] ?? 'multiple' : 'multiple';
+
+  const before = leader(previous);
+  const after = leader(current);
+  const leadChange = before !== null && after !== null && before !== after;
+
+  // Comeback: trailed by two scores at some point, level or ahead now
+  const opponent = team === 'home' ? 'away' : team === 'away' ? 'home' : null;
+  const margin = team === 'home' ? previous.away - previous.home : previous.home - previous.away;
+  const trailedBy = team ? Math.max(deficits?.[team] ?? 0, margin) : 0;
+  const comeback = opponent !== null && before === opponent && after !== opponent && trailedBy >= COMEBACK_DEFICIT;
+
+  return {
+    kind,
+    team,
+    team_name: team ? (team === 'home' ? match.homeTeam.name : match.awayTeam.name) : undefined,
+    points,
+    lead_change: leadChange,
+    comeback,
+    deficit: comeback ? trailedBy : undefined,
+  };
+}
+
+const KIND_LABELS: Record<ScoreEventKind, string> = {
+  try: 'Try',
+  converted_try: 'Converted try',
+  penalty_or_drop_goal: 'Penalty or drop goal',
+  conversion: 'Conversion',
+  multiple: 'Points',
+  correction: 'Score corrected',
+};
+
+/**
+ * "Try Stade Toulousain! Stade Toulousain 17-15 Racing 92 · comeback from 10 down"
+ */
+export function formatScoreEvent(event: ScoreEvent, match: Pick<Match, 'homeTeam' | 'awayTeam'>, score: Score): string {
+  const line = `${match.homeTeam.name} ${score.home}-${score.away} ${match.awayTeam.name}`;
+  const label = KIND_LABELS[event.kind];
+
+  let prefix: string;
+  if (event.kind === 'correction') prefix = `${label}:`;
+  else if (!event.team_name) prefix = `${label} for both teams:`;
+  else if (event.kind === 'multiple') prefix = `${event.points} points for ${event.team_name}!`;
+  else prefix = `${label} ${event.team_name}!`;
+
+  let flag = '';
+  if (event.comeback) flag = ` · comeback from ${event.deficit} down`;
+  else if (event.lead_change && event.team_name) flag = ` · ${event.team_name} take the lead`;
+
+  return `🏉 ${prefix} ${line}${flag}`;
+}
@@ -0,0 +1,272 @@
+import { randomUUID } from 'node:crypto';
+import { connect as connectTcp, type Socket } from 'node:net';
+import { hostname } from 'node:os';
+import { connect as connectTls } from 'node:tls';
+import type { SmtpSecurity } from '../types/index.js';
+
+const SMTP_TIMEOUT_MS = 15_000;
+const BASE64_LINE_LENGTH = 76;
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port?: number;
+  /** `tls` connects encrypted (port 465), `starttls` upgrades and requires it, `none` stays plain. */
+  security?: SmtpSecurity;
+  username?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * An SMTP conversation that failed. `transient` follows the reply code:
+ * 4xx replies and dropped connections may succeed later, 5xx won't.
+ */
+export class SmtpError extends Error {
+  constructor(message: string, readonly transient: boolean, readonly code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export function getSmtpSecurity(options: Pick<SmtpOptions, 'port' | 'security'>): SmtpSecurity {
+  return options.security ?? (options.port === 465 ? 'tls' : 'starttls');
+}
+
+export function getSmtpPort(options: Pick<SmtpOptions, 'port' | 'security'>): number {
+  return options.port ?? (getSmtpSecurity(options) === 'tls' ? 465 : 587);
+}
+
+/** Strip CR/LF so values can't inject headers or SMTP commands. */
+function singleLine(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+function encodeHeader(value: string): string {
+  const line = singleLine(value);
+  // RFC 2047 encoded-word for anything beyond printable ASCII (emoji, accents)
+  return /^[\x20-\x7e]*$/.test(line) ? line : `=?UTF-8?B?${Buffer.from(line, 'utf8').toString('base64')}?=`;
+}
+
+function encodeBody(content: string): string {
+  const base64 = Buffer.from(content.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64');
+  return base64.match(new RegExp(`.{1,${BASE64_LINE_LENGTH}}`, 'g'))?.join('\r\n') ?? '';
+}
+
+/**
+ * multipart/alternative message with a plain-text and an HTML part, both
+ * base64 so long lines and UTF-8 survive any relay.
+ */
+export function buildMimeMessage(message: MailMessage, date = new Date()): string {
+  const boundary = `rugbyclaw-${randomUUID()}`;
+  const domain = singleLine(message.from).split('@')[1]?.replace(/[^\w.-]/g, '') || 'rugbyclaw.local';
+
+  return [
+    `From: ${singleLine(message.from)}`,
+    `To: ${message.to.map(singleLine).join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+/**
+ * Line-based reader/writer over one SMTP connection. Replies are read in
+ * order; a multi-line reply ("250-...") ends at the line with a space.
+ */
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: (() => void) | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: Socket, private readonly timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  private attach(socket: Socket): void {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs, () => {
+      this.fail(new SmtpError('SMTP server timed out', true));
+      socket.destroy();
+    });
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      const parts = this.buffer.split('\r\n');
+      this.buffer = parts.pop() ?? '';
+      this.lines.push(...parts);
+      this.wake();
+    });
+    socket.on('error', (error) => this.fail(new SmtpError(error.message, true)));
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed', true)));
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.wake();
+  }
+
+  private wake(): void {
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting?.();
+  }
+
+  private async nextLine(): Promise<string> {
+    while (this.lines.length === 0) {
+      if (this.failure) throw this.failure;
+      await new Promise<void>((resolve) => {
+        this.waiting = resolve;
+      });
+    }
+    return this.lines.shift() as string;
+  }
+
+  async read(): Promise<SmtpReply> {
+    const lines: string[] = [];
+    for (;;) {
+      const line = await this.nextLine();
+      lines.push(line.slice(4));
+      if (line.charAt(3) !== '-') {
+        return { code: Number(line.slice(0, 3)), lines };
+      }
+    }
+  }
+
+  /** Send a command and expect one of `expected` reply codes. */
+  async command(line: string | null, expected: number[], label = line?.split(' ')[0] ?? 'greeting'): Promise<SmtpReply> {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`.trim(), reply.code < 500, reply.code);
+    }
+    return reply;
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  /** Swap the plain socket for TLS after STARTTLS. */
+  async upgrade(servername: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.setTimeout(0);
+    const secure = connectTls({ socket: plain, servername });
+    await waitForConnect(secure, 'secureConnect', this.timeoutMs);
+    this.attach(secure);
+  }
+
+  close(): void {
+    this.socket.end();
+    this.socket.destroy();
+  }
+}
+
+/** Wait for the (TLS) connection, giving up after `timeoutMs` like a command read. */
+function waitForConnect(socket: Socket, event: 'connect' | 'secureConnect', timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    socket.setTimeout(timeoutMs, () => {
+      reject(new SmtpError('SMTP connection timed out', true));
+      socket.destroy();
+    });
+    socket.once(event, () => {
+      socket.setTimeout(0);
+      resolve();
+    });
+    socket.once('error', (error) => reject(new SmtpError(error.message, true)));
+  });
+}
+
+function capabilities(reply: SmtpReply): string[] {
+  return reply.lines.slice(1).map((line) => line.toUpperCase());
+}
+
+function clientName(): string {
+  return hostname().replace(/[^\w.-]/g, '') || 'localhost';
+}
+
+/**
+ * Send one message. Credentials are only sent over an encrypted connection
+ * unless `security` is explicitly `none` (a local relay).
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  const security = getSmtpSecurity(options);
+  const port = getSmtpPort(options);
+  const timeoutMs = options.timeoutMs ?? SMTP_TIMEOUT_MS;
+  const host = options.host;
+
+  const socket = security === 'tls'
+    ? connectTls({ host, port, servername: host })
+    : connectTcp({ host, port });
+  await waitForConnect(socket, security === 'tls' ? 'secureConnect' : 'connect', timeoutMs);
+
+  const smtp = new SmtpConnection(socket, timeoutMs);
+  try {
+    await smtp.command(null, [220]);
+    let ehlo = await smtp.command(`EHLO ${clientName()}`, [250]);
+
+    if (security === 'starttls') {
+      if (!capabilities(ehlo).includes('STARTTLS')) {
+        throw new SmtpError(`${host} does not offer STARTTLS; set "security": "tls" or "none".`, false);
+      }
+      await smtp.command('STARTTLS', [220]);
+      await smtp.upgrade(host);
+      ehlo = await smtp.command(`EHLO ${clientName()}`, [250]);
+    }
+
+    if (options.username && options.password) {
+      const auth = capabilities(ehlo).find((line) => line.startsWith('AUTH')) ?? '';
+      if (/\bPLAIN\b/.test(auth) || !/\bLOGIN\b/.test(auth)) {
+        const token = Buffer.from(`\0${options.username}\0${options.password}`, 'utf8').toString('base64');
+        await smtp.command(`AUTH PLAIN ${token}`, [235], 'AUTH');
+      } else {
+        await smtp.command('AUTH LOGIN', [334], 'AUTH');
+        await smtp.command(Buffer.from(options.username, 'utf8').toString('base64'), [334], 'AUTH');
+        await smtp.command(Buffer.from(options.password, 'utf8').toString('base64'), [235], 'AUTH');
+      }
+    }
+
+    await smtp.command(`MAIL FROM:<${singleLine(message.from).replace(/^.*<|>.*$/g, '')}>`, [250], 'MAIL FROM');
+    for (const recipient of message.to) {
+      await smtp.command(`RCPT TO:<${singleLine(recipient).replace(/^.*<|>.*$/g, '')}>`, [250, 251], 'RCPT TO');
+    }
+    await smtp.command('DATA', [354]);
+    // Dot-stuffing: a line starting with "." gets another one
+    smtp.write(`${buildMimeMessage(message).replace(/^\./gm, '..')}\r\n.\r\n`);
+    await smtp.command(null, [250], 'DATA');
+    await smtp.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    smtp.close();
+  }
+}
@@ -0,0 +1,157 @@
+import type { Match, StandingsEntry, StandingsImpact, StandingsSnapshot } from '../types/index.js';
+import { getPointsRules } from './leagues.js';
+import { formatOrdinal } from '../render/digest.js';
+
+type Result = StandingsImpact['result'];
+
+function resultFor(match: Match, teamId: string): { result: Result; margin: number } | null {
+  if (!match.score) return null;
+  const isHome = match.homeTeam.id === teamId;
+  const margin = isHome ? match.score.home - match.score.away : match.score.away - match.score.home;
+  return { result: margin > 0 ? 'win' : margin < 0 ? 'loss' : 'draw', margin };
+}
+
+function matchPoints(match: Match, result: Result): number {
+  return getPointsRules(match.league.id)[result];
+}
+
+function hasLosingBonus(match: Match, result: Result, margin: number): boolean {
+  return result === 'loss' && -margin <= getPointsRules(match.league.id).losingBonusMargin;
+}
+
+/**
+ * Whether the table already counts `match` for a team: it has played as
+ * many games as the team's finished league results, this match included
+ * (cached results may not have it yet).
+ */
+export function isStandingsUpdated(entry: StandingsEntry, results: Match[], match: Match, teamId: string): boolean {
+  const earlier = results.filter(
+    (m) => m.id !== match.id && m.status === 'finished' && (m.homeTeam.id === teamId || m.awayTeam.id === teamId)
+  ).length;
+  return entry.played >= earlier + 1;
+}
+
+/**
+ * Table as it should look once `match` is counted: both teams get the
+ * match points and losing bonus (try bonuses can't be known from the score),
+ * then teams are re-ranked by points and points difference.
+ */
+export function projectStandings(table: StandingsEntry[], match: Match): StandingsEntry[] {
+  const projected = table.map((entry) => {
+    const outcome = resultFor(match, entry.team.id);
+    if (!outcome || (entry.team.id !== match.homeTeam.id && entry.team.id !== match.awayTeam.id)) {
+      return { ...entry };
+    }
+    const bonus = hasLosingBonus(match, outcome.result, outcome.margin) ? 1 : 0;
+    return {
+      ...entry,
+      played: entry.played + 1,
+      points: entry.points + matchPoints(match, outcome.result) + bonus,
+      points_diff: entry.points_diff + outcome.margin,
+      bonus_points_losing: entry.bonus_points_losing === undefined ? undefined : entry.bonus_points_losing + bonus,
+    };
+  });
+
+  return projected
+    .sort((a, b) => b.points - a.points || b.points_diff - a.points_diff || a.position - b.position)
+    .map((entry, index) => ({ ...entry, position: index + 1 }));
+}
+
+/**
+ * Snapshot of a team's row, to diff against once the table is updated.
+ */
+export function snapshotEntry(entry: StandingsEntry): StandingsSnapshot {
+  return {
+    played: entry.played,
+    points: entry.points,
+    position: entry.position,
+    bonus_points_try: entry.bonus_points_try,
+    bonus_points_losing: entry.bonus_points_losing,
+  };
+}
+
+/**
+ * Impact of a finished match on one team. With `before` (the row ahead of
+ * the match) and an updated `after`, bonus points come from the table:
+ * the try/losing columns when the provider reports them, else the points
+ * gained beyond the result. Without an updated table, the impact is
+ * projected and the try bonus is unknown (null).
+ */
+export function buildStandingsImpact(
+  match: Match,
+  teamId: string,
+  table: StandingsEntry[],
+  options: { updated: boolean; before?: StandingsSnapshot }
+): StandingsImpact | null {
+  const outcome = resultFor(match, teamId);
+  const current = table.find((entry) => entry.team.id === teamId);
+  if (!outcome || !current) return null;
+
+  const team = match.homeTeam.id === teamId ? match.homeTeam.name : match.awayTeam.name;
+  const base = {
+    league: match.league.name,
+    team,
+    result: outcome.result,
+    match_points: matchPoints(match, outcome.result),
+  };
+
+  if (!options.updated) {
+    const projected = projectStandings(table, match).find((entry) => entry.team.id === teamId);
+    if (!projected) return null;
+    return {
+      ...base,
+      bonus_try: null,
+      bonus_losing: hasLosingBonus(match, outcome.result, outcome.margin),
+      points: projected.points,
+      position: projected.position,
+      previous_position: current.position,
+      projected: true,
+    };
+  }
+
+  const before = options.before;
+  let bonusTry: boolean | null = null;
+  let bonusLosing = hasLosingBonus(match, outcome.result, outcome.margin);
+
+  if (before && current.bonus_points_try !== undefined && before.bonus_points_try !== undefined) {
+    bonusTry = current.bonus_points_try > before.bonus_points_try;
+  }
+  if (before && current.bonus_points_losing !== undefined && before.bonus_points_losing !== undefined) {
+    bonusLosing = current.bonus_points_losing > before.bonus_points_losing;
+  }
+  if (before && bonusTry === null) {
+    // Points beyond the result are bonus points; a losing bonus takes one
+    const bonus = current.points - before.points - base.match_points;
+    bonusTry = bonus - (bonusLosing ? 1 : 0) > 0;
+  }
+
+  return {
+    ...base,
+    bonus_try: bonusTry,
+    bonus_losing: bonusLosing,
+    points: current.points,
+    position: current.position,
+    previous_position: before?.position,
+    projected: false,
+  };
+}
+
+/**
+ * "📊 Toulouse: win + try bonus (5 pts) · now 1st in Top 14 (was 3rd), 42 pts"
+ */
+export function formatStandingsImpact(impact: StandingsImpact): string {
+  const bonuses: string[] = [];
+  if (impact.bonus_try) bonuses.push('try bonus');
+  if (impact.bonus_losing) bonuses.push('losing bonus');
+
+  const earned = impact.match_points + bonuses.length;
+  let result = [impact.result, ...bonuses].join(' + ');
+  result += ` (${earned === 1 ? '1 pt' : `${earned} pts`}${impact.bonus_try === null && impact.projected ? ', try bonus TBC' : ''})`;
+
+  const was = impact.previous_position !== undefined && impact.previous_position !== impact.position
+    ? ` (was ${formatOrdinal(impact.previous_position)})`
+    : '';
+  const where = `${impact.projected ? 'projected' : 'now'} ${formatOrdinal(impact.position)} in ${impact.league}${was}, ${impact.points} pts`;
+
+  return `📊 ${impact.team}: ${result} · ${where}`;
+}
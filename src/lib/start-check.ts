@@ -1,14 +1,14 @@
 import chalk from 'chalk';
 import {
-  DEFAULT_PROXY_LEAGUES,
-  getEffectiveLeagues,
   getEffectiveTimeZone,
   loadConfig,
   loadSecrets,
 } from './config.js';
 import { getTodayYMD } from './datetime.js';
 import { LEAGUES } from './leagues.js';
-import { ApiSportsProvider, fetchProxyStatus } from './providers/apisports.js';
+import { fetchProxyStatus } from './providers/apisports.js';
+import { getLeagueAccess } from './free-mode.js';
+import { createProviderChain } from './providers/registry.js';
 
 function checkLine(ok: boolean, label: string, detail?: string): string {
   const icon = ok ? chalk.green('✓') : chalk.red('✗');
@@ -22,10 +22,10 @@ export async function runStartPostSetupCheck(): Promise<void> {
     const secrets = await loadSecrets();
     const hasApiKey = Boolean(secrets?.api_key);
     const mode: 'direct' | 'proxy' = hasApiKey ? 'direct' : 'proxy';
-    const provider = new ApiSportsProvider(secrets?.api_key);
+    const provider = createProviderChain({ apiKey: secrets?.api_key, proxyToken: secrets?.proxy_token, config });
     const timeZone = getEffectiveTimeZone(config);
     const dateYmd = getTodayYMD(timeZone);
-    const effectiveLeagues = hasApiKey ? await getEffectiveLeagues() : DEFAULT_PROXY_LEAGUES;
+    const effectiveLeagues = (await getLeagueAccess(config, secrets)).effective;
     const firstLeague = effectiveLeagues
       .map((slug) => ({ slug, id: LEAGUES[slug]?.id, name: LEAGUES[slug]?.name }))
       .find((league) => Boolean(league.id && league.name));
@@ -37,7 +37,7 @@ export async function runStartPostSetupCheck(): Promise<void> {
     let ok = true;
 
     if (mode === 'proxy') {
-      const status = await fetchProxyStatus();
+      const status = await fetchProxyStatus(secrets?.proxy_token);
       if (!status) {
         ok = false;
         lines.push(checkLine(false, 'Proxy status check', '(unreachable right now)'));
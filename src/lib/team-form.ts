@@ -0,0 +1,97 @@
+import type { Match, StandingsEntry, TeamFormSplit, TeamFormStats } from '../types/index.js';
+import { getPointsRules } from './leagues.js';
+
+type Outcome = 'W' | 'D' | 'L';
+
+function emptySplit(): TeamFormSplit {
+  return { played: 0, won: 0, drawn: 0, lost: 0, points_for: 0, points_against: 0 };
+}
+
+function addToSplit(split: TeamFormSplit, outcome: Outcome, pointsFor: number, pointsAgainst: number): void {
+  split.played += 1;
+  if (outcome === 'W') split.won += 1;
+  if (outcome === 'D') split.drawn += 1;
+  if (outcome === 'L') split.lost += 1;
+  split.points_for += pointsFor;
+  split.points_against += pointsAgainst;
+}
+
+function longestRun(outcomes: Outcome[], target: Outcome): number {
+  let longest = 0;
+  let run = 0;
+  for (const outcome of outcomes) {
+    run = outcome === target ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+  return longest;
+}
+
+/**
+ * Season form for one team from its finished matches.
+ *
+ * Try bonus points can't be derived from scores, so they come from the
+ * team's standings rows when the league reports them.
+ */
+export function buildTeamForm(
+  matches: Match[],
+  teamId: string,
+  standings: StandingsEntry[] = []
+): TeamFormStats {
+  const played = matches
+    .filter((m): m is Match & { score: NonNullable<Match['score']> } => m.status === 'finished' && Boolean(m.score))
+    .filter((m) => m.homeTeam.id === teamId || m.awayTeam.id === teamId)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const home = emptySplit();
+  const away = emptySplit();
+  const outcomes: Outcome[] = [];
+  let losingBonus = 0;
+
+  for (const match of played) {
+    const isHome = match.homeTeam.id === teamId;
+    const pointsFor = isHome ? match.score.home : match.score.away;
+    const pointsAgainst = isHome ? match.score.away : match.score.home;
+    const outcome: Outcome = pointsFor > pointsAgainst ? 'W' : pointsFor < pointsAgainst ? 'L' : 'D';
+
+    outcomes.push(outcome);
+    addToSplit(isHome ? home : away, outcome, pointsFor, pointsAgainst);
+    if (outcome === 'L' && pointsAgainst - pointsFor <= getPointsRules(match.league.id).losingBonusMargin) {
+      losingBonus += 1;
+    }
+  }
+
+  const last = outcomes[outcomes.length - 1];
+  let currentLength = 0;
+  for (let i = outcomes.length - 1; i >= 0 && outcomes[i] === last; i -= 1) currentLength += 1;
+
+  const rows = standings.filter((entry) => entry.team.id === teamId);
+  const tryBonus = rows.some((entry) => entry.bonus_points_try !== undefined)
+    ? rows.reduce((sum, entry) => sum + (entry.bonus_points_try ?? 0), 0)
+    : undefined;
+  const totalBonus = rows.some((entry) => entry.bonus_points !== undefined)
+    ? rows.reduce((sum, entry) => sum + (entry.bonus_points ?? 0), 0)
+    : undefined;
+
+  return {
+    played: outcomes.length,
+    won: home.won + away.won,
+    drawn: home.drawn + away.drawn,
+    lost: home.lost + away.lost,
+    points_for: home.points_for + away.points_for,
+    points_against: home.points_against + away.points_against,
+    points_diff: home.points_for + away.points_for - home.points_against - away.points_against,
+    form: outcomes.join(''),
+    home,
+    away,
+    streaks: {
+      current: last ? { type: last, length: currentLength } : null,
+      longest_win: longestRun(outcomes, 'W'),
+      longest_loss: longestRun(outcomes, 'L'),
+    },
+    bonus_points: {
+      losing: losingBonus,
+      try: tryBonus,
+      total: totalBonus,
+    },
+  };
+}
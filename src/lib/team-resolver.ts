@@ -0,0 +1,130 @@
+import type { Config, Match, Team } from '../types/index.js';
+import type { ProviderChain } from './providers/registry.js';
+import { normalizeText, similarityScore } from './fuzzy.js';
+import { getTeamQueryCandidates } from './team-aliases.js';
+
+export async function getLeagueTeams(
+  provider: ProviderChain,
+  leagueIds: string[]
+): Promise<Map<string, Team>> {
+  const map = new Map<string, Team>();
+  for (const leagueId of leagueIds) {
+    try {
+      const teams = await provider.getLeagueTeams(leagueId);
+      for (const team of teams) {
+        if (!map.has(team.id)) map.set(team.id, team);
+      }
+    } catch {
+      // ignore per-league failures
+    }
+  }
+  return map;
+}
+
+function pickBestTeamId(
+  query: string,
+  candidates: Array<{ id: string; name: string }>
+): string | undefined {
+  let bestId: string | undefined;
+  let bestScore = 0;
+
+  for (const c of candidates) {
+    const score = similarityScore(query, c.name);
+    if (score > bestScore) {
+      bestScore = score;
+      bestId = c.id;
+    }
+  }
+
+  if (bestId && bestScore >= 0.62) return bestId;
+  return undefined;
+}
+
+export function pickBestTeamIdFromQueries(
+  queries: string[],
+  candidates: Array<{ id: string; name: string }>
+): string | undefined {
+  for (const query of queries) {
+    const teamId = pickBestTeamId(query, candidates);
+    if (teamId) return teamId;
+  }
+  return undefined;
+}
+
+export function isWomenTeamName(name: string): boolean {
+  const n = normalizeText(name);
+  if (n.includes(' women') || n.includes(" women's")) return true;
+  if (/\bw\b$/.test(n)) return true;
+  return false;
+}
+
+/**
+ * Resolve a team query (name, alias or ID) to a provider team ID.
+ *
+ * Tries favorites, then a substring match against `matches`, then fuzzy
+ * matching against match teams and league teams, and finally team search
+ * (preferring a result that plays in `matches`).
+ */
+export async function resolveTeamId(
+  nameOrId: string,
+  context: {
+    provider: ProviderChain;
+    config: Pick<Config, 'favorite_teams'>;
+    leagueIds: string[];
+    matches: Match[];
+  }
+): Promise<string | undefined> {
+  const { provider, config, leagueIds, matches } = context;
+  const queryCandidates = getTeamQueryCandidates(nameOrId);
+
+  // First try to find team in favorites
+  const favoriteId = config.favorite_teams.find(
+    (t) =>
+      queryCandidates.some((candidate) => t.id === candidate) ||
+      queryCandidates.some((candidate) => t.name.toLowerCase().includes(candidate.toLowerCase())) ||
+      queryCandidates.some((candidate) => t.slug.includes(candidate.toLowerCase()))
+  )?.id;
+  if (favoriteId) return favoriteId;
+
+  // Then match team name in matches by partial name match
+  for (const match of matches) {
+    if (queryCandidates.some((candidate) => match.homeTeam.name.toLowerCase().includes(candidate.toLowerCase()))) {
+      return match.homeTeam.id;
+    }
+    if (queryCandidates.some((candidate) => match.awayTeam.name.toLowerCase().includes(candidate.toLowerCase()))) {
+      return match.awayTeam.id;
+    }
+  }
+
+  // Fuzzy match against teams seen in matches.
+  const matchCandidates = new Map<string, { id: string; name: string }>();
+  for (const m of matches) {
+    matchCandidates.set(m.homeTeam.id, { id: m.homeTeam.id, name: m.homeTeam.name });
+    matchCandidates.set(m.awayTeam.id, { id: m.awayTeam.id, name: m.awayTeam.name });
+  }
+
+  const fromMatches = pickBestTeamIdFromQueries(queryCandidates, Array.from(matchCandidates.values()));
+  if (fromMatches) return fromMatches;
+
+  // Then try fuzzy match against league teams.
+  const teamsMap = await getLeagueTeams(provider, leagueIds);
+  const fromLeagues = pickBestTeamIdFromQueries(
+    queryCandidates,
+    Array.from(teamsMap.values()).map((t) => ({ id: t.id, name: t.name }))
+  );
+  if (fromLeagues) return fromLeagues;
+
+  // Finally, fall back to API search.
+  let searchResults: Team[] = [];
+  for (const candidate of queryCandidates) {
+    searchResults = await provider.searchTeams(candidate);
+    if (searchResults.length > 0) break;
+  }
+  if (searchResults.length === 0) return undefined;
+
+  // Prefer the first search result that appears in our matches
+  const playing = searchResults.find((team) =>
+    matches.some((m) => m.homeTeam.id === team.id || m.awayTeam.id === team.id)
+  );
+  return (playing ?? searchResults[0]).id;
+}
@@ -0,0 +1,77 @@
+import type { Config, Match, Team } from '../types/index.js';
+import { LEAGUES } from './leagues.js';
+import type { ProviderChain } from './providers/registry.js';
+import { resolveTeamId } from './team-resolver.js';
+
+/** Cup competitions a club can be entered in on top of its league. */
+const CUP_LEAGUE_SLUGS = ['champions_cup', 'challenge_cup'];
+
+export interface TeamSchedule {
+  team: Team;
+  matches: Match[]; // remaining fixtures, soonest first
+}
+
+/**
+ * Leagues to search for a team's fixtures. With an API key the EPCR cups
+ * are included even when they aren't favorites.
+ */
+export function getScheduleLeagueIds(leagueIds: string[], hasApiKey: boolean): string[] {
+  const cupIds = hasApiKey
+    ? CUP_LEAGUE_SLUGS.map((slug) => LEAGUES[slug]?.id).filter(Boolean) as string[]
+    : [];
+  return Array.from(new Set([...leagueIds, ...cupIds]));
+}
+
+/**
+ * Resolve a team and collect every remaining fixture for it across leagues.
+ *
+ * Returns `teamId: undefined` when the team can't be resolved. Per-league
+ * failures are skipped; the first error is rethrown if every league fails.
+ */
+export async function getTeamSchedule(
+  nameOrId: string,
+  context: {
+    provider: ProviderChain;
+    config: Pick<Config, 'favorite_teams'>;
+    leagueIds: string[];
+    includeCalledOff?: boolean; // keep postponed/cancelled fixtures, for calendars
+    now?: number;
+  }
+): Promise<{ teamId?: string; schedule?: TeamSchedule }> {
+  const { provider, config, leagueIds, includeCalledOff } = context;
+
+  const allLeagueFixtures: Match[] = [];
+  let firstError: unknown;
+  let successfulLeagues = 0;
+  for (const leagueId of leagueIds) {
+    try {
+      const fixtures = await provider.getLeagueFixtures(leagueId, undefined, { includeCalledOff });
+      successfulLeagues += 1;
+      allLeagueFixtures.push(...fixtures);
+    } catch (error) {
+      firstError ??= error;
+    }
+  }
+
+  if (successfulLeagues === 0 && firstError !== undefined) {
+    throw firstError;
+  }
+
+  const teamId = await resolveTeamId(nameOrId, { provider, config, leagueIds, matches: allLeagueFixtures });
+  if (!teamId) return {};
+
+  const now = context.now ?? Date.now();
+  const fixtureMap = new Map<string, Match>();
+  for (const m of allLeagueFixtures) {
+    const involvesTeam = m.homeTeam.id === teamId || m.awayTeam.id === teamId;
+    if (involvesTeam && m.timestamp > now && !fixtureMap.has(m.id)) {
+      fixtureMap.set(m.id, m);
+    }
+  }
+  const matches = Array.from(fixtureMap.values()).sort((a, b) => a.timestamp - b.timestamp);
+  if (matches.length === 0) return { teamId };
+
+  const first = matches[0];
+  const team = first.homeTeam.id === teamId ? first.homeTeam : first.awayTeam;
+  return { teamId, schedule: { team, matches } };
+}
@@ -0,0 +1,182 @@
+import type { DigestFormat, DigestStanding, MatchOutput, WeeklyDigest } from '../types/index.js';
+
+export const SECTION_TITLES = {
+  recap: 'Last week',
+  upcoming: 'This week',
+  standings: 'Table',
+} as const;
+
+/**
+ * "Saturday, Nov 7" for a YYYY-MM-DD date (already in the user's timezone).
+ */
+export function formatDayLabel(date: string): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+export function formatOrdinal(position: number): string {
+  const mod100 = position % 100;
+  const suffix = mod100 >= 11 && mod100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][position % 10] ?? 'th';
+  return `${position}${suffix}`;
+}
+
+/**
+ * "▲2", "▼1", "=" or "new" against the previous digest.
+ */
+export function formatMovement(standing: DigestStanding): string {
+  if (standing.previous_position === undefined) return 'new';
+  const change = standing.previous_position - standing.position;
+  if (change > 0) return `▲${change}`;
+  if (change < 0) return `▼${-change}`;
+  return '=';
+}
+
+export function formatResult(match: MatchOutput): string {
+  const score = `${match.home.name} ${match.home.score ?? '-'}-${match.away.score ?? '-'} ${match.away.name}`;
+  return match.summary ? `${match.summary} (${score})` : score;
+}
+
+export function formatFixture(match: MatchOutput): string {
+  const time = match.time || 'TBD';
+  const venue = match.venue ? ` at ${match.venue}` : '';
+  return `${time} ${match.home.name} vs ${match.away.name} (${match.league})${venue}`;
+}
+
+export function formatStanding(standing: DigestStanding): string {
+  const points = standing.points === 1 ? '1 pt' : `${standing.points} pts`;
+  return `${standing.league}: ${standing.team} ${formatOrdinal(standing.position)} (${formatMovement(standing)}), ${points}`;
+}
+
+/**
+ * Plain-text digest: the notification message sent to sinks.
+ */
+export function renderDigestText(digest: WeeklyDigest): string {
+  const lines = ['📅 Weekly rugby digest'];
+
+  if (digest.recap.length > 0) {
+    lines.push('', SECTION_TITLES.recap);
+    for (const match of digest.recap) lines.push(`• ${formatResult(match)}`);
+  }
+  if (digest.upcoming.length > 0) {
+    lines.push('', SECTION_TITLES.upcoming);
+    for (const day of digest.upcoming) {
+      lines.push(formatDayLabel(day.date));
+      for (const match of day.matches) lines.push(`• ${formatFixture(match)}`);
+    }
+  }
+  if (digest.standings.length > 0) {
+    lines.push('', SECTION_TITLES.standings);
+    for (const standing of digest.standings) lines.push(`• ${formatStanding(standing)}`);
+  }
+
+  return lines.join('\n');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|])/g, '\\$1');
+}
+
+/**
+ * Markdown digest, for chat posts and READMEs.
+ */
+export function renderDigestMarkdown(digest: WeeklyDigest): string {
+  const lines = ['# Weekly rugby digest'];
+
+  if (digest.recap.length > 0) {
+    lines.push('', `## ${SECTION_TITLES.recap}`, '');
+    for (const match of digest.recap) lines.push(`- ${escapeMarkdown(formatResult(match))}`);
+  }
+  if (digest.upcoming.length > 0) {
+    lines.push('', `## ${SECTION_TITLES.upcoming}`);
+    for (const day of digest.upcoming) {
+      lines.push('', `### ${formatDayLabel(day.date)}`, '');
+      for (const match of day.matches) lines.push(`- ${escapeMarkdown(formatFixture(match))}`);
+    }
+  }
+  if (digest.standings.length > 0) {
+    lines.push('', `## ${SECTION_TITLES.standings}`, '', '| League | Team | Position | Change | Points |', '| --- | --- | ---: | :---: | ---: |');
+    for (const standing of digest.standings) {
+      lines.push(
+        `| ${escapeMarkdown(standing.league)} | ${escapeMarkdown(standing.team)} | ${standing.position} | ${formatMovement(standing)} | ${standing.points} |`
+      );
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Standalone HTML document, with inline styles so it survives email clients.
+ */
+export function renderDigestHtml(digest: WeeklyDigest): string {
+  const body: string[] = ['<h1 style="font-size:20px">Weekly rugby digest</h1>'];
+
+  if (digest.recap.length > 0) {
+    body.push(`<h2 style="font-size:16px">${SECTION_TITLES.recap}</h2>`, '<ul>');
+    for (const match of digest.recap) body.push(`<li>${escapeHtml(formatResult(match))}</li>`);
+    body.push('</ul>');
+  }
+  if (digest.upcoming.length > 0) {
+    body.push(`<h2 style="font-size:16px">${SECTION_TITLES.upcoming}</h2>`);
+    for (const day of digest.upcoming) {
+      body.push(`<h3 style="font-size:14px">${escapeHtml(formatDayLabel(day.date))}</h3>`, '<ul>');
+      for (const match of day.matches) body.push(`<li>${escapeHtml(formatFixture(match))}</li>`);
+      body.push('</ul>');
+    }
+  }
+  if (digest.standings.length > 0) {
+    const cell = 'style="padding:2px 8px;text-align:left"';
+    body.push(
+      `<h2 style="font-size:16px">${SECTION_TITLES.standings}</h2>`,
+      '<table style="border-collapse:collapse">',
+      `<tr><th ${cell}>League</th><th ${cell}>Team</th><th ${cell}>Position</th><th ${cell}>Change</th><th ${cell}>Points</th></tr>`
+    );
+    for (const standing of digest.standings) {
+      body.push(
+        `<tr><td ${cell}>${escapeHtml(standing.league)}</td><td ${cell}>${escapeHtml(standing.team)}</td>`
+        + `<td ${cell}>${standing.position}</td><td ${cell}>${formatMovement(standing)}</td><td ${cell}>${standing.points}</td></tr>`
+      );
+    }
+    body.push('</table>');
+  }
+
+  return htmlPage('Weekly rugby digest', body);
+}
+
+/**
+ * A plain notification message as an HTML page (one paragraph per line),
+ * for email alongside the text part.
+ */
+export function renderMessageHtml(title: string, message: string): string {
+  return htmlPage(title, message.split('\n').filter(Boolean).map((line) => `<p>${escapeHtml(line)}</p>`));
+}
+
+function htmlPage(title: string, body: string[]): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    `<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>`,
+    '<body style="font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;line-height:1.4">',
+    ...body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+export function renderDigest(digest: WeeklyDigest, format: DigestFormat): string {
+  return format === 'html' ? renderDigestHtml(digest) : renderDigestMarkdown(digest);
+}
@@ -7,13 +7,29 @@ import type {
   StandingsEntry,
   StandingsOutput,
   TeamSearchOutput,
+  TeamFormOutput,
+  TeamFormSplit,
+  TeamScheduleOutput,
+  HeadToHeadOutput,
   NotifyOutput,
+  NotifyHistoryOutput,
   Match,
+  MatchPeriods,
+  MatchPhase,
   MarketPulseOutput,
   MarketConfidence,
+  WeeklyDigest,
 } from '../types/index.js';
 import { generateNeutralSummary } from '../lib/personality.js';
 import { formatDateYMD, formatTimeHM, getTodayYMD, getTomorrowYMD } from '../lib/datetime.js';
+import {
+  SECTION_TITLES,
+  formatDayLabel,
+  formatFixture,
+  formatMovement,
+  formatResult,
+  formatStanding,
+} from './digest.js';
 
 /**
  * Get the default local timezone.
@@ -73,13 +89,29 @@ function usesSecondaryKickoff(match: MatchOutput): boolean {
   return match.status === 'scheduled' && !match.time_tbd && match.time_source === 'secondary';
 }
 
+const PHASE_LABELS: Record<MatchPhase, string> = {
+  first_half: '1H',
+  half_time: 'HT',
+  second_half: '2H',
+  extra_time: 'ET',
+  sudden_death: 'SD',
+};
+
 /**
- * Format match status with color.
+ * Format match status with color. Live matches show the elapsed minute
+ * (or the phase when the source has no clock), e.g. "LIVE 63'" or "HT".
  */
-function formatStatus(status: string): string {
-  switch (status) {
-    case 'live':
-      return chalk.red.bold('LIVE');
+function formatStatus(match: Pick<MatchOutput, 'status' | 'phase' | 'elapsed'>): string {
+  switch (match.status) {
+    case 'live': {
+      if (match.phase === 'half_time') return chalk.yellow.bold('HT');
+      const clock = match.elapsed !== undefined
+        ? `${match.elapsed}'`
+        : match.phase
+          ? PHASE_LABELS[match.phase]
+          : '';
+      return chalk.red.bold(clock ? `LIVE ${clock}` : 'LIVE');
+    }
     case 'finished':
       return chalk.dim('FT');
     case 'scheduled':
@@ -89,7 +121,7 @@ function formatStatus(status: string): string {
     case 'cancelled':
       return chalk.red('CANCELLED');
     default:
-      return status;
+      return match.status;
   }
 }
 
@@ -109,11 +141,19 @@ function formatUsd(value?: number): string {
   return `$${Math.round(value).toLocaleString('en-US')}`;
 }
 
+/**
+ * Format the half-time score (e.g. "HT 10-7"), or null before half-time.
+ */
+export function formatHalfTime(periods?: MatchPeriods): string | null {
+  if (!periods?.first) return null;
+  return `HT ${periods.first.home}-${periods.first.away}`;
+}
+
 /**
  * Format a score with team names.
  */
-function formatMatchLine(match: MatchOutput, showId = false): string {
-  const status = formatStatus(match.status);
+function formatMatchLine(match: MatchOutput, showId = false, highlight = false): string {
+  const status = formatStatus(match);
   const showTbd = match.status === 'scheduled' && match.time_tbd;
   const secondaryKickoff = usesSecondaryKickoff(match);
   const time = match.status === 'scheduled' && !showTbd && match.time
@@ -124,7 +164,9 @@ function formatMatchLine(match: MatchOutput, showId = false): string {
   if (match.home.score !== undefined && match.away.score !== undefined) {
     const homeScore = match.home.score.toString().padStart(2);
     const awayScore = match.away.score.toString().padEnd(2);
-    scorePart = `${homeScore} - ${awayScore}`;
+    scorePart = highlight
+      ? chalk.black.bgYellow(`${homeScore} - ${awayScore}`)
+      : `${homeScore} - ${awayScore}`;
   } else {
     scorePart = '   vs   ';
   }
@@ -152,9 +194,10 @@ function formatMatchLine(match: MatchOutput, showId = false): string {
 }
 
 /**
- * Render scores output.
+ * Render scores output. Match IDs in `highlight` get their score emphasized
+ * (used by `watch` to flag score changes).
  */
-export function renderScores(output: ScoresOutput): string {
+export function renderScores(output: ScoresOutput, highlight: ReadonlySet<string> = new Set()): string {
   if (output.matches.length === 0) {
     return chalk.dim('No matches today.');
   }
@@ -185,7 +228,7 @@ export function renderScores(output: ScoresOutput): string {
   for (const [league, matches] of byLeague) {
     lines.push(chalk.cyan.bold(sanitizeTerminalText(league)));
     for (const match of matches) {
-      lines.push(formatMatchLine(match));
+      lines.push(formatMatchLine(match, false, highlight.has(match.id)));
     }
     lines.push('');
   }
@@ -293,7 +336,8 @@ export function renderResults(output: ResultsOutput): string {
   ];
 
   for (const match of output.matches) {
-    lines.push(formatMatchLine(match));
+    const halfTime = formatHalfTime(match.periods);
+    lines.push(halfTime ? `${formatMatchLine(match)}  ${chalk.dim(halfTime)}` : formatMatchLine(match));
     if (match.summary) {
       lines.push(chalk.dim(`  ${sanitizeTerminalText(match.summary)}`));
     }
@@ -404,6 +448,133 @@ export function renderTeamSearch(output: TeamSearchOutput): string {
   return lines.join('\n');
 }
 
+function formatOutcome(outcome: string): string {
+  if (outcome === 'W') return chalk.green(outcome);
+  if (outcome === 'L') return chalk.red(outcome);
+  return chalk.yellow(outcome);
+}
+
+function formatSplit(split: TeamFormSplit): string {
+  return `P ${split.played}  W ${split.won}  D ${split.drawn}  L ${split.lost}`
+    + `  PF ${split.points_for}  PA ${split.points_against}`;
+}
+
+const STREAK_LABELS: Record<'W' | 'D' | 'L', [string, string]> = {
+  W: ['win', 'wins'],
+  D: ['draw', 'draws'],
+  L: ['loss', 'losses'],
+};
+
+/**
+ * Render season form for a team (team form).
+ */
+export function renderTeamForm(output: TeamFormOutput, recent = 5): string {
+  const lines: string[] = [chalk.bold(`${sanitizeTerminalText(output.team.name)} — season form`), ''];
+
+  if (output.played === 0) {
+    lines.push(chalk.dim('  No results this season yet.'));
+    return lines.join('\n');
+  }
+
+  const diff = output.points_diff > 0 ? `+${output.points_diff}` : String(output.points_diff);
+  lines.push(`  Form   ${output.form.split('').map(formatOutcome).join(' ')}`);
+  lines.push(`  Total  ${formatSplit(output)}  PD ${diff}`);
+  lines.push(`  Home   ${formatSplit(output.home)}`);
+  lines.push(`  Away   ${formatSplit(output.away)}`);
+
+  const streaks: string[] = [];
+  if (output.streaks.current) {
+    const { type, length } = output.streaks.current;
+    streaks.push(`${length} ${STREAK_LABELS[type][length === 1 ? 0 : 1]} in a row`);
+  }
+  streaks.push(`longest winning run ${output.streaks.longest_win}`);
+  streaks.push(`longest losing run ${output.streaks.longest_loss}`);
+  lines.push(`  Streak ${streaks.join(' · ')}`);
+
+  const bonus = [`${output.bonus_points.losing} losing`];
+  if (output.bonus_points.try !== undefined) bonus.push(`${output.bonus_points.try} try`);
+  if (output.bonus_points.total !== undefined) bonus.push(`${output.bonus_points.total} total`);
+  lines.push(`  Bonus  ${bonus.join(' · ')}`);
+
+  const latest = output.matches.slice(0, recent);
+  if (latest.length > 0) {
+    lines.push('');
+    lines.push(chalk.dim(`  Last ${latest.length}`));
+    for (const match of latest) {
+      lines.push(`  ${chalk.dim(match.date)}${formatMatchLine(match)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render every remaining fixture for a team (team schedule).
+ */
+export function renderTeamSchedule(output: TeamScheduleOutput, timeZone: string = getDefaultTimeZone()): string {
+  const teamName = sanitizeTerminalText(output.team.name);
+  if (output.matches.length === 0) {
+    return chalk.dim(`No upcoming fixtures for ${teamName}.`);
+  }
+
+  const lines: string[] = [
+    chalk.bold(`${teamName} — ${output.matches.length} remaining fixture${output.matches.length === 1 ? '' : 's'}`),
+    '',
+  ];
+
+  if (timeZone !== getDefaultTimeZone()) {
+    lines.push(chalk.dim(`Times shown in ${timeZone}`));
+    lines.push('');
+  }
+
+  // A schedule spans months, so keep the year and name the competition.
+  for (const match of output.matches) {
+    lines.push(`  ${chalk.dim(match.date)}${formatMatchLine(match)}  ${chalk.dim(sanitizeTerminalText(match.league))}`);
+  }
+
+  return lines.join('\n');
+}
+
+function formatMargin(value: number): string {
+  const rounded = Math.round(value * 10) / 10;
+  return rounded > 0 ? `+${rounded}` : String(rounded);
+}
+
+/**
+ * Render a head-to-head record between two teams.
+ */
+export function renderHeadToHead(output: HeadToHeadOutput): string {
+  const teamA = sanitizeTerminalText(output.team_a.name);
+  const teamB = sanitizeTerminalText(output.team_b.name);
+  const seasons = output.seasons === 1 ? 'this season' : `last ${output.seasons} seasons`;
+  const lines: string[] = [
+    chalk.bold(`${teamA} vs ${teamB}`) + chalk.dim(` (${seasons})`),
+    '',
+  ];
+
+  if (output.played === 0) {
+    lines.push(chalk.dim('  No meetings found.'));
+    return lines.join('\n');
+  }
+
+  lines.push(
+    `  Played ${output.played}  `
+    + `${chalk.green(`${teamA} ${output.wins}W`)} · ${output.draws}D · ${chalk.red(`${teamB} ${output.losses}W`)}`
+  );
+  if (output.avg_margin !== null) {
+    lines.push(`  Avg margin: ${teamA} ${formatMargin(output.avg_margin)}`);
+  }
+  lines.push('');
+
+  // Meetings span seasons, so show full dates rather than weekday labels.
+  lines.push(chalk.dim(`  Last ${output.meetings.length}`));
+  for (const match of output.meetings) {
+    lines.push(`  ${chalk.dim(match.date)}${formatMatchLine(match)}`);
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Render a single match (for team next/last).
  */
@@ -414,7 +585,7 @@ export function renderMatch(
 ): string {
   const lines: string[] = [];
 
-  const status = formatStatus(match.status);
+  const status = formatStatus(match);
   const showTbd = match.status === 'scheduled' && match.time_tbd;
   const secondaryKickoff = usesSecondaryKickoff(match);
   const dateTime = match.status === 'scheduled'
@@ -428,7 +599,9 @@ export function renderMatch(
 
   if (match.home.score !== undefined && match.away.score !== undefined) {
     lines.push('');
-    lines.push(chalk.bold.white(`  ${match.home.score} - ${match.away.score}`));
+    const halfTime = formatHalfTime(match.periods);
+    const scoreLine = chalk.bold.white(`  ${match.home.score} - ${match.away.score}`);
+    lines.push(halfTime ? `${scoreLine}  ${chalk.dim(`(${halfTime})`)}` : scoreLine);
   }
 
   if (match.summary) {
@@ -460,6 +633,35 @@ export function renderMatch(
   return lines.join('\n');
 }
 
+/**
+ * Digest for the terminal, with section styling.
+ */
+export function renderWeeklyDigest(digest: WeeklyDigest): string {
+  const lines = [chalk.bold('📅 Weekly rugby digest')];
+
+  if (digest.recap.length > 0) {
+    lines.push('', chalk.cyan(SECTION_TITLES.recap));
+    for (const match of digest.recap) lines.push(`  ${sanitizeTerminalText(formatResult(match))}`);
+  }
+  if (digest.upcoming.length > 0) {
+    lines.push('', chalk.cyan(SECTION_TITLES.upcoming));
+    for (const day of digest.upcoming) {
+      lines.push(chalk.dim(`  ${formatDayLabel(day.date)}`));
+      for (const match of day.matches) lines.push(`    ${sanitizeTerminalText(formatFixture(match))}`);
+    }
+  }
+  if (digest.standings.length > 0) {
+    lines.push('', chalk.cyan(SECTION_TITLES.standings));
+    for (const standing of digest.standings) {
+      const movement = formatMovement(standing);
+      const color = movement.startsWith('▲') ? chalk.green : movement.startsWith('▼') ? chalk.red : chalk.dim;
+      lines.push(`  ${sanitizeTerminalText(formatStanding(standing)).replace(`(${movement})`, color(`(${movement})`))}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Render notifications output.
  */
@@ -471,13 +673,59 @@ export function renderNotify(output: NotifyOutput): string {
   const lines: string[] = [];
 
   for (const notification of output.notifications) {
-    lines.push(sanitizeTerminalText(notification.message));
+    if (notification.digest) {
+      lines.push(renderWeeklyDigest(notification.digest), '');
+      continue;
+    }
+
+    // Catch-up messages span several lines; sanitize each one
+    for (const line of notification.message.split('\n')) {
+      lines.push(sanitizeTerminalText(line));
+    }
     lines.push('');
   }
 
   return lines.join('\n');
 }
 
+/**
+ * Render notification history: when each one went out, whether quiet hours
+ * held it, and how each sink took it.
+ */
+export function renderNotifyHistory(output: NotifyHistoryOutput, timeZone: string = getDefaultTimeZone()): string {
+  if (output.entries.length === 0) {
+    return chalk.dim('No notifications in history.');
+  }
+
+  const lines: string[] = [];
+
+  for (const entry of output.entries) {
+    const at = new Date(entry.at);
+    const status = entry.status === 'held' ? chalk.yellow(' (held)') : '';
+    lines.push(`${chalk.dim(`${formatDateYMD(at, timeZone)} ${formatTimeHM(at, timeZone)}`)} ${chalk.cyan(entry.notification.type)}${status}`);
+
+    // Digests are long; their first line is enough to find them
+    const message = entry.notification.digest
+      ? entry.notification.message.split('\n')[0]
+      : entry.notification.message;
+    for (const line of message.split('\n')) {
+      lines.push(`  ${sanitizeTerminalText(line)}`);
+    }
+    for (const delivery of entry.deliveries ?? []) {
+      lines.push(delivery.delivered
+        ? chalk.dim(`  ✓ ${sanitizeTerminalText(delivery.sink)}`)
+        : chalk.red(`  ✗ ${sanitizeTerminalText(delivery.sink)}: ${sanitizeTerminalText(delivery.error)}`));
+    }
+    lines.push('');
+  }
+
+  if (output.total > output.entries.length) {
+    lines.push(chalk.dim(`Showing the latest ${output.entries.length} of ${output.total}.`));
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
 /**
  * Render market pulse output.
  */
@@ -562,6 +810,9 @@ export function matchToOutput(match: Match, options?: { timeZone?: string }): Ma
     time_source: match.timeSource,
     venue: match.venue ? sanitizeTerminalText(match.venue) : undefined,
     status: match.status,
+    phase: match.status === 'live' ? match.phase : undefined,
+    elapsed: match.status === 'live' ? match.elapsed : undefined,
+    periods: match.periods,
     summary: match.status === 'finished' ? generateNeutralSummary(match) : undefined,
   };
 }
@@ -15,6 +15,16 @@ export interface League {
   country: string;
   sport: 'rugby';
   searchName?: string; // Alternative league name for team search
+  points?: LeaguePointsRules; // defaults to DEFAULT_POINTS_RULES
+}
+
+/** How a league awards table points. */
+export interface LeaguePointsRules {
+  win: number;
+  draw: number;
+  loss: number;
+  /** A loss by this many points or fewer earns a losing bonus point. */
+  losingBonusMargin: number;
 }
 
 export interface Score {
@@ -22,8 +32,20 @@ export interface Score {
   away: number;
 }
 
+/**
+ * Points scored in each half. `first` appears once the first half is over,
+ * `second` once the second half is under way.
+ */
+export interface MatchPeriods {
+  first?: Score;
+  second?: Score;
+}
+
 export type MatchStatus = 'scheduled' | 'live' | 'finished' | 'postponed' | 'cancelled';
 
+/** In-play phase of a live match. */
+export type MatchPhase = 'first_half' | 'half_time' | 'second_half' | 'extra_time' | 'sudden_death';
+
 export interface RateLimitInfo {
   day?: { limit: number; remaining: number; reset?: string };
   minute?: { limit: number; remaining: number };
@@ -37,7 +59,10 @@ export interface Match {
   date: Date;
   venue?: string;
   status: MatchStatus;
+  phase?: MatchPhase;
+  elapsed?: number; // Minutes played, when the source reports a match clock
   score?: Score;
+  periods?: MatchPeriods;
   round?: string;
   timestamp: number; // Unix timestamp for easier comparison
   timeTbd?: boolean;
@@ -51,6 +76,61 @@ export interface FavoriteTeam {
   name: string;
   slug: string;
   leagueIds: string[];
+  reminders?: string[]; // offsets before kickoff, e.g. ["3d", "2h", "15m"]
+  notify?: NotifyMode; // overrides the league's mode
+}
+
+/**
+ * Ordered provider chains. IDs refer to registered providers
+ * (see src/lib/providers/registry.ts); earlier entries are tried first.
+ */
+export interface ProviderChainConfig {
+  default?: string[];
+  leagues?: Record<string, string[]>; // league slug -> provider IDs
+}
+
+export interface CalendarConfig {
+  durations?: Record<string, number>; // league slug (or "default") -> event length in minutes
+  local_time?: boolean; // write TZID times in the effective timezone instead of UTC
+}
+
+/**
+ * Where `rugbyclaw notify` delivers notifications, besides stdout.
+ * Every sink receives each notification as its own message.
+ */
+export type NotifySinkConfig =
+  | { type: 'webhook'; name?: string; url: string; headers?: Record<string, string> }
+  | { type: 'slack'; name?: string; url: string }
+  | { type: 'discord'; name?: string; url: string }
+  | { type: 'ntfy'; name?: string; url?: string; topic: string; token?: string; priority?: number }
+  | { type: 'command'; name?: string; command: string; args?: string[] }
+  | {
+    type: 'smtp';
+    name?: string;
+    host: string;
+    port?: number; // default 465 with `tls`, 587 otherwise
+    security?: SmtpSecurity; // default `tls` on port 465, `starttls` otherwise
+    from: string;
+    to: string | string[];
+  };
+
+/** How an SMTP sink connects: implicit TLS, mandatory STARTTLS, or plain (local relays only). */
+export type SmtpSecurity = 'tls' | 'starttls' | 'none';
+
+/** Which notifications a team or league gets: everything, fulltime only, or none. */
+export type NotifyMode = 'all' | 'results_only' | 'mute';
+
+/** Daily window (HH:MM, effective timezone) when notifications are held back. */
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+export interface NotifyConfig {
+  sinks?: NotifySinkConfig[];
+  reminders?: string[]; // default offsets for teams without their own
+  quiet_hours?: QuietHours;
+  leagues?: Record<string, NotifyMode>; // league slug -> mode
 }
 
 export interface Config {
@@ -58,11 +138,23 @@ export interface Config {
   timezone: string;
   favorite_leagues: string[]; // slugs
   favorite_teams: FavoriteTeam[];
+  providers?: ProviderChainConfig;
+  calendar?: CalendarConfig;
+  notify?: NotifyConfig;
 }
 
 export interface Secrets {
-  api_key: string;
-  api_tier: 'free' | 'premium';
+  /** API-Sports key; without one, requests go through the free proxy. */
+  api_key?: string;
+  api_tier?: 'free' | 'premium';
+  /** Bearer token for the proxy, issued to named clients with their own quota. */
+  proxy_token?: string;
+}
+
+/** SMTP login, stored in smtp.json next to secrets.json and keyed by host. */
+export interface SmtpCredentials {
+  username: string;
+  password: string;
 }
 
 // Notification state types
@@ -71,17 +163,66 @@ export interface MatchNotificationState {
   match_id: string;
   status: MatchStatus;
   last_score_hash: string;
+  last_score?: { home: number; away: number }; // score at the last update, to infer what changed
+  max_deficit?: { home: number; away: number }; // largest margin each side has trailed by
+  standings_pending?: PendingStandings; // fulltime impact was projected; confirm once the table updates
   last_notified_at: number;
   notified: {
     day_before: boolean;
     hour_before: boolean;
     kickoff: boolean;
+    half_time?: boolean;
     fulltime: boolean;
+    reminders?: Record<string, boolean>; // custom reminder offsets, keyed like "2h"
   };
 }
 
+/** A team's table row before a match, to tell what the match added. */
+export interface StandingsSnapshot {
+  played: number;
+  points: number;
+  position: number;
+  bonus_points_try?: number;
+  bonus_points_losing?: number;
+}
+
+export interface PendingStandings {
+  league_id: string;
+  since: number; // fulltime, ms timestamp
+  before: Record<string, StandingsSnapshot>; // team id -> row before the match
+}
+
+/**
+ * Last exported version of a match's calendar event. SEQUENCE goes up
+ * whenever the kickoff or event status changes between exports.
+ */
+export interface CalendarRevision {
+  kickoff: number; // ms timestamp
+  status: CalendarEventStatus;
+  sequence: number;
+  stamp: number; // ms timestamp of this revision, written as DTSTAMP
+  summary?: string; // event title, for a CANCELLED event once the match leaves a feed
+  league?: string; // league slug, for that event's duration
+}
+
+/** Contents of calendar.json: the last exported version of each match. */
+export interface CalendarState {
+  revisions: Record<string, CalendarRevision>;
+  feeds?: Record<string, string[]>; // feed key -> match ids it served last
+}
+
+/** Notifications held back during quiet hours, sent as one catch-up later. */
+export interface QuietDigest {
+  since: number;
+  notifications: Notification[];
+}
+
 export interface State {
   matches: Record<string, MatchNotificationState>;
+  calendar?: Record<string, CalendarRevision>; // legacy: revisions now live in calendar.json
+  quiet_digest?: QuietDigest;
+  last_weekly_at?: number; // when the weekly digest last ran
+  standings_positions?: Record<string, Record<string, number>>; // league slug -> team id -> position at the last digest
   last_updated: number;
 }
 
@@ -114,6 +255,9 @@ export interface MatchOutput {
   time_source?: 'provider' | 'secondary';
   venue?: string;
   status: MatchStatus;
+  phase?: MatchPhase;
+  elapsed?: number;
+  periods?: MatchPeriods;
   summary?: string; // Personality-driven summary for results
 }
 
@@ -126,6 +270,12 @@ export interface ScoresOutput {
   cached_at?: string;
 }
 
+export interface WatchOutput extends ScoresOutput {
+  poll: number;
+  changed: string[]; // IDs of matches whose score changed since the last poll
+  next_poll_ms?: number;
+}
+
 export interface FixturesOutput {
   league?: string;
   matches: MatchOutput[];
@@ -199,9 +349,82 @@ export interface TeamSearchOutput {
   cached_at?: string;
 }
 
+export interface TeamFormSplit {
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  points_for: number;
+  points_against: number;
+}
+
+export interface TeamFormStats extends TeamFormSplit {
+  points_diff: number;
+  form: string; // W/D/L sequence, oldest first
+  home: TeamFormSplit;
+  away: TeamFormSplit;
+  streaks: {
+    current: { type: 'W' | 'D' | 'L'; length: number } | null;
+    longest_win: number;
+    longest_loss: number;
+  };
+  bonus_points: {
+    losing: number; // losses by 7 points or fewer
+    try?: number; // from standings, when reported
+    total?: number; // from standings, when reported
+  };
+}
+
+export interface TeamFormOutput extends TeamFormStats {
+  query: string;
+  team: TeamSearchOutput['teams'][number];
+  matches: MatchOutput[]; // most recent first
+  trace_id?: string;
+  stale?: boolean;
+  cached_at?: string;
+}
+
+export interface TeamScheduleOutput {
+  query: string;
+  team: TeamSearchOutput['teams'][number];
+  matches: MatchOutput[]; // remaining fixtures, soonest first
+  generated_at: string;
+  trace_id?: string;
+  stale?: boolean;
+  cached_at?: string;
+}
+
+export interface HeadToHeadOutput {
+  team_a: { id: string; name: string };
+  team_b: { id: string; name: string };
+  seasons: number; // seasons searched, current season included
+  played: number;
+  // Record from team_a's point of view
+  wins: number;
+  draws: number;
+  losses: number;
+  avg_margin: number | null; // team_a points minus team_b points per meeting
+  meetings: MatchOutput[]; // most recent first, capped by --limit
+  generated_at: string;
+  trace_id?: string;
+  stale?: boolean;
+  cached_at?: string;
+}
+
+export interface NotifyDelivery {
+  sink: string; // sink name, or its type when unnamed
+  type: NotifySinkConfig['type'];
+  delivered: number;
+  failed: number;
+  error?: string; // last failure
+}
+
 export interface NotifyOutput {
-  type: 'weekly' | 'daily' | 'live' | 'all';
+  type: 'weekly' | 'daily' | 'live' | 'all' | 'daemon';
   notifications: Notification[];
+  held?: number; // notifications held for the quiet-hours catch-up
+  deliveries?: NotifyDelivery[];
+  next_check_at?: string; // daemon only
   generated_at: string;
   trace_id?: string;
   stale?: boolean;
@@ -209,14 +432,109 @@ export interface NotifyOutput {
 }
 
 export interface Notification {
-  type: 'weekly_digest' | 'day_before' | 'hour_before' | 'kickoff' | 'score_update' | 'fulltime';
+  type:
+    | 'weekly_digest'
+    | 'day_before'
+    | 'hour_before'
+    | 'reminder'
+    | 'kickoff'
+    | 'score_update'
+    | 'half_time'
+    | 'fulltime'
+    | 'catch_up'
+    | 'standings_impact';
   match_id: string;
   message: string;
+  reminder?: string; // offset key for `reminder` notifications, e.g. "2h"
+  batched?: Notification[]; // `catch_up` only: what was held during quiet hours
+  digest?: WeeklyDigest; // `weekly_digest` only
+  score_event?: ScoreEvent; // `score_update` only, when the previous score is known
+  standings_impact?: StandingsImpact; // `standings_impact` only
+
   match?: MatchOutput;
 }
 
+/** One line of notify-history.jsonl. */
+export interface NotificationHistoryEntry {
+  at: string; // when the notify run produced it
+  status: 'sent' | 'held'; // held: quiet hours, released later in a `catch_up`
+  notification: Notification;
+  deliveries?: NotificationHistoryDelivery[]; // per sink, when sinks are configured
+}
+
+export interface NotificationHistoryDelivery {
+  sink: string;
+  delivered: boolean;
+  error?: string;
+}
+
+export interface NotifyHistoryOutput {
+  entries: NotificationHistoryEntry[];
+  total: number; // matching entries before --limit
+  replayed?: number; // with --replay: notifications sent to the sinks again
+  deliveries?: NotifyDelivery[];
+  generated_at: string;
+}
+
+export type ScoreEventKind =
+  | 'try'
+  | 'converted_try'
+  | 'penalty_or_drop_goal'
+  | 'conversion'
+  | 'multiple' // several scores between polls, or both teams scored
+  | 'correction'; // the provider lowered a score
+
+/** What a score change most likely was, inferred from the point delta. */
+export interface ScoreEvent {
+  kind: ScoreEventKind;
+  team: 'home' | 'away' | null; // null when both teams scored
+  team_name?: string;
+  points: number;
+  lead_change: boolean; // the other side led before this score
+  comeback: boolean; // level or ahead after trailing by two scores
+  deficit?: number; // comebacks: the largest deficit overturned
+}
+
+/** What a finished match did for a tracked team in the league table. */
+export interface StandingsImpact {
+  league: string;
+  team: string;
+  result: 'win' | 'draw' | 'loss';
+  match_points: number; // 4 win, 2 draw, 0 loss
+  bonus_try: boolean | null; // null until the table shows it
+  bonus_losing: boolean;
+  points: number; // table points after the match
+  position: number;
+  previous_position?: number;
+  projected: boolean; // table not updated yet: points and position are projected from the score
+}
+
+export interface DigestDay {
+  date: string; // YYYY-MM-DD in the user's timezone
+  matches: MatchOutput[];
+}
+
+export interface DigestStanding {
+  league: string;
+  team: string;
+  position: number;
+  previous_position?: number; // position at the previous digest, when known
+  points: number;
+}
+
+export interface WeeklyDigest {
+  time_zone: string;
+  recap: MatchOutput[]; // last week's results, `summary` from the tracked team's side
+  upcoming: DigestDay[];
+  standings: DigestStanding[];
+}
+
+export type DigestFormat = 'markdown' | 'html';
+
 // Calendar types
 
+export type CalendarEventStatus = 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+
 export interface CalendarEvent {
   uid: string;
   summary: string;
@@ -225,6 +543,10 @@ export interface CalendarEvent {
   start: Date;
   end: Date;
   url?: string;
+  status?: CalendarEventStatus;
+  sequence?: number;
+  stamp?: Date; // DTSTAMP; defaults to now
+  alarms?: number[]; // VALARM offsets, minutes before start
 }
 
 // Market Pulse types
@@ -6,6 +6,7 @@ describe('worker endpoint allowlist', () => {
     expect(getAllowedEndpoint('/games')).toBe('/games');
     expect(getAllowedEndpoint('/teams')).toBe('/teams');
     expect(getAllowedEndpoint('/leagues')).toBe('/leagues');
+    expect(getAllowedEndpoint('/standings')).toBe('/standings');
   });
 
   it('rejects lookalike prefixes and subpaths', () => {
@@ -15,6 +16,7 @@ describe('worker endpoint allowlist', () => {
     expect(getAllowedEndpoint('/teams/search')).toBeNull();
     expect(getAllowedEndpoint('/leagues123')).toBeNull();
     expect(getAllowedEndpoint('/leagues/current')).toBeNull();
+    expect(getAllowedEndpoint('/standings/16')).toBeNull();
     expect(isAllowedEndpoint('/gamesXYZ')).toBe(false);
   });
 });
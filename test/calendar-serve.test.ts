@@ -0,0 +1,156 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { createServer, request, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCalendarFeedHandler } from '../src/commands/calendar-serve.js';
+import { getCache } from '../src/lib/cache.js';
+import { getConfigPaths, setConfigPathOverride } from '../src/lib/config.js';
+import { createProviderChain } from '../src/lib/providers/registry.js';
+import type { Config } from '../src/types/index.js';
+
+const originalPaths = getConfigPaths();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CONFIG: Config = {
+  schema_version: 1,
+  timezone: 'UTC',
+  favorite_leagues: ['top14'],
+  favorite_teams: [],
+};
+
+function fixture(id: number, daysAhead: number, home: string, away: string, status = { short: 'NS', long: 'Not Started' }) {
+  const kickoff = new Date(Date.now() + daysAhead * DAY_MS);
+  return {
+    id,
+    date: kickoff.toISOString(),
+    time: kickoff.toISOString().slice(11, 16),
+    timestamp: Math.floor(kickoff.getTime() / 1000),
+    timezone: 'UTC',
+    week: '5',
+    status,
+    country: { id: 1, name: 'France', code: 'FR', flag: '' },
+    league: { id: 16, name: 'Top 14', type: 'League', logo: '', season: 2025 },
+    teams: {
+      home: { id: home === 'Stade Toulousain' ? 1 : 2, name: home, logo: '' },
+      away: { id: away === 'Stade Toulousain' ? 1 : 3, name: away, logo: '' },
+    },
+    scores: { home: null, away: null },
+  };
+}
+
+let server: Server;
+let dir: string;
+let upstreamOk = true;
+let games: ReturnType<typeof fixture>[];
+
+function get(path: string): Promise<{ status: number; body: string; type?: string }> {
+  const { port } = server.address() as AddressInfo;
+  return new Promise((resolve, reject) => {
+    const req = request({ host: '127.0.0.1', port, path, method: 'GET' }, (res) => {
+      let body = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk) => {
+        body += chunk;
+      });
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body, type: res.headers['content-type'] }));
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+beforeEach(async () => {
+  await getCache().clear();
+  dir = mkdtempSync(join(tmpdir(), 'rugbyclaw-calendar-serve-'));
+  setConfigPathOverride(dir);
+  upstreamOk = true;
+  games = [fixture(11, 3, 'Stade Toulousain', 'Section Paloise'), fixture(12, 10, 'Racing 92', 'Stade Toulousain')];
+
+  const fetchMock = vi.fn(async (input: string | URL | Request) => {
+    const url = new URL(String(input));
+    if (!upstreamOk) return new Response('upstream down', { status: 503 });
+    const response = url.pathname.endsWith('/games') && url.searchParams.get('league') === '16'
+      ? games
+      : [];
+    return new Response(JSON.stringify({ get: 'games', parameters: {}, errors: [], results: response.length, response }), {
+      status: 200,
+    });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+
+  const handler = createCalendarFeedHandler({
+    provider: createProviderChain({ apiKey: 'test-key', config: CONFIG }),
+    config: CONFIG,
+    hasApiKey: true,
+    leagueAccess: { allowed: null, effective: CONFIG.favorite_leagues },
+  });
+  server = createServer((req, res) => {
+    void handler(req, res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+});
+
+afterEach(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  setConfigPathOverride(originalPaths.configDir);
+  rmSync(dir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  await getCache().clear();
+});
+
+describe('calendar serve', () => {
+  it('serves league and team feeds as text/calendar', async () => {
+    const league = await get('/leagues/top14.ics');
+    expect(league.status).toBe(200);
+    expect(league.type).toContain('text/calendar');
+    expect(league.body.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+
+    const team = await get('/teams/stade-toulousain.ics');
+    expect(team.status).toBe(200);
+    expect(team.body).toContain('UID:11@rugbyclaw');
+    expect(team.body).toContain('UID:12@rugbyclaw');
+  });
+
+  it('serves repeat requests from the cache without going upstream', async () => {
+    const first = await get('/leagues/top14.ics');
+    upstreamOk = false;
+
+    const second = await get('/leagues/top14.ics');
+    expect(second.status).toBe(200);
+    expect(second.body).toBe(first.body);
+  });
+
+  it('marks called-off fixtures and fixtures that left the feed CANCELLED', async () => {
+    const first = await get('/teams/stade-toulousain.ics');
+    expect(first.body).toContain('SEQUENCE:0');
+    expect(first.body).not.toContain('STATUS:CANCELLED');
+
+    games = [fixture(11, 3, 'Stade Toulousain', 'Section Paloise', { short: 'POST', long: 'Postponed' })];
+    await getCache().clear();
+
+    const events = (await get('/teams/stade-toulousain.ics')).body.split('BEGIN:VEVENT').slice(1);
+    expect(events).toHaveLength(2);
+    for (const [uid, summary] of [['11@rugbyclaw', 'Stade Toulousain vs Section Paloise'], ['12@rugbyclaw', 'Racing 92 vs Stade Toulousain']]) {
+      const event = events.find((block) => block.includes(`UID:${uid}`));
+      expect(event).toContain('STATUS:CANCELLED');
+      expect(event).toContain('SEQUENCE:1');
+      expect(event).toContain(`SUMMARY:${summary}`);
+    }
+
+    // Unchanged on the next build: no further SEQUENCE bump
+    await getCache().clear();
+    expect((await get('/teams/stade-toulousain.ics')).body.match(/SEQUENCE:1/g)).toHaveLength(2);
+  });
+
+  it('returns 404 for unknown routes and feeds, 502 when upstream fails uncached', async () => {
+    expect((await get('/')).status).toBe(404);
+    expect((await get('/leagues/nope.ics')).status).toBe(404);
+    expect((await get('/teams/../secrets.json')).status).toBe(404);
+
+    upstreamOk = false;
+    expect((await get('/leagues/premiership.ics')).status).toBe(502);
+  });
+});
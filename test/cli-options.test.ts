@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import { InvalidArgumentError } from 'commander';
-import { parseTimeZoneOption } from '../src/lib/cli-options.js';
+import { parseAlarmOption, parseTimeZoneOption } from '../src/lib/cli-options.js';
 
 describe('cli timezone option parser', () => {
   it('accepts a valid IANA timezone', () => {
@@ -16,3 +16,17 @@ describe('cli timezone option parser', () => {
     expect(() => parseTimeZoneOption('   ')).toThrow(InvalidArgumentError);
   });
 });
+
+describe('cli alarm option parser', () => {
+  it('collects repeated offsets as minutes', () => {
+    expect(parseAlarmOption('1d', parseAlarmOption('60m'))).toEqual([60, 1440]);
+    expect(parseAlarmOption('2h')).toEqual([120]);
+    expect(parseAlarmOption('45')).toEqual([45]);
+  });
+
+  it('rejects malformed or zero offsets', () => {
+    expect(() => parseAlarmOption('soon')).toThrow(InvalidArgumentError);
+    expect(() => parseAlarmOption('0m')).toThrow('Invalid alarm "0m"');
+    expect(() => parseAlarmOption('-1h')).toThrow(InvalidArgumentError);
+  });
+});
@@ -0,0 +1,204 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { notifyCommand } from '../src/commands/notify.js';
+import { getCache } from '../src/lib/cache.js';
+import { getConfigPaths, setConfigPathOverride } from '../src/lib/config.js';
+import { renderDigestHtml, renderDigestMarkdown, renderDigestText } from '../src/render/digest.js';
+import type { MatchOutput, NotifyOutput, WeeklyDigest } from '../src/types/index.js';
+
+const originalPaths = getConfigPaths();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function output(id: string, home: string, away: string, extra: Partial<MatchOutput> = {}): MatchOutput {
+  return {
+    id,
+    home: { name: home },
+    away: { name: away },
+    league: 'Top 14',
+    date: '2026-11-07',
+    time: '20:05',
+    status: 'scheduled',
+    ...extra,
+  };
+}
+
+const DIGEST: WeeklyDigest = {
+  time_zone: 'Europe/Paris',
+  recap: [
+    output('1', 'Toulouse', 'Clermont', {
+      home: { name: 'Toulouse', score: 31 },
+      away: { name: 'Clermont', score: 10 },
+      status: 'finished',
+      summary: 'Toulouse cruise home.',
+    }),
+  ],
+  upcoming: [
+    { date: '2026-11-07', matches: [output('2', 'Toulouse', 'R<acing> & *92*', { venue: 'Stade Ernest-Wallon' })] },
+    { date: '2026-11-08', matches: [output('3', 'Pau', 'Castres', { time: '' })] },
+  ],
+  standings: [
+    { league: 'Top 14', team: 'Toulouse', position: 1, previous_position: 3, points: 37 },
+    { league: 'Top 14', team: 'Pau', position: 12, previous_position: 11, points: 1 },
+  ],
+};
+
+describe('weekly digest rendering', () => {
+  it('renders plain text sections with days and table movement', () => {
+    expect(renderDigestText(DIGEST)).toBe([
+      '📅 Weekly rugby digest',
+      '',
+      'Last week',
+      '• Toulouse cruise home. (Toulouse 31-10 Clermont)',
+      '',
+      'This week',
+      'Saturday, Nov 7',
+      '• 20:05 Toulouse vs R<acing> & *92* (Top 14) at Stade Ernest-Wallon',
+      'Sunday, Nov 8',
+      '• TBD Pau vs Castres (Top 14)',
+      '',
+      'Table',
+      '• Top 14: Toulouse 1st (▲2), 37 pts',
+      '• Top 14: Pau 12th (▼1), 1 pt',
+    ].join('\n'));
+  });
+
+  it('escapes team names in markdown and html', () => {
+    const markdown = renderDigestMarkdown(DIGEST);
+    expect(markdown).toContain('### Saturday, Nov 7');
+    expect(markdown).toContain('R\\<acing\\> & \\*92\\*');
+    expect(markdown).toContain('| Top 14 | Toulouse | 1 | ▲2 | 37 |');
+
+    const html = renderDigestHtml(DIGEST);
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('R&lt;acing&gt; &amp; *92*');
+    expect(html).not.toContain('<acing>');
+  });
+
+  it('leaves out empty sections', () => {
+    const text = renderDigestText({ ...DIGEST, recap: [], standings: [] });
+    expect(text).not.toContain('Last week');
+    expect(text).not.toContain('Table');
+  });
+});
+
+describe('notify --weekly digest', () => {
+  let dir: string;
+  let positions: [number, number];
+  const now = Date.UTC(2026, 10, 4, 9, 0);
+
+  function game(id: number, timestamp: number, status: string, scores: [number | null, number | null], away = 2) {
+    return {
+      id,
+      date: new Date(timestamp).toISOString(),
+      time: new Date(timestamp).toISOString().slice(11, 16),
+      timestamp: timestamp / 1000,
+      timezone: 'UTC',
+      week: '9',
+      status: { short: status, long: status },
+      country: { id: 1, name: 'France', code: 'FR', flag: '' },
+      league: { id: 16, name: 'Top 14', type: 'League', logo: '', season: 2025 },
+      teams: { home: { id: 1, name: 'Stade Toulousain', logo: '' }, away: { id: away, name: `Team ${away}`, logo: '' } },
+      scores: { home: scores[0], away: scores[1] },
+    };
+  }
+
+  beforeEach(async () => {
+    await getCache().clear();
+    dir = mkdtempSync(join(tmpdir(), 'rugbyclaw-digest-'));
+    setConfigPathOverride(dir);
+    writeFileSync(join(dir, 'config.json'), JSON.stringify({
+      schema_version: 1,
+      timezone: 'Europe/Paris',
+      favorite_leagues: ['top14'],
+      favorite_teams: [{ id: '1', name: 'Stade Toulousain', slug: 'stade-toulousain', leagueIds: ['16'] }],
+    }, null, 2));
+    writeFileSync(join(dir, 'secrets.json'), JSON.stringify({ api_key: 'test-key', api_tier: 'premium' }, null, 2));
+    positions = [3, 1];
+
+    vi.stubGlobal('fetch', vi.fn(async (input: string | URL | Request) => {
+      const url = String(input);
+      let response: unknown[];
+      if (url.includes('/standings?')) {
+        response = [
+          { position: positions[0], team: { id: 1, name: 'Stade Toulousain', logo: '' }, games: { played: 9, win: { total: 7 }, draw: 0, lose: 2 }, goals: { for: 250, against: 150 }, points: 33 },
+          { position: positions[1], team: { id: 3, name: 'Bordeaux', logo: '' }, games: { played: 9, win: { total: 7 }, draw: 0, lose: 2 }, goals: { for: 240, against: 160 }, points: 32 },
+        ];
+      } else if (url.includes('/games?')) {
+        const current = Date.now();
+        response = [
+          game(10, current - 3 * DAY_MS, 'FT', [31, 10]),
+          game(11, current - 10 * DAY_MS, 'FT', [20, 20]),
+          game(12, current + 3 * DAY_MS, 'NS', [null, null], 4),
+          game(13, current + 4 * DAY_MS, 'NS', [null, null], 5),
+          game(14, current + 4 * DAY_MS, 'NS', [null, null], 6),
+        ];
+      } else {
+        return new Response('not found', { status: 404 });
+      }
+      return new Response(JSON.stringify({ get: 'x', parameters: {}, errors: [], results: response.length, response }), { status: 200 });
+    }));
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    setConfigPathOverride(originalPaths.configDir);
+    rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    await getCache().clear();
+  });
+
+  async function runWeekly(at: number, options: { json?: boolean; format?: 'markdown' | 'html' }): Promise<string> {
+    vi.setSystemTime(at);
+    await getCache().clear();
+    const logs: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((value) => String(value)).join(' '));
+    });
+    const write = vi.spyOn(process.stdout, 'write').mockImplementation((chunk: string | Uint8Array) => {
+      logs.push(String(chunk));
+      return true;
+    });
+    await notifyCommand({ weekly: true, ...options });
+    write.mockRestore();
+    return logs.join('\n');
+  }
+
+  it('recaps results, groups fixtures by day and tracks table movement between digests', async () => {
+    const first = JSON.parse(await runWeekly(now, { json: true })) as NotifyOutput;
+    const digest = first.notifications[0].digest!;
+
+    expect(digest.recap.map((m) => m.id)).toEqual(['10']);
+    expect(digest.recap[0].summary).not.toBe('');
+    expect(digest.upcoming.map((day) => [day.date, day.matches.map((m) => m.id)])).toEqual([
+      ['2026-11-07', ['12']],
+      ['2026-11-08', ['13', '14']],
+    ]);
+    expect(digest.standings).toEqual([{ league: 'Top 14', team: 'Stade Toulousain', position: 3, points: 33 }]);
+    expect(first.notifications[0].message).toContain('Saturday, Nov 7');
+
+    positions = [1, 2];
+    const markdown = await runWeekly(now + 7 * DAY_MS, { format: 'markdown' });
+    expect(markdown.startsWith('# Weekly rugby digest')).toBe(true);
+    expect(markdown).toContain('| Top 14 | Stade Toulousain | 1 | ▲2 | 33 |');
+  });
+
+  it('treats --format as --weekly and refuses it next to --daily or --live', async () => {
+    vi.setSystemTime(now);
+    const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    await notifyCommand({ format: 'markdown' });
+    expect(String(write.mock.calls[0]?.[0])).toMatch(/^# Weekly rugby digest/);
+    // No live check: its alerts would be marked sent without being printed
+    const urls = vi.mocked(fetch).mock.calls.map(([input]) => String(input));
+    expect(urls.some((url) => url.includes('date='))).toBe(false);
+
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(process, 'exit').mockImplementation(((code?: number) => {
+      throw new Error(`exit:${code}`);
+    }) as never);
+    await expect(notifyCommand({ daily: true, format: 'html' })).rejects.toThrow('exit:2');
+  });
+});
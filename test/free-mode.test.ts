@@ -1,5 +1,12 @@
-import { describe, expect, it } from 'vitest';
-import { getProxyQuotaLine } from '../src/lib/free-mode.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fixturesCommand } from '../src/commands/fixtures.js';
+import { DEFAULT_PROXY_LEAGUES, getConfigPaths, setConfigPathOverride } from '../src/lib/config.js';
+import { getLeagueAccess, getProxyQuotaLine } from '../src/lib/free-mode.js';
+import { ApiSportsProvider } from '../src/lib/providers/apisports.js';
+import { getCache } from '../src/lib/cache.js';
 
 describe('free mode quota line', () => {
   it('returns no free-mode line when API key mode is active', () => {
@@ -25,8 +32,124 @@ describe('free mode quota line', () => {
     expect(line).toContain('resets midnight UTC');
   });
 
+  it('names the proxy token whose quota is shown', () => {
+    const line = getProxyQuotaLine({
+      status: 'ok',
+      token: { name: 'office', leagues: ['16'] },
+      rate_limit: { day: { limit: 1000, remaining: 990 } },
+    }, false);
+
+    expect(line).toContain('Token "office" quota: 990/1000 today');
+  });
+
   it('shows stale fallback status when proxy status cannot be fetched', () => {
     const line = getProxyQuotaLine(null, false, { staleFallback: true });
     expect(line).toContain('using cached data');
   });
 });
+
+describe('proxy token', () => {
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await getCache().clear();
+  });
+
+  function stubFetch() {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      get: 'standings', parameters: {}, errors: [], results: 0, response: [],
+    }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  }
+
+  it('is sent to the proxy as a bearer token', async () => {
+    const fetchMock = stubFetch();
+    await new ApiSportsProvider(undefined, 'office-token-0123456789').searchTeams('toulouse');
+
+    const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer office-token-0123456789');
+  });
+
+  it('is never sent to API-Sports with a direct API key', async () => {
+    const fetchMock = stubFetch();
+    await new ApiSportsProvider('direct-key', 'office-token-0123456789').searchTeams('toulouse');
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toContain('api-sports.io');
+    expect(init.headers).not.toHaveProperty('Authorization');
+  });
+});
+
+describe('league access', () => {
+  const originalPaths = getConfigPaths();
+  const TOKEN = 'office-token-0123456789';
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    setConfigPathOverride(originalPaths.configDir);
+    await getCache().clear();
+  });
+
+  function stubProxy(tokenLeagues: string[] | null) {
+    const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+      const url = String(input);
+      if (url.endsWith('/status')) {
+        if (!tokenLeagues) return new Response('down', { status: 503 });
+        return new Response(JSON.stringify({ status: 'ok', mode: 'token', token: { name: 'office', leagues: tokenLeagues } }));
+      }
+      return new Response(JSON.stringify({ get: 'games', parameters: {}, errors: [], results: 0, response: [] }));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  }
+
+  it('uses the proxy token leagues, narrowed to favorites', async () => {
+    stubProxy(['16', '17', '13']);
+    const config = { favorite_leagues: ['pro_d2', 'urc'] };
+
+    expect(await getLeagueAccess(config, { proxy_token: TOKEN })).toEqual({
+      allowed: ['top14', 'pro_d2', 'premiership'],
+      effective: ['pro_d2'],
+    });
+    expect(await getLeagueAccess({ favorite_leagues: ['urc'] }, { proxy_token: TOKEN })).toEqual({
+      allowed: ['top14', 'pro_d2', 'premiership'],
+      effective: ['top14', 'pro_d2', 'premiership'],
+    });
+    expect(await getLeagueAccess(config, null)).toEqual({
+      allowed: DEFAULT_PROXY_LEAGUES,
+      effective: DEFAULT_PROXY_LEAGUES,
+    });
+  });
+
+  it('leaves token leagues to the proxy when /status is down', async () => {
+    stubProxy(null);
+    expect(await getLeagueAccess({ favorite_leagues: ['pro_d2'] }, { proxy_token: TOKEN })).toEqual({
+      allowed: null,
+      effective: ['pro_d2'],
+    });
+  });
+
+  it('lets commands query a league the token allows beyond the defaults', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'rugbyclaw-league-access-'));
+    try {
+      setConfigPathOverride(dir);
+      writeFileSync(join(dir, 'config.json'), JSON.stringify({
+        schema_version: 1,
+        timezone: 'UTC',
+        favorite_leagues: [],
+        favorite_teams: [],
+      }));
+      writeFileSync(join(dir, 'secrets.json'), JSON.stringify({ proxy_token: TOKEN }));
+      const fetchMock = stubProxy(['17']);
+      vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      await fixturesCommand('pro_d2', { json: true });
+
+      const urls = fetchMock.mock.calls.map(([input]) => String(input));
+      expect(urls.some((url) => url.includes('/games?league=17'))).toBe(true);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
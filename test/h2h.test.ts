@@ -0,0 +1,175 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { h2hCommand } from '../src/commands/h2h.js';
+import { getCache } from '../src/lib/cache.js';
+import { getConfigPaths, setConfigPathOverride } from '../src/lib/config.js';
+import { renderHeadToHead } from '../src/render/terminal.js';
+import type { HeadToHeadOutput } from '../src/types/index.js';
+
+const originalPaths = getConfigPaths();
+const tempDirs: string[] = [];
+
+const TEAMS = {
+  toulouse: { id: 1, name: 'Stade Toulousain', logo: '' },
+  racing: { id: 2, name: 'Racing 92', logo: '' },
+  pau: { id: 3, name: 'Section Paloise', logo: '' },
+};
+
+function buildGame(
+  id: number,
+  season: number,
+  home: { id: number; name: string; logo: string },
+  away: { id: number; name: string; logo: string },
+  scores: { home: number; away: number }
+) {
+  const kickoff = new Date(Date.UTC(season + 1, 1, 14, 20));
+  return {
+    id,
+    date: kickoff.toISOString(),
+    time: '20:00',
+    timestamp: Math.floor(kickoff.getTime() / 1000),
+    timezone: 'UTC',
+    week: '12',
+    status: { short: 'FT', long: 'Finished' },
+    country: { id: 1, name: 'France', code: 'FR', flag: '' },
+    league: { id: 16, name: 'Top 14', type: 'League', logo: '', season },
+    teams: { home, away },
+    scores,
+  };
+}
+
+/**
+ * Even seasons: Toulouse beat Racing at home. Odd seasons: a draw in Paris.
+ */
+function gamesForSeason(season: number) {
+  const meeting = season % 2 === 0
+    ? buildGame(season * 10, season, TEAMS.toulouse, TEAMS.racing, { home: 24, away: 17 })
+    : buildGame(season * 10, season, TEAMS.racing, TEAMS.toulouse, { home: 20, away: 20 });
+  return [meeting, buildGame(season * 10 + 1, season, TEAMS.pau, TEAMS.racing, { home: 13, away: 9 })];
+}
+
+function stubApi(): ReturnType<typeof vi.fn> {
+  const fetchMock = vi.fn(async (input: string | URL | Request) => {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url);
+    const season = Number(url.searchParams.get('season'));
+    const response = url.pathname.endsWith('/games') && season ? gamesForSeason(season) : [];
+    return new Response(JSON.stringify({ get: 'games', parameters: {}, errors: [], results: response.length, response }), {
+      status: 200,
+    });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+async function runH2h(teamA: string, teamB: string, options: { limit?: number; seasons?: number } = {}) {
+  const logs: string[] = [];
+  const originalLog = console.log;
+  console.log = (...args: unknown[]) => {
+    logs.push(args.map((value) => String(value)).join(' '));
+  };
+
+  try {
+    await h2hCommand(teamA, teamB, { json: true, ...options });
+  } finally {
+    console.log = originalLog;
+  }
+
+  return JSON.parse(logs[0] ?? '{}') as HeadToHeadOutput & { reason?: string };
+}
+
+beforeEach(async () => {
+  await getCache().clear();
+  const dir = mkdtempSync(join(tmpdir(), 'rugbyclaw-h2h-'));
+  tempDirs.push(dir);
+  setConfigPathOverride(dir);
+  writeFileSync(join(dir, 'config.json'), JSON.stringify({
+    schema_version: 1,
+    timezone: 'UTC',
+    favorite_leagues: ['top14'],
+    favorite_teams: [],
+  }, null, 2));
+  writeFileSync(join(dir, 'secrets.json'), JSON.stringify({ api_key: 'test-key', api_tier: 'premium' }, null, 2));
+});
+
+afterEach(async () => {
+  setConfigPathOverride(originalPaths.configDir);
+  for (const dir of tempDirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  await getCache().clear();
+});
+
+describe('h2h command', () => {
+  it('aggregates meetings across seasons from team A\'s point of view', async () => {
+    const fetchMock = stubApi();
+
+    const output = await runH2h('toulouse', 'racing', { seasons: 2 });
+
+    expect(output.team_a).toEqual({ id: '1', name: 'Stade Toulousain' });
+    expect(output.team_b).toEqual({ id: '2', name: 'Racing 92' });
+    expect(output.played).toBe(2);
+    expect(output.wins).toBe(1);
+    expect(output.draws).toBe(1);
+    expect(output.losses).toBe(0);
+    expect(output.avg_margin).toBe(3.5);
+    expect(output.meetings).toHaveLength(2);
+    expect(output.meetings[0].date > output.meetings[1].date).toBe(true);
+
+    // Current season is shared with the lookup; only the previous one is fetched on top.
+    const seasons = fetchMock.mock.calls.map(([input]) => new URL(String(input)).searchParams.get('season'));
+    expect(new Set(seasons).size).toBe(2);
+  });
+
+  it('flips the record when the teams are swapped and honors --limit', async () => {
+    stubApi();
+
+    const output = await runH2h('racing', 'toulouse', { seasons: 4, limit: 3 });
+
+    expect(output.played).toBe(4);
+    expect(output.wins).toBe(0);
+    expect(output.losses).toBe(2);
+    expect(output.avg_margin).toBe(-3.5);
+    expect(output.meetings).toHaveLength(3);
+  });
+
+  it('reports team_not_found when a team cannot be resolved', async () => {
+    stubApi();
+
+    const output = await runH2h('toulouse', 'zzzz');
+
+    expect(output.reason).toBe('team_not_found');
+    expect(output.meetings).toEqual([]);
+  });
+
+  it('renders the record and recent meetings', () => {
+    const text = renderHeadToHead({
+      team_a: { id: '1', name: 'Stade Toulousain' },
+      team_b: { id: '2', name: 'Racing 92' },
+      seasons: 3,
+      played: 2,
+      wins: 1,
+      draws: 1,
+      losses: 0,
+      avg_margin: 3.5,
+      meetings: [{
+        id: '20240',
+        home: { name: 'Stade Toulousain', score: 24 },
+        away: { name: 'Racing 92', score: 17 },
+        league: 'Top 14',
+        date: '2025-02-14',
+        time: '20:00',
+        status: 'finished',
+      }],
+      generated_at: '2026-10-19T00:00:00.000Z',
+    });
+
+    expect(text).toContain('last 3 seasons');
+    expect(text).toContain('Stade Toulousain 1W');
+    expect(text).toContain('Avg margin: Stade Toulousain +3.5');
+    expect(text).toContain('2025-02-14');
+  });
+});
@@ -0,0 +1,198 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { describe, expect, it } from 'vitest';
+import { getConfigPaths, setConfigPathOverride } from '../src/lib/config.js';
+import { getLeagueById } from '../src/lib/leagues.js';
+import { feedToICS, matchesToICS, recordCalendarRevisions, reviseCalendar } from '../src/lib/ics.js';
+import type { Match } from '../src/types/index.js';
+
+const KICKOFF = Date.UTC(2026, 10, 7, 20, 5);
+const HOUR_MS = 60 * 60 * 1000;
+
+function buildMatch(overrides: Partial<Match> = {}): Match {
+  return {
+    id: '49979',
+    homeTeam: { id: '1', name: 'Stade Toulousain' },
+    awayTeam: { id: '2', name: 'Racing 92' },
+    league: getLeagueById('16')!,
+    date: new Date(KICKOFF),
+    status: 'scheduled',
+    timestamp: KICKOFF,
+    ...overrides,
+  };
+}
+
+function eventField(ics: string, name: string): string | undefined {
+  return ics.split('\r\n').find((line) => line.startsWith(`${name}:`))?.slice(name.length + 1);
+}
+
+describe('ics revisions', () => {
+  it('keeps SEQUENCE and DTSTAMP stable across unchanged re-exports', () => {
+    const match = buildMatch();
+    const first = reviseCalendar([match], {}, KICKOFF - 10 * 24 * HOUR_MS);
+    const second = reviseCalendar([match], first, KICKOFF - 2 * 24 * HOUR_MS);
+
+    expect(second).toEqual(first);
+    expect(matchesToICS([match], { revisions: second })).toBe(matchesToICS([match], { revisions: first }));
+    expect(eventField(matchesToICS([match], { revisions: first }), 'SEQUENCE')).toBe('0');
+    expect(eventField(matchesToICS([match], { revisions: first }), 'DTSTAMP')).toBe('20261028T200500Z');
+  });
+
+  it('bumps SEQUENCE when the kickoff moves, even to an earlier slot', () => {
+    const original = reviseCalendar([buildMatch()], {}, KICKOFF - 10 * 24 * HOUR_MS);
+    const later = buildMatch({ timestamp: KICKOFF + 2 * HOUR_MS, date: new Date(KICKOFF + 2 * HOUR_MS) });
+    const moved = reviseCalendar([later], original, KICKOFF - 5 * 24 * HOUR_MS);
+    const backAgain = reviseCalendar([buildMatch()], moved, KICKOFF - 4 * 24 * HOUR_MS);
+
+    expect(moved['49979']).toMatchObject({ sequence: 1, kickoff: KICKOFF + 2 * HOUR_MS });
+    expect(backAgain['49979'].sequence).toBe(2);
+    expect(eventField(matchesToICS([later], { revisions: moved }), 'DTSTART')).toBe('20261107T220500Z');
+  });
+
+  it('marks postponed/cancelled matches CANCELLED and pending kickoffs TENTATIVE', () => {
+    const scheduled = reviseCalendar([buildMatch()], {}, KICKOFF - 10 * 24 * HOUR_MS);
+    const postponed = buildMatch({ status: 'postponed' });
+    const revised = reviseCalendar([postponed], scheduled, KICKOFF - HOUR_MS);
+    const ics = matchesToICS([postponed], { revisions: revised });
+
+    expect(eventField(ics, 'STATUS')).toBe('CANCELLED');
+    expect(eventField(ics, 'SEQUENCE')).toBe('1');
+    expect(eventField(matchesToICS([buildMatch({ status: 'cancelled' })]), 'STATUS')).toBe('CANCELLED');
+    expect(eventField(matchesToICS([buildMatch({ timeTbd: true })]), 'STATUS')).toBe('TENTATIVE');
+    expect(eventField(matchesToICS([buildMatch()]), 'STATUS')).toBe('CONFIRMED');
+  });
+
+  it('drops revisions for matches long past', () => {
+    const revisions = reviseCalendar([buildMatch()], {}, KICKOFF - HOUR_MS);
+    expect(reviseCalendar([], revisions, KICKOFF + 31 * 24 * HOUR_MS)).toEqual({});
+  });
+});
+
+describe('ics revision storage', () => {
+  it('keeps revisions in calendar.json and serialises concurrent updates', async () => {
+    const originalPaths = getConfigPaths();
+    const dir = mkdtempSync(join(tmpdir(), 'rugbyclaw-ics-'));
+    try {
+      setConfigPathOverride(dir);
+      writeFileSync(join(dir, 'state.json'), JSON.stringify({
+        matches: {},
+        calendar: { legacy: { kickoff: KICKOFF, status: 'CONFIRMED', sequence: 2, stamp: KICKOFF - HOUR_MS } },
+        last_updated: 0,
+      }));
+
+      await Promise.all([
+        recordCalendarRevisions([buildMatch({ id: 'a' })]),
+        recordCalendarRevisions([buildMatch({ id: 'b' })]),
+        recordCalendarRevisions([buildMatch({ id: 'c' })]),
+      ]);
+
+      const stored = JSON.parse(readFileSync(getConfigPaths().calendarPath, 'utf-8'));
+      expect(Object.keys(stored.revisions).sort()).toEqual(['a', 'b', 'c', 'legacy']);
+      expect(stored.revisions.legacy.sequence).toBe(2);
+      expect(JSON.parse(readFileSync(join(dir, 'state.json'), 'utf-8')).calendar.legacy).toBeDefined();
+    } finally {
+      setConfigPathOverride(originalPaths.configDir);
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('cancels vanished feed matches but keeps omitted ones tracked', async () => {
+    const originalPaths = getConfigPaths();
+    const dir = mkdtempSync(join(tmpdir(), 'rugbyclaw-ics-'));
+    const now = KICKOFF - 2 * 24 * HOUR_MS;
+    const uids = (ics: string) => ics.split('\r\n').filter((line) => line.startsWith('UID:'));
+    try {
+      setConfigPathOverride(dir);
+      const [a, b, c] = ['a', 'b', 'c'].map((id, index) => buildMatch({ id, timestamp: KICKOFF + index * HOUR_MS }));
+      await feedToICS('fixtures/top14', [a, b], {}, now);
+
+      // b is only past the limit now: left out, not cancelled
+      const limited = await feedToICS('fixtures/top14', [a, c], { omitted: ['b'] }, now);
+      expect(uids(limited)).toEqual(['UID:a@rugbyclaw', 'UID:c@rugbyclaw']);
+      expect(limited).not.toContain('STATUS:CANCELLED');
+
+      // b disappears for good
+      const vanished = await feedToICS('fixtures/top14', [a, c], {}, now);
+      const event = vanished.split('BEGIN:VEVENT').find((block) => block.includes('UID:b@rugbyclaw'));
+      expect(event).toContain('STATUS:CANCELLED');
+      expect(event).toContain('SEQUENCE:1');
+    } finally {
+      setConfigPathOverride(originalPaths.configDir);
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('ics alarms and duration', () => {
+  it('adds one VALARM per distinct offset', () => {
+    const ics = matchesToICS([buildMatch()], { alarms: [60, 1440, 90, 60] });
+    const triggers = ics.split('\r\n').filter((line) => line.startsWith('TRIGGER:'));
+
+    expect(triggers).toEqual(['TRIGGER:-PT1H', 'TRIGGER:-P1D', 'TRIGGER:-PT90M']);
+    expect(ics.match(/BEGIN:VALARM\r\nACTION:DISPLAY/g)).toHaveLength(3);
+    expect(matchesToICS([buildMatch()])).not.toContain('BEGIN:VALARM');
+  });
+
+  it('uses the league duration, then the default, then 100 minutes', () => {
+    const match = buildMatch();
+    expect(eventField(matchesToICS([match]), 'DTEND')).toBe('20261107T214500Z');
+    expect(eventField(matchesToICS([match], { durations: { default: 120 } }), 'DTEND')).toBe('20261107T220500Z');
+    expect(eventField(matchesToICS([match], { durations: { top14: 110, default: 120 } }), 'DTEND')).toBe('20261107T215500Z');
+  });
+});
+
+describe('ics local time', () => {
+  function vtimezone(ics: string): string[] {
+    const lines = ics.split('\r\n');
+    return lines.slice(lines.indexOf('BEGIN:VTIMEZONE'), lines.indexOf('END:VTIMEZONE') + 1);
+  }
+
+  it('writes TZID wall-clock times with both European DST changes', () => {
+    const ics = matchesToICS([buildMatch()], { timeZone: 'Europe/Paris' });
+
+    expect(ics).toContain('DTSTART;TZID=Europe/Paris:20261107T210500\r\n');
+    expect(ics).toContain('DTEND;TZID=Europe/Paris:20261107T224500\r\n');
+    expect(vtimezone(ics).join('\n')).toContain([
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20260329T020000',
+      'TZOFFSETFROM:+0100',
+      'TZOFFSETTO:+0200',
+      'END:DAYLIGHT',
+      'BEGIN:STANDARD',
+      'DTSTART:20261025T030000',
+      'TZOFFSETFROM:+0200',
+      'TZOFFSETTO:+0100',
+      'END:STANDARD',
+    ].join('\n'));
+  });
+
+  it('covers a Southern Hemisphere season that crosses New Year', () => {
+    const december = buildMatch({ id: '1', timestamp: Date.UTC(2026, 11, 12, 6, 0), date: new Date(Date.UTC(2026, 11, 12, 6, 0)) });
+    const march = buildMatch({ id: '2', timestamp: Date.UTC(2027, 2, 20, 6, 0), date: new Date(Date.UTC(2027, 2, 20, 6, 0)) });
+    const ics = matchesToICS([december, march], { timeZone: 'Pacific/Auckland' });
+    const block = vtimezone(ics);
+
+    expect(ics).toContain('DTSTART;TZID=Pacific/Auckland:20261212T190000\r\n');
+    expect(block[2]).toBe('BEGIN:DAYLIGHT'); // January is summer
+    expect(block.filter((line) => line === 'BEGIN:STANDARD')).toHaveLength(2); // April 2026 and 2027
+    expect(block.filter((line) => line === 'BEGIN:DAYLIGHT')).toHaveLength(3);
+    expect(block).toContain('DTSTART:20270404T030000');
+  });
+
+  it('emits a single observance for zones without DST and keeps UTC by default', () => {
+    const block = vtimezone(matchesToICS([buildMatch()], { timeZone: 'Asia/Kolkata' }));
+
+    expect(block).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:Asia/Kolkata',
+      'BEGIN:STANDARD',
+      'DTSTART:20260101T053000',
+      'TZOFFSETFROM:+0530',
+      'TZOFFSETTO:+0530',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+    expect(matchesToICS([buildMatch()])).not.toContain('VTIMEZONE');
+  });
+});
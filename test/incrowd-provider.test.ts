@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getCache } from '../src/lib/cache.js';
+import { InCrowdProvider, mapInCrowdPhase, mapInCrowdStatus } from '../src/lib/providers/incrowd.js';
+import { ProviderChain } from '../src/lib/providers/registry.js';
+import { PROXY_URL } from '../src/lib/providers/apisports.js';
+
+const INCROWD_MATCHES_URL = 'https://rugby-union-feeds.incrowdsports.com/v1/matches';
+const HOUR_MS = 60 * 60 * 1000;
+
+function buildFeed(nowMs: number) {
+  return {
+    status: 'success',
+    data: [
+      {
+        id: 501,
+        date: new Date(nowMs - 26 * HOUR_MS).toISOString(),
+        status: 'Result',
+        round: 9,
+        homeTeam: { id: 11, name: 'Bath Rugby', score: 31 },
+        awayTeam: { id: 12, name: 'Saracens', score: 24 },
+        venue: { name: 'The Rec' },
+      },
+      {
+        id: 502,
+        date: new Date(nowMs - HOUR_MS).toISOString(),
+        status: 'Live',
+        round: 10,
+        homeTeam: { id: 13, name: 'Leicester Tigers', score: '12' },
+        awayTeam: { id: 14, name: 'Harlequins', score: '10' },
+      },
+      {
+        id: 503,
+        date: new Date(nowMs + 5 * 24 * HOUR_MS).toISOString(),
+        status: 'Fixture',
+        round: 11,
+        homeTeam: { id: 15, name: 'Bristol Bears', score: null },
+        awayTeam: { id: 16, name: 'Gloucester Rugby', score: null },
+      },
+      {
+        id: 504,
+        date: new Date(nowMs + 6 * 24 * HOUR_MS).toISOString(),
+        status: 'Fixture',
+        homeTeam: { name: 'TBC' },
+        awayTeam: { name: 'Exeter Chiefs' },
+      },
+    ],
+  };
+}
+
+function urlOf(input: string | URL | Request): string {
+  return typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+}
+
+describe('incrowd provider', () => {
+  beforeEach(async () => {
+    await getCache().clear();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    await getCache().clear();
+  });
+
+  it('maps feed status labels', () => {
+    expect(mapInCrowdStatus('Result')).toBe('finished');
+    expect(mapInCrowdStatus('Half Time')).toBe('live');
+    expect(mapInCrowdStatus('Postponed')).toBe('postponed');
+    expect(mapInCrowdStatus('Fixture')).toBe('scheduled');
+    expect(mapInCrowdStatus(undefined)).toBe('scheduled');
+    expect(mapInCrowdPhase('Half Time')).toBe('half_time');
+    expect(mapInCrowdPhase('Second Half')).toBe('second_half');
+    expect(mapInCrowdPhase('Live')).toBeUndefined();
+  });
+
+  it('returns normalized fixtures, results and live matches', async () => {
+    const nowMs = Date.now();
+    const fetchFn = vi.fn(async (input: string | URL | Request) => {
+      const url = new URL(urlOf(input));
+      expect(url.searchParams.get('compId')).toBe('1011');
+      return new Response(JSON.stringify(buildFeed(nowMs)), { status: 200 });
+    });
+
+    const provider = new InCrowdProvider({ fetchFn: fetchFn as unknown as typeof fetch });
+
+    const fixtures = await provider.getLeagueFixtures('13');
+    expect(fixtures.map((match) => match.id)).toEqual(['incrowd:503']);
+    expect(fixtures[0]?.score).toBeUndefined();
+    expect(fixtures[0]?.league.slug).toBe('premiership');
+
+    const results = await provider.getLeagueResults('13');
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      id: 'incrowd:501',
+      status: 'finished',
+      score: { home: 31, away: 24 },
+      venue: 'The Rec',
+      round: '9',
+      homeTeam: { id: 'incrowd:11', name: 'Bath Rugby' },
+    });
+
+    const live = await provider.getLive(['13']);
+    expect(live.map((match) => [match.id, match.score])).toEqual([['incrowd:502', { home: 12, away: 10 }]]);
+
+    // Season probes are fetched once, then served from cache.
+    const callsAfterFirstLoad = fetchFn.mock.calls.length;
+    await provider.getLeagueResults('13');
+    expect(fetchFn.mock.calls.length).toBe(callsAfterFirstLoad);
+  });
+
+  it('refetches live scores after fixtures were cached', async () => {
+    const nowMs = Date.now();
+    let homeScore = 12;
+    const fetchFn = vi.fn(async () => {
+      const feed = buildFeed(nowMs);
+      feed.data[1].homeTeam.score = String(homeScore);
+      return new Response(JSON.stringify(feed), { status: 200 });
+    });
+    const provider = new InCrowdProvider({ fetchFn: fetchFn as unknown as typeof fetch });
+
+    await provider.getLeagueFixtures('13');
+    const callsAfterFixtures = fetchFn.mock.calls.length;
+    homeScore = 19;
+
+    const live = await provider.getLive(['13']);
+    expect(fetchFn.mock.calls.length).toBeGreaterThan(callsAfterFixtures);
+    expect(live[0]?.score).toEqual({ home: 19, away: 10 });
+  });
+
+  it('throws when every league request fails', async () => {
+    const fetchFn = vi.fn(async () => new Response('nope', { status: 503 }));
+    const provider = new InCrowdProvider({ fetchFn: fetchFn as unknown as typeof fetch });
+
+    await expect(provider.getToday(['13', '51'])).rejects.toThrow('all 2 league requests failed');
+  });
+
+  it('serves scores through the chain when API-Sports is rate limited', async () => {
+    const nowMs = Date.now();
+    vi.stubGlobal('fetch', vi.fn(async (input: string | URL | Request) => {
+      const url = urlOf(input);
+      if (url.startsWith(`${PROXY_URL}/games?`)) {
+        return new Response(JSON.stringify({ errors: { requests: 'limit' } }), { status: 429 });
+      }
+      if (url.startsWith(INCROWD_MATCHES_URL)) {
+        return new Response(JSON.stringify(buildFeed(nowMs)), { status: 200 });
+      }
+      throw new Error(`Unexpected URL: ${url}`);
+    }));
+
+    const provider = new ProviderChain();
+    const results = await provider.getLeagueResults('13');
+
+    expect(results[0]?.id).toBe('incrowd:501');
+    await expect(provider.getLeagueResults('16')).rejects.toThrow('Daily limit reached');
+  });
+});
@@ -44,9 +44,12 @@ describe('json contract', () => {
     expect(sortedKeys(output.matches[0] as unknown as Record<string, unknown>)).toEqual([
       'away',
       'date',
+      'elapsed',
       'home',
       'id',
       'league',
+      'periods',
+      'phase',
       'status',
       'summary',
       'time',
@@ -82,9 +85,12 @@ describe('json contract', () => {
     expect(sortedKeys(results.matches[0] as unknown as Record<string, unknown>)).toEqual([
       'away',
       'date',
+      'elapsed',
       'home',
       'id',
       'league',
+      'periods',
+      'phase',
       'status',
       'summary',
       'time',
@@ -0,0 +1,195 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { notifyCommand } from '../src/commands/notify.js';
+import { getCache } from '../src/lib/cache.js';
+import { getConfigPaths, setConfigPathOverride } from '../src/lib/config.js';
+import { ApiSportsProvider } from '../src/lib/providers/apisports.js';
+import { renderMatch, renderResults } from '../src/render/terminal.js';
+import type { Notification } from '../src/types/index.js';
+
+const originalPaths = getConfigPaths();
+const tempDirs: string[] = [];
+
+function buildGame(
+  status: { short: string; long: string; timer?: string },
+  scores: { home: number | null; away: number | null },
+  periods: { first: { home: number | null; away: number | null }; second: { home: number | null; away: number | null } }
+) {
+  const kickoff = new Date(Date.now() - 60 * 60 * 1000);
+  return {
+    get: 'games',
+    parameters: {},
+    errors: [],
+    results: 1,
+    response: [
+      {
+        id: 4242,
+        date: kickoff.toISOString(),
+        time: kickoff.toISOString().slice(11, 16),
+        timestamp: Math.floor(kickoff.getTime() / 1000),
+        timezone: 'UTC',
+        week: '12',
+        status,
+        country: { id: 1, name: 'France', code: 'FR', flag: '' },
+        league: { id: 16, name: 'Top 14', type: 'League', logo: '', season: 2025 },
+        teams: {
+          home: { id: 1, name: 'Toulouse', logo: '' },
+          away: { id: 2, name: 'Racing 92', logo: '' },
+        },
+        scores,
+        periods,
+      },
+    ],
+  };
+}
+
+const FIRST_HALF = buildGame(
+  { short: '1H', long: 'First Half' },
+  { home: 7, away: 3 },
+  { first: { home: 7, away: 3 }, second: { home: null, away: null } }
+);
+const HALF_TIME = buildGame(
+  { short: 'HT', long: 'Half Time' },
+  { home: 10, away: 7 },
+  { first: { home: 10, away: 7 }, second: { home: null, away: null } }
+);
+const FULL_TIME = buildGame(
+  { short: 'FT', long: 'Finished' },
+  { home: 24, away: 17 },
+  { first: { home: 10, away: 7 }, second: { home: 14, away: 10 } }
+);
+
+function stubGames(payload: unknown): void {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(payload), { status: 200 })));
+}
+
+async function runLiveNotify(): Promise<Notification[]> {
+  const logs: string[] = [];
+  const originalLog = console.log;
+  console.log = (...args: unknown[]) => {
+    logs.push(args.map((value) => String(value)).join(' '));
+  };
+
+  try {
+    await notifyCommand({ json: true, live: true });
+  } finally {
+    console.log = originalLog;
+  }
+
+  const payload = JSON.parse(logs[0] ?? '{}') as { notifications: Notification[] };
+  return payload.notifications;
+}
+
+beforeEach(async () => {
+  await getCache().clear();
+});
+
+afterEach(async () => {
+  setConfigPathOverride(originalPaths.configDir);
+  for (const dir of tempDirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  await getCache().clear();
+});
+
+describe('match periods', () => {
+  it('only reports the first half once it is over', async () => {
+    const provider = new ApiSportsProvider('test-key');
+
+    stubGames(FIRST_HALF);
+    expect((await provider.getMatch('4242'))?.periods).toBeUndefined();
+
+    await getCache().clear();
+    stubGames(HALF_TIME);
+    expect((await provider.getMatch('4242'))?.periods).toEqual({ first: { home: 10, away: 7 } });
+
+    await getCache().clear();
+    stubGames(FULL_TIME);
+    expect((await provider.getMatch('4242'))?.periods).toEqual({
+      first: { home: 10, away: 7 },
+      second: { home: 14, away: 10 },
+    });
+  });
+
+  it('maps in-play status codes to a phase and elapsed minute', async () => {
+    const provider = new ApiSportsProvider('test-key');
+
+    stubGames(HALF_TIME);
+    expect(await provider.getMatch('4242')).toMatchObject({ status: 'live', phase: 'half_time' });
+
+    await getCache().clear();
+    const secondHalf = buildGame(
+      { short: '2H', long: 'Second Half', timer: '78+2' },
+      { home: 17, away: 14 },
+      { first: { home: 10, away: 7 }, second: { home: 7, away: 7 } }
+    );
+    stubGames(secondHalf);
+    expect(await provider.getMatch('4242')).toMatchObject({ phase: 'second_half', elapsed: 80 });
+
+    await getCache().clear();
+    stubGames(FULL_TIME);
+    const finished = await provider.getMatch('4242');
+    expect(finished?.phase).toBeUndefined();
+    expect(finished?.elapsed).toBeUndefined();
+  });
+
+  it('renders the half-time score for results and single matches', () => {
+    const match = {
+      id: '4242',
+      home: { name: 'Toulouse', score: 24 },
+      away: { name: 'Racing 92', score: 17 },
+      league: 'Top 14',
+      date: '2026-02-14',
+      time: '21:05',
+      status: 'finished' as const,
+      periods: { first: { home: 10, away: 7 }, second: { home: 14, away: 10 } },
+    };
+
+    expect(renderResults({ matches: [match], generated_at: '2026-02-15T00:00:00.000Z' })).toContain('HT 10-7');
+    expect(renderMatch(match, false, 'UTC')).toContain('HT 10-7');
+    expect(renderMatch({ ...match, periods: undefined }, false, 'UTC')).not.toContain('HT');
+  });
+
+  it('emits half_time once, then includes HT in the fulltime message', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'rugbyclaw-periods-'));
+    tempDirs.push(dir);
+    setConfigPathOverride(dir);
+    writeFileSync(join(dir, 'config.json'), JSON.stringify({
+      schema_version: 1,
+      timezone: 'UTC',
+      favorite_leagues: ['top14'],
+      favorite_teams: [],
+    }, null, 2));
+    writeFileSync(join(dir, 'secrets.json'), JSON.stringify({ api_key: 'test-key', api_tier: 'premium' }, null, 2));
+    writeFileSync(join(dir, 'state.json'), JSON.stringify({
+      matches: {
+        '4242': {
+          match_id: '4242',
+          status: 'live',
+          last_score_hash: '7-3-live',
+          last_notified_at: 0,
+          notified: { day_before: false, hour_before: false, kickoff: true, fulltime: false },
+        },
+      },
+      last_updated: 0,
+    }, null, 2));
+
+    stubGames(HALF_TIME);
+    const halfTime = await runLiveNotify();
+    expect(halfTime.map((n) => n.type)).toEqual(['half_time']);
+    expect(halfTime[0]?.message).toContain('Toulouse 10-7 Racing 92');
+    expect(halfTime[0]?.match?.periods).toEqual({ first: { home: 10, away: 7 } });
+
+    // Next poll lands after the debounce window.
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 5 * 60 * 1000);
+    await getCache().clear();
+    stubGames(FULL_TIME);
+    const fullTime = await runLiveNotify();
+    expect(fullTime.map((n) => n.type)).toEqual(['fulltime']);
+    expect(fullTime[0]?.message).toContain('(HT 10-7)');
+  });
+});
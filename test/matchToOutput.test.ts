@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { matchToOutput } from '../src/render/terminal.js';
+import { matchToOutput, renderScores } from '../src/render/terminal.js';
 import type { Match } from '../src/types/index.js';
 
 describe('matchToOutput', () => {
@@ -55,4 +55,39 @@ describe('matchToOutput', () => {
     expect(output.time_source).toBe('secondary');
     expect(output.time_confidence).toBe('exact');
   });
+
+  it('exposes phase and elapsed minute for live matches only', () => {
+    const live: Match = {
+      id: '4',
+      homeTeam: { id: 'h', name: 'Home' },
+      awayTeam: { id: 'a', name: 'Away' },
+      league: { id: '16', slug: 'top14', name: 'Top 14', country: 'France', sport: 'rugby' },
+      date: new Date('2026-02-14T20:05:00Z'),
+      status: 'live',
+      phase: 'second_half',
+      elapsed: 63,
+      score: { home: 17, away: 12 },
+      timestamp: Date.parse('2026-02-14T20:05:00Z'),
+    };
+
+    const output = matchToOutput(live, { timeZone: 'UTC' });
+    expect(output.phase).toBe('second_half');
+    expect(output.elapsed).toBe(63);
+
+    const finished = matchToOutput({ ...live, status: 'finished' }, { timeZone: 'UTC' });
+    expect(finished.phase).toBeUndefined();
+    expect(finished.elapsed).toBeUndefined();
+
+    const rendered = renderScores({
+      matches: [
+        output,
+        matchToOutput({ ...live, id: '5', phase: 'half_time', elapsed: undefined }, { timeZone: 'UTC' }),
+        matchToOutput({ ...live, id: '6', phase: 'extra_time', elapsed: undefined }, { timeZone: 'UTC' }),
+      ],
+      generated_at: '2026-02-14T21:10:00.000Z',
+    });
+    expect(rendered).toContain("LIVE 63'");
+    expect(rendered).toContain('HT');
+    expect(rendered).toContain('LIVE ET');
+  });
 });
@@ -0,0 +1,167 @@
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { notifyCommand } from '../src/commands/notify.js';
+import { notifyHistoryCommand } from '../src/commands/notify-history.js';
+import { getCache } from '../src/lib/cache.js';
+import { getConfigPaths, loadNotificationHistory, setConfigPathOverride } from '../src/lib/config.js';
+import type { Notification, NotificationHistoryEntry, NotifyHistoryOutput, State } from '../src/types/index.js';
+
+const originalPaths = getConfigPaths();
+
+let dir: string;
+let logs: string[];
+let hooks: string[];
+
+function notification(type: Notification['type'], matchId: string, home: string, away: string, league = 'Top 14'): Notification {
+  return {
+    type,
+    match_id: matchId,
+    message: `${type}: ${home} vs ${away}`,
+    match: { id: matchId, home: { name: home }, away: { name: away }, league, date: '2026-10-17', time: '21:05', status: 'finished' },
+  };
+}
+
+function writeConfig(sinks: unknown[] = []): void {
+  writeFileSync(join(dir, 'config.json'), JSON.stringify({
+    schema_version: 1,
+    timezone: 'UTC',
+    favorite_leagues: ['top14'],
+    favorite_teams: [],
+    notify: { sinks },
+  }, null, 2));
+}
+
+async function history(options: Parameters<typeof notifyHistoryCommand>[0]): Promise<NotifyHistoryOutput> {
+  logs.length = 0;
+  await notifyHistoryCommand({ json: true, ...options });
+  return JSON.parse(logs[0] ?? '{}') as NotifyHistoryOutput;
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'rugbyclaw-notify-history-'));
+  setConfigPathOverride(dir);
+  logs = [];
+  hooks = [];
+  vi.spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+    logs.push(args.map((value) => String(value)).join(' '));
+  });
+});
+
+afterEach(async () => {
+  setConfigPathOverride(originalPaths.configDir);
+  rmSync(dir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  await getCache().clear();
+});
+
+describe('notify history', () => {
+  it('records each sent notification with how every sink took it', async () => {
+    writeConfig([
+      { type: 'webhook', name: 'ok', url: 'http://hooks.test/ok' },
+      { type: 'webhook', name: 'down', url: 'http://hooks.test/down' },
+    ]);
+    writeFileSync(join(dir, 'secrets.json'), JSON.stringify({ api_key: 'test-key', api_tier: 'premium' }, null, 2));
+    const state: State = {
+      matches: {
+        '4242': {
+          match_id: '4242',
+          status: 'live',
+          last_score_hash: '24-10-live',
+          last_notified_at: 0,
+          notified: { day_before: false, hour_before: false, kickoff: true, half_time: true, fulltime: false },
+        },
+      },
+      last_updated: 0,
+    };
+    writeFileSync(join(dir, 'state.json'), JSON.stringify(state, null, 2));
+
+    const kickoff = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    vi.stubGlobal('fetch', vi.fn(async (input: string | URL | Request) => {
+      const url = String(input);
+      if (url.startsWith('http://hooks.test/')) {
+        hooks.push(url);
+        return new Response(url.endsWith('/ok') ? 'ok' : 'bad', { status: url.endsWith('/ok') ? 200 : 400 });
+      }
+      if (!url.includes('/games?')) return new Response('not found', { status: 404 });
+      return new Response(JSON.stringify({
+        get: 'games',
+        parameters: {},
+        errors: [],
+        results: 1,
+        response: [{
+          id: 4242,
+          date: kickoff.toISOString(),
+          time: kickoff.toISOString().slice(11, 16),
+          timestamp: Math.floor(kickoff.getTime() / 1000),
+          timezone: 'UTC',
+          week: '9',
+          status: { short: 'FT', long: 'Finished' },
+          country: { id: 1, name: 'France', code: 'FR', flag: '' },
+          league: { id: 16, name: 'Top 14', type: 'League', logo: '', season: 2025 },
+          teams: { home: { id: 1, name: 'Stade Toulousain', logo: '' }, away: { id: 2, name: 'Racing 92', logo: '' } },
+          scores: { home: 31, away: 10 },
+        }],
+      }), { status: 200 });
+    }));
+
+    await notifyCommand({ live: true, json: true });
+
+    const entries = await loadNotificationHistory();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ status: 'sent', notification: { type: 'fulltime', match_id: '4242' } });
+    expect(entries[0].deliveries).toEqual([
+      { sink: 'ok', delivered: true },
+      { sink: 'down', delivered: false, error: expect.stringContaining('400') },
+    ]);
+    expect(statSync(getConfigPaths().historyPath).mode & 0o777).toBe(0o600);
+  });
+
+  it('filters by team, league, type and day, newest last', async () => {
+    writeConfig();
+    const entries: NotificationHistoryEntry[] = [
+      { at: '2026-10-10T20:00:00.000Z', status: 'sent', notification: notification('fulltime', '1', 'Stade Toulousain', 'Racing 92') },
+      { at: '2026-10-11T20:00:00.000Z', status: 'held', notification: notification('score_update', '2', 'Leinster', 'Munster', 'URC') },
+      { at: '2026-10-17T19:00:00.000Z', status: 'sent', notification: notification('kickoff', '3', 'Racing 92', 'Stade Toulousain') },
+      {
+        at: '2026-10-18T07:00:00.000Z',
+        status: 'sent',
+        notification: { type: 'catch_up', match_id: 'catch_up', message: 'While you were away', batched: [notification('fulltime', '2', 'Leinster', 'Munster', 'URC')] },
+      },
+    ];
+    writeFileSync(join(dir, 'notify-history.jsonl'), `${entries.map((entry) => JSON.stringify(entry)).join('\n')}\n{"at": "cut short`);
+
+    expect((await history({})).entries.map((entry) => entry.notification.match_id)).toEqual(['1', '2', '3', 'catch_up']);
+    expect((await history({ team: 'toulouse' })).entries.map((entry) => entry.notification.match_id)).toEqual(['1', '3']);
+    expect((await history({ league: 'urc' })).entries.map((entry) => entry.notification.match_id)).toEqual(['2', 'catch_up']);
+    expect((await history({ type: 'fulltime', since: '2026-10-10', until: '2026-10-16' })).entries).toHaveLength(1);
+
+    const limited = await history({ limit: 2 });
+    expect(limited.total).toBe(4);
+    expect(limited.entries.map((entry) => entry.notification.match_id)).toEqual(['3', 'catch_up']);
+  });
+
+  it('replays the listed notifications to the sinks without recording them again', async () => {
+    writeConfig([{ type: 'webhook', name: 'ok', url: 'http://hooks.test/ok' }]);
+    const entry: NotificationHistoryEntry = {
+      at: '2026-10-17T21:00:00.000Z',
+      status: 'sent',
+      notification: notification('fulltime', '1', 'Stade Toulousain', 'Racing 92'),
+    };
+    const line = `${JSON.stringify(entry)}\n`;
+    writeFileSync(join(dir, 'notify-history.jsonl'), line);
+    vi.stubGlobal('fetch', vi.fn(async (input: string | URL | Request) => {
+      hooks.push(String(input));
+      return new Response('ok', { status: 200 });
+    }));
+
+    const output = await history({ type: 'fulltime', replay: true });
+
+    expect(output.replayed).toBe(1);
+    expect(output.deliveries).toEqual([{ sink: 'ok', type: 'webhook', delivered: 1, failed: 0 }]);
+    expect(hooks).toEqual(['http://hooks.test/ok']);
+    expect(readFileSync(join(dir, 'notify-history.jsonl'), 'utf8')).toBe(line);
+  });
+});
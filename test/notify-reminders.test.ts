@@ -0,0 +1,142 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { notifyCommand } from '../src/commands/notify.js';
+import { getCache } from '../src/lib/cache.js';
+import { getConfigPaths, setConfigPathOverride } from '../src/lib/config.js';
+import type { FavoriteTeam, NotifyOutput, State } from '../src/types/index.js';
+
+const originalPaths = getConfigPaths();
+const MINUTE_MS = 60 * 1000;
+const KICKOFF = Date.UTC(2026, 10, 7, 20, 5);
+
+let dir: string;
+
+function writeConfig(favoriteTeams: FavoriteTeam[], notify?: Record<string, unknown>): void {
+  writeFileSync(join(dir, 'config.json'), JSON.stringify({
+    schema_version: 1,
+    timezone: 'UTC',
+    favorite_leagues: ['top14'],
+    favorite_teams: favoriteTeams,
+    notify,
+  }, null, 2));
+}
+
+const TOULOUSE: FavoriteTeam = { id: '1', name: 'Stade Toulousain', slug: 'stade-toulousain', leagueIds: ['16'] };
+
+beforeEach(async () => {
+  await getCache().clear();
+  dir = mkdtempSync(join(tmpdir(), 'rugbyclaw-notify-reminders-'));
+  setConfigPathOverride(dir);
+  writeFileSync(join(dir, 'secrets.json'), JSON.stringify({ api_key: 'test-key', api_tier: 'premium' }, null, 2));
+
+  vi.stubGlobal('fetch', vi.fn(async () => {
+    const response = [{
+      id: 49979,
+      date: new Date(KICKOFF).toISOString(),
+      time: '20:05',
+      timestamp: KICKOFF / 1000,
+      timezone: 'UTC',
+      week: '9',
+      status: { short: 'NS', long: 'Not Started' },
+      country: { id: 1, name: 'France', code: 'FR', flag: '' },
+      league: { id: 16, name: 'Top 14', type: 'League', logo: '', season: 2025 },
+      teams: { home: { id: 1, name: 'Stade Toulousain', logo: '' }, away: { id: 2, name: 'Racing 92', logo: '' } },
+      scores: { home: null, away: null },
+    }];
+    return new Response(JSON.stringify({ get: 'games', parameters: {}, errors: [], results: 1, response }), { status: 200 });
+  }));
+  vi.useFakeTimers({ toFake: ['Date'] });
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  setConfigPathOverride(originalPaths.configDir);
+  rmSync(dir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  await getCache().clear();
+});
+
+async function runDaily(at: number): Promise<NotifyOutput> {
+  vi.setSystemTime(at);
+  const logs: string[] = [];
+  const spy = vi.spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+    logs.push(args.map((value) => String(value)).join(' '));
+  });
+  await notifyCommand({ daily: true, json: true });
+  spy.mockRestore();
+  return JSON.parse(logs[0] ?? '{}') as NotifyOutput;
+}
+
+describe('notify reminders', () => {
+  it('sends each configured offset once, skipping ones already passed', async () => {
+    writeConfig([{ ...TOULOUSE, reminders: ['3d', '2h', '15m'] }]);
+
+    const first = await runDaily(KICKOFF - 100 * MINUTE_MS);
+    expect(first.notifications).toHaveLength(1);
+    expect(first.notifications[0]).toMatchObject({ type: 'reminder', reminder: '2h' });
+    expect(first.notifications[0].message).toBe(
+      'Stade Toulousain vs Racing 92 kicks off in 2 hours (Sat 08:05 PM)'
+    );
+
+    expect((await runDaily(KICKOFF - 90 * MINUTE_MS)).notifications).toEqual([]);
+
+    const last = await runDaily(KICKOFF - 14 * MINUTE_MS);
+    expect(last.notifications.map((n) => n.reminder)).toEqual(['15m']);
+
+    const state = JSON.parse(readFileSync(join(dir, 'state.json'), 'utf8')) as State;
+    expect(state.matches['49979'].notified.reminders).toEqual({ '3d': true, '2h': true, '15m': true });
+    expect(state.matches['49979'].notified.day_before).toBe(false);
+  });
+
+  it('holds a due reminder back until the debounce window has passed', async () => {
+    writeConfig([TOULOUSE], { reminders: ['1h', '15m'] });
+
+    expect((await runDaily(KICKOFF - 16 * MINUTE_MS)).notifications.map((n) => n.reminder)).toEqual(['1h']);
+    expect((await runDaily(KICKOFF - 15 * MINUTE_MS)).notifications).toEqual([]);
+    expect((await runDaily(KICKOFF - 14 * MINUTE_MS)).notifications.map((n) => n.reminder)).toEqual(['15m']);
+  });
+
+  it('keeps day-before and hour-before when no reminders are configured', async () => {
+    writeConfig([TOULOUSE]);
+
+    const output = await runDaily(KICKOFF - 30 * 60 * MINUTE_MS);
+    expect(output.notifications.map((n) => n.type)).toEqual(['day_before']);
+  });
+});
+
+describe('notify daemon', () => {
+  it('sleeps until each reminder and kickoff, keeping state between cycles and seeding the weekly clock', async () => {
+    writeConfig([{ ...TOULOUSE, reminders: ['2h'] }]);
+    vi.setSystemTime(KICKOFF - 3 * 60 * MINUTE_MS);
+
+    const controller = new AbortController();
+    const intervals: number[] = [];
+    const logs: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((value) => String(value)).join(' '));
+    });
+    const sigtermListeners = process.listenerCount('SIGTERM');
+
+    await notifyCommand({ daemon: true, json: true }, {
+      signal: controller.signal,
+      sleep: async (ms) => {
+        intervals.push(ms);
+        vi.setSystemTime(Date.now() + ms);
+        if (intervals.length === 2) controller.abort();
+      },
+    });
+
+    const cycles = logs.map((line) => JSON.parse(line) as NotifyOutput);
+    expect(cycles.map((cycle) => cycle.notifications.map((n) => n.type))).toEqual([[], ['reminder']]);
+    expect(cycles[1].next_check_at).toBe(new Date(KICKOFF).toISOString());
+    expect(intervals).toEqual([60 * MINUTE_MS, 120 * MINUTE_MS]);
+    expect(process.listenerCount('SIGTERM')).toBe(sigtermListeners);
+
+    const state = JSON.parse(readFileSync(join(dir, 'state.json'), 'utf8')) as State;
+    expect(state.last_weekly_at).toBe(KICKOFF - 3 * 60 * MINUTE_MS);
+    expect(state.matches['49979'].notified.reminders).toEqual({ '2h': true });
+  });
+});
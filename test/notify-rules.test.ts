@@ -0,0 +1,146 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { notifyCommand } from '../src/commands/notify.js';
+import { getCache } from '../src/lib/cache.js';
+import { getConfigPaths, loadState, setConfigPathOverride } from '../src/lib/config.js';
+import { getLeagueById } from '../src/lib/leagues.js';
+import { applyQuietHours, getNotifyMode, isQuietTime } from '../src/lib/notify-rules.js';
+import type { Config, Match, Notification, NotifyOutput, State } from '../src/types/index.js';
+
+const originalPaths = getConfigPaths();
+
+function buildMatch(leagueId: string, homeId = '1', awayId = '2'): Match {
+  return {
+    id: '49979',
+    homeTeam: { id: homeId, name: 'Home' },
+    awayTeam: { id: awayId, name: 'Away' },
+    league: getLeagueById(leagueId)!,
+    date: new Date(),
+    status: 'live',
+    timestamp: Date.now(),
+  };
+}
+
+function note(matchId: string, message: string): Notification {
+  return { type: 'score_update', match_id: matchId, message };
+}
+
+afterEach(async () => {
+  vi.useRealTimers();
+  setConfigPathOverride(originalPaths.configDir);
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  await getCache().clear();
+});
+
+describe('notify modes', () => {
+  const config: Pick<Config, 'favorite_teams' | 'notify'> = {
+    favorite_teams: [
+      { id: '1', name: 'Toulouse', slug: 'toulouse', leagueIds: ['16'], notify: 'all' },
+      { id: '3', name: 'Crusaders', slug: 'crusaders', leagueIds: ['71'] },
+      { id: '4', name: 'Blues', slug: 'blues', leagueIds: ['71'], notify: 'mute' },
+    ],
+    notify: { leagues: { top14: 'results_only', super_rugby: 'results_only' } },
+  };
+
+  it('lets a team setting override its league, most permissive team first', () => {
+    expect(getNotifyMode(buildMatch('16', '1', '2'), config)).toBe('all');
+    expect(getNotifyMode(buildMatch('16', '8', '9'), config)).toBe('results_only');
+    expect(getNotifyMode(buildMatch('71', '3', '5'), config)).toBe('results_only');
+    expect(getNotifyMode(buildMatch('71', '4', '5'), config)).toBe('mute');
+    expect(getNotifyMode(buildMatch('71', '4', '1'), config)).toBe('all');
+    expect(getNotifyMode(buildMatch('13', '8', '9'), config)).toBe('all');
+  });
+});
+
+describe('quiet hours', () => {
+  const overnight = { start: '23:00', end: '07:00' };
+
+  it('handles windows that cross midnight in the user timezone', () => {
+    expect(isQuietTime(overnight, 'Europe/Paris', Date.UTC(2026, 10, 7, 2, 0))).toBe(true); // 03:00
+    expect(isQuietTime(overnight, 'Europe/Paris', Date.UTC(2026, 10, 7, 6, 0))).toBe(false); // 07:00
+    expect(isQuietTime(overnight, 'Europe/Paris', Date.UTC(2026, 10, 7, 22, 30))).toBe(true); // 23:30
+    expect(isQuietTime({ start: '13:00', end: '14:00' }, 'UTC', Date.UTC(2026, 10, 7, 13, 59))).toBe(true);
+    expect(isQuietTime({ start: '25:00', end: '07:00' }, 'UTC', Date.UTC(2026, 10, 7, 3, 0))).toBe(false);
+    expect(isQuietTime(undefined, 'UTC')).toBe(false);
+  });
+
+  it('holds notifications in state and releases one catch-up with the latest per match', () => {
+    const state: State = { matches: {}, last_updated: 0 };
+    const night = Date.UTC(2026, 10, 7, 3, 0);
+    const options = { quietHours: overnight, timeZone: 'UTC' };
+
+    expect(applyQuietHours([note('1', '3-0'), note('2', '0-7')], state, { ...options, now: night })).toEqual({
+      notifications: [],
+      held: 2,
+    });
+    applyQuietHours([note('1', 'FT 24-17')], state, { ...options, now: night + 60_000 });
+    expect(state.quiet_digest).toMatchObject({ since: night });
+    expect(state.quiet_digest?.notifications).toHaveLength(3);
+
+    const morning = applyQuietHours([note('3', 'new')], state, { ...options, now: Date.UTC(2026, 10, 7, 8, 0) });
+    expect(morning.notifications.map((n) => n.type)).toEqual(['catch_up', 'score_update']);
+    expect(morning.notifications[0].message).toBe('🌙 Catch-up: 2 updates from quiet hours\n• 0-7\n• FT 24-17');
+    expect(morning.notifications[0].batched?.map((n) => n.message)).toEqual(['0-7', 'FT 24-17']);
+    expect(state.quiet_digest).toBeUndefined();
+  });
+});
+
+describe('notify with quiet hours', () => {
+  it('persists held notifications between runs', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'rugbyclaw-notify-rules-'));
+    setConfigPathOverride(dir);
+    writeFileSync(join(dir, 'config.json'), JSON.stringify({
+      schema_version: 1,
+      timezone: 'UTC',
+      favorite_leagues: ['top14'],
+      favorite_teams: [],
+      notify: { quiet_hours: { start: '22:00', end: '08:00' } },
+    }, null, 2));
+    writeFileSync(join(dir, 'secrets.json'), JSON.stringify({ api_key: 'test-key', api_tier: 'premium' }, null, 2));
+
+    const kickoff = Date.UTC(2026, 10, 7, 20, 5);
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      const response = [{
+        id: 49979,
+        date: new Date(kickoff).toISOString(),
+        time: '20:05',
+        timestamp: kickoff / 1000,
+        timezone: 'UTC',
+        week: '9',
+        status: { short: 'NS', long: 'Not Started' },
+        country: { id: 1, name: 'France', code: 'FR', flag: '' },
+        league: { id: 16, name: 'Top 14', type: 'League', logo: '', season: 2025 },
+        teams: { home: { id: 1, name: 'Stade Toulousain', logo: '' }, away: { id: 2, name: 'Racing 92', logo: '' } },
+        scores: { home: null, away: null },
+      }];
+      return new Response(JSON.stringify({ get: 'games', parameters: {}, errors: [], results: 1, response }), { status: 200 });
+    }));
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    async function run(at: number): Promise<NotifyOutput> {
+      vi.setSystemTime(at);
+      const logs: string[] = [];
+      const spy = vi.spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+        logs.push(args.map((value) => String(value)).join(' '));
+      });
+      await notifyCommand({ weekly: true, json: true });
+      spy.mockRestore();
+      return JSON.parse(logs[0] ?? '{}') as NotifyOutput;
+    }
+
+    try {
+      const night = await run(Date.UTC(2026, 10, 3, 23, 0));
+      expect(night).toMatchObject({ notifications: [], held: 1 });
+      expect((await loadState()).quiet_digest?.notifications).toHaveLength(1);
+
+      const morning = await run(Date.UTC(2026, 10, 4, 9, 0));
+      expect(morning.notifications.map((n) => n.type)).toEqual(['catch_up', 'weekly_digest']);
+      expect((await loadState()).quiet_digest).toBeUndefined();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
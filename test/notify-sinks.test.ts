@@ -0,0 +1,173 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { notifyCommand } from '../src/commands/notify.js';
+import { getCache } from '../src/lib/cache.js';
+import { getConfigPaths, setConfigPathOverride } from '../src/lib/config.js';
+import { deliverNotifications } from '../src/lib/notify-sinks.js';
+import type { Notification, NotifyOutput } from '../src/types/index.js';
+
+interface ReceivedRequest {
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+const originalPaths = getConfigPaths();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NOTIFICATION: Notification = {
+  type: 'kickoff',
+  match_id: '49979',
+  message: '🏉 Kickoff! Stade Toulousain vs Racing 92',
+};
+
+let server: Server;
+let baseUrl: string;
+let received: ReceivedRequest[];
+let failuresLeft: Record<string, number>;
+let dir: string;
+
+beforeEach(async () => {
+  received = [];
+  failuresLeft = {};
+  dir = mkdtempSync(join(tmpdir(), 'rugbyclaw-notify-sinks-'));
+
+  server = createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      const path = req.url ?? '/';
+      received.push({ path, headers: req.headers, body });
+      if (path === '/rejects') {
+        res.writeHead(400).end('bad payload');
+      } else if ((failuresLeft[path] ?? 0) > 0) {
+        failuresLeft[path] -= 1;
+        res.writeHead(503).end('try again');
+      } else {
+        res.writeHead(200).end('ok');
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  setConfigPathOverride(originalPaths.configDir);
+  rmSync(dir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  await getCache().clear();
+});
+
+describe('notify sinks', () => {
+  it('formats each sink its own way', async () => {
+    const deliveries = await deliverNotifications([NOTIFICATION], [
+      { type: 'webhook', url: `${baseUrl}/hook`, headers: { 'X-Token': 'abc' } },
+      { type: 'slack', url: `${baseUrl}/slack` },
+      { type: 'discord', url: `${baseUrl}/discord` },
+      { type: 'ntfy', url: baseUrl, topic: 'rugby-alerts', priority: 4 },
+    ]);
+
+    expect(deliveries.map((d) => [d.sink, d.delivered, d.failed])).toEqual([
+      ['webhook', 1, 0],
+      ['slack', 1, 0],
+      ['discord', 1, 0],
+      ['ntfy', 1, 0],
+    ]);
+    const [hook, slack, discord, ntfy] = received;
+    expect(JSON.parse(hook.body)).toEqual(NOTIFICATION);
+    expect(hook.headers['x-token']).toBe('abc');
+    expect(JSON.parse(slack.body)).toEqual({ text: NOTIFICATION.message });
+    expect(JSON.parse(discord.body)).toEqual({ content: NOTIFICATION.message });
+    expect(ntfy.path).toBe('/rugby-alerts');
+    expect(ntfy.body).toBe(NOTIFICATION.message);
+    expect(ntfy.headers).toMatchObject({ title: 'Rugbyclaw: Kickoff', priority: '4', tags: 'rugby_football' });
+  });
+
+  it('retries transient failures but not rejected payloads', async () => {
+    failuresLeft['/flaky'] = 2;
+    failuresLeft['/down'] = 5;
+
+    const deliveries = await deliverNotifications([NOTIFICATION], [
+      { type: 'webhook', name: 'flaky', url: `${baseUrl}/flaky` },
+      { type: 'webhook', name: 'down', url: `${baseUrl}/down` },
+      { type: 'slack', name: 'rejects', url: `${baseUrl}/rejects` },
+      { type: 'discord', name: 'misconfigured', url: 'not a url' },
+    ]);
+
+    expect(deliveries).toEqual([
+      { sink: 'flaky', type: 'webhook', delivered: 1, failed: 0 },
+      { sink: 'down', type: 'webhook', delivered: 0, failed: 1, error: 'HTTP 503' },
+      { sink: 'rejects', type: 'slack', delivered: 0, failed: 1, error: 'HTTP 400' },
+      { sink: 'misconfigured', type: 'discord', delivered: 0, failed: 1, error: 'Sink "misconfigured" needs an http(s) url.' },
+    ]);
+    expect(received.filter((r) => r.path === '/flaky')).toHaveLength(3);
+    expect(received.filter((r) => r.path === '/down')).toHaveLength(3);
+    expect(received.filter((r) => r.path === '/rejects')).toHaveLength(1);
+  });
+
+  it('pipes the notification to a command hook', async () => {
+    const outFile = join(dir, 'hook.json');
+    const script = `let s='';process.stdin.on('data',c=>s+=c).on('end',()=>{require('fs').writeFileSync(process.argv[1],JSON.stringify({stdin:JSON.parse(s),type:process.env.RUGBYCLAW_NOTIFICATION_TYPE}))})`;
+
+    const deliveries = await deliverNotifications([NOTIFICATION], [
+      { type: 'command', command: process.execPath, args: ['-e', script, outFile] },
+      { type: 'command', name: 'failing', command: process.execPath, args: ['-e', 'process.exit(3)'] },
+    ]);
+
+    expect(JSON.parse(readFileSync(outFile, 'utf8'))).toEqual({ stdin: NOTIFICATION, type: 'kickoff' });
+    expect(deliveries[1]).toMatchObject({ sink: 'failing', failed: 1, error: 'exited with code 3' });
+  });
+
+  it('delivers notify output to configured sinks and reports it', async () => {
+    const kickoff = new Date(Date.now() + 2 * DAY_MS);
+    writeFileSync(join(dir, 'config.json'), JSON.stringify({
+      schema_version: 1,
+      timezone: 'UTC',
+      favorite_leagues: ['top14'],
+      favorite_teams: [],
+      notify: { sinks: [{ type: 'slack', name: 'team-chat', url: `${baseUrl}/slack` }] },
+    }, null, 2));
+    writeFileSync(join(dir, 'secrets.json'), JSON.stringify({ api_key: 'test-key', api_tier: 'premium' }, null, 2));
+    setConfigPathOverride(dir);
+
+    const realFetch = globalThis.fetch;
+    vi.stubGlobal('fetch', vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+      const url = new URL(String(input));
+      if (url.hostname === '127.0.0.1') return realFetch(input, init);
+      const response = [{
+        id: 49979,
+        date: kickoff.toISOString(),
+        time: kickoff.toISOString().slice(11, 16),
+        timestamp: Math.floor(kickoff.getTime() / 1000),
+        timezone: 'UTC',
+        week: '9',
+        status: { short: 'NS', long: 'Not Started' },
+        country: { id: 1, name: 'France', code: 'FR', flag: '' },
+        league: { id: 16, name: 'Top 14', type: 'League', logo: '', season: 2025 },
+        teams: { home: { id: 1, name: 'Stade Toulousain', logo: '' }, away: { id: 2, name: 'Racing 92', logo: '' } },
+        scores: { home: null, away: null },
+      }];
+      return new Response(JSON.stringify({ get: 'games', parameters: {}, errors: [], results: 1, response }), { status: 200 });
+    }));
+    const logs: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((value) => String(value)).join(' '));
+    });
+
+    await notifyCommand({ weekly: true, json: true });
+
+    const output = JSON.parse(logs[0] ?? '{}') as NotifyOutput;
+    expect(output.deliveries).toEqual([{ sink: 'team-chat', type: 'slack', delivered: 1, failed: 0 }]);
+    expect(JSON.parse(received[0].body).text).toContain('Stade Toulousain vs Racing 92 (Top 14)');
+  });
+});
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getCache } from '../src/lib/cache.js';
+import { LNR_SOURCE, OfficialFixturesProvider, URC_SOURCE } from '../src/lib/providers/official-fixtures.js';
+import { ProviderChain } from '../src/lib/providers/registry.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function urlOf(input: string | URL | Request): string {
+  return typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+}
+
+function lnrPage(nowMs: number): string {
+  const payload = JSON.stringify([
+    {
+      id: 12001,
+      hosting_club: { name: 'Section Paloise' },
+      visiting_club: { name: 'Aviron Bayonnais' },
+      timer: { firstPeriodStartDate: new Date(nowMs - 2 * DAY_MS).toISOString() },
+      link: 'https://prod2.lnr.fr/feuille-de-match/2025-2026/j9/12001',
+    },
+    {
+      id: 12002,
+      hosting_club: { name: 'Oyonnax Rugby' },
+      visiting_club: { name: 'Colomiers Rugby' },
+      timer: { firstPeriodStartDate: new Date(nowMs + 3 * DAY_MS).toISOString() },
+      link: 'https://prod2.lnr.fr/feuille-de-match/2025-2026/j10/12002',
+    },
+  ]);
+  return `<score-slider :matches='${payload}'></score-slider>`;
+}
+
+describe('official fixtures providers', () => {
+  beforeEach(async () => {
+    await getCache().clear();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    await getCache().clear();
+  });
+
+  it('serves LNR fixtures first when config puts lnr first for the league', async () => {
+    const nowMs = Date.now();
+    const urls: string[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (input: string | URL | Request) => {
+      const url = urlOf(input);
+      urls.push(url);
+      if (url === 'https://prod2.lnr.fr/') return new Response(lnrPage(nowMs), { status: 200 });
+      throw new Error(`Unexpected URL: ${url}`);
+    }));
+
+    const provider = new ProviderChain({ chain: { leagues: { pro_d2: ['lnr', 'apisports'] } } });
+    const fixtures = await provider.getLeagueFixtures('17');
+
+    expect(urls).toEqual(['https://prod2.lnr.fr/']);
+    expect(fixtures).toHaveLength(1);
+    expect(fixtures[0]).toMatchObject({
+      id: 'lnr:12002',
+      homeTeam: { id: 'lnr:oyonnax-rugby', name: 'Oyonnax Rugby' },
+      league: { id: '17' },
+      status: 'scheduled',
+      round: '10',
+    });
+    await expect(provider.getLeagueResults('17')).rejects.toThrow();
+  });
+
+  it('reads URC fixtures from GraphQL and fails loudly on an empty schedule', async () => {
+    const nowMs = Date.now();
+    const kickoff = new Date(nowMs + 4 * DAY_MS).toISOString();
+    const fetchFn = vi.fn(async () => new Response(JSON.stringify({
+      data: {
+        matches: [
+          {
+            id: 3001,
+            match_data: {
+              dateTime: kickoff,
+              round: 7,
+              competition: { name: 'United Rugby Championship' },
+              homeTeam: { name: 'Leinster Rugby' },
+              awayTeam: { name: 'Munster Rugby' },
+            },
+          },
+        ],
+      },
+    }), { status: 200 }));
+    const urc = new OfficialFixturesProvider(URC_SOURCE, { fetchFn: fetchFn as unknown as typeof fetch });
+
+    expect(urc.capabilities).toEqual({ operations: ['fixtures'], leagueIds: ['76'] });
+    const [match] = await urc.getLeagueFixtures('76');
+    expect(match).toMatchObject({ id: 'urc:3001', timestamp: Date.parse(kickoff), round: '7' });
+
+    const empty = new OfficialFixturesProvider(LNR_SOURCE, {
+      fetchFn: (async () => new Response('<html></html>', { status: 200 })) as unknown as typeof fetch,
+    });
+    await expect(empty.getLeagueFixtures('16')).rejects.toThrow('LNR returned no fixtures');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  IDLE_POLL_MS,
+  LIVE_POLL_MS,
+  MAX_SLEEP_MS,
+  getQuotaFloorMs,
+  planNextPoll,
+  planNextWake,
+} from '../src/lib/polling.js';
+import type { Match, MatchStatus } from '../src/types/index.js';
+
+const NOW = Date.parse('2026-02-14T15:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+function match(status: MatchStatus, kickoffOffsetMs: number): Match {
+  return {
+    id: `${status}-${kickoffOffsetMs}`,
+    homeTeam: { id: 'h', name: 'Home' },
+    awayTeam: { id: 'a', name: 'Away' },
+    league: { id: '16', slug: 'top14', name: 'Top 14', country: 'France', sport: 'rugby' },
+    date: new Date(NOW + kickoffOffsetMs),
+    status,
+    timestamp: NOW + kickoffOffsetMs,
+  };
+}
+
+describe('poll planning', () => {
+  it('polls at the live cache rate while matches are in play', () => {
+    const plan = planNextPoll({ matches: [match('live', -HOUR), match('scheduled', 3 * HOUR)], now: NOW });
+    expect(plan).toMatchObject({ intervalMs: LIVE_POLL_MS, reason: 'live', done: false });
+  });
+
+  it('wakes up for the next kickoff, capped at the idle rate', () => {
+    expect(planNextPoll({ matches: [match('scheduled', 2 * 60 * 1000)], now: NOW }).intervalMs).toBe(2 * 60 * 1000);
+    expect(planNextPoll({ matches: [match('scheduled', 3 * HOUR)], now: NOW }).intervalMs).toBe(IDLE_POLL_MS);
+    // Past kickoff but not yet flipped to live.
+    expect(planNextPoll({ matches: [match('scheduled', -60 * 1000)], now: NOW }).intervalMs).toBe(LIVE_POLL_MS);
+  });
+
+  it('stops once every match is over', () => {
+    const plan = planNextPoll({ matches: [match('finished', -3 * HOUR)], now: NOW });
+    expect(plan.done).toBe(true);
+    // A match stuck in "scheduled" hours after kickoff doesn't keep it going.
+    expect(planNextPoll({ matches: [match('scheduled', -4 * HOUR)], now: NOW }).done).toBe(true);
+  });
+
+  it('spreads the remaining proxy quota until reset', () => {
+    const proxyStatus = {
+      status: 'ok',
+      rate_limit: { day: { limit: 100, remaining: 20, reset: '2026-02-14T20:00:00Z' } },
+    };
+
+    // 20 requests / 5 leagues = 4 polls over 5 hours.
+    expect(getQuotaFloorMs(proxyStatus, 5, NOW)).toBe(75 * 60 * 1000);
+
+    const plan = planNextPoll({ matches: [match('live', -HOUR)], now: NOW, proxyStatus, requestUnits: 5 });
+    expect(plan).toMatchObject({ intervalMs: 75 * 60 * 1000, reason: 'quota' });
+  });
+
+  it('flags exhausted quota and waits out the minute window', () => {
+    const exhausted = { status: 'ok', rate_limit: { day: { limit: 100, remaining: 2 } } };
+    expect(planNextPoll({ matches: [match('live', 0)], now: NOW, proxyStatus: exhausted, requestUnits: 5 }).quotaExhausted)
+      .toBe(true);
+
+    const minuteCapped = { status: 'ok', rate_limit: { minute: { limit: 10, remaining: 0 } } };
+    expect(getQuotaFloorMs(minuteCapped, 1, NOW)).toBe(60 * 1000);
+  });
+
+  it('honours a user-requested minimum interval', () => {
+    const plan = planNextPoll({ matches: [match('live', 0)], now: NOW, minIntervalMs: 120 * 1000 });
+    expect(plan).toMatchObject({ intervalMs: 120 * 1000, reason: 'live' });
+  });
+});
+
+
+describe('wake planning', () => {
+  it('sleeps until the next deadline, capped at the maximum sleep', () => {
+    expect(planNextWake({ matches: [], wakeups: [NOW - HOUR, NOW + 2 * HOUR, NOW + HOUR], now: NOW }))
+      .toEqual({ intervalMs: HOUR, reason: 'wakeup', quotaExhausted: false });
+    expect(planNextWake({ matches: [], wakeups: [NOW + 10 * HOUR], now: NOW }))
+      .toEqual({ intervalMs: MAX_SLEEP_MS, reason: 'idle', quotaExhausted: false });
+    // Scheduled matches later today don't keep the daemon awake.
+    expect(planNextWake({ matches: [match('scheduled', 3 * HOUR)], wakeups: [], now: NOW }).reason).toBe('idle');
+  });
+
+  it('polls at the live rate while a match is in play', () => {
+    expect(planNextWake({ matches: [match('live', -HOUR)], wakeups: [NOW + HOUR], now: NOW }))
+      .toEqual({ intervalMs: LIVE_POLL_MS, reason: 'live', quotaExhausted: false });
+    expect(planNextWake({ matches: [match('scheduled', -60 * 1000)], wakeups: [], now: NOW }).reason).toBe('live');
+  });
+
+  it('sleeps until the quota resets once it is spent mid-match', () => {
+    const exhausted = { status: 'ok', rate_limit: { day: { limit: 100, remaining: 0 } } };
+    const plan = planNextWake({ matches: [match('live', 0)], wakeups: [], now: NOW, proxyStatus: exhausted });
+    expect(plan).toEqual({ intervalMs: 9 * HOUR, reason: 'quota', quotaExhausted: true });
+  });
+});
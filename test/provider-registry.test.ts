@@ -0,0 +1,178 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { getCache } from '../src/lib/cache.js';
+import {
+  DEFAULT_PROVIDER_ORDER,
+  ProviderChain,
+  registerProvider,
+  resolveProviderOrder,
+} from '../src/lib/providers/registry.js';
+import { ProviderError, type Provider, type ProviderCapabilities } from '../src/lib/providers/types.js';
+import type { Match } from '../src/types/index.js';
+
+function sampleMatch(id: string, leagueId: string, timestamp: number): Match {
+  return {
+    id,
+    homeTeam: { id: 'h', name: 'Home' },
+    awayTeam: { id: 'a', name: 'Away' },
+    league: { id: leagueId, slug: 'x', name: 'League', country: 'X', sport: 'rugby' },
+    date: new Date(timestamp),
+    status: 'scheduled',
+    timestamp,
+  };
+}
+
+function fakeProvider(
+  id: string,
+  capabilities: ProviderCapabilities,
+  behavior: { fail?: boolean; calls?: string[] } = {}
+): Provider {
+  const record = (call: string): void => {
+    behavior.calls?.push(`${id}:${call}`);
+    if (behavior.fail) throw new ProviderError(`${id} down`, 'NETWORK_ERROR', id);
+  };
+
+  return {
+    id,
+    name: id,
+    capabilities,
+    async searchTeams() {
+      record('search');
+      return [];
+    },
+    async getLeagueFixtures(leagueId: string) {
+      record(`fixtures:${leagueId}`);
+      return [sampleMatch(`${id}-${leagueId}`, leagueId, 1)];
+    },
+    async getLeagueResults() {
+      record('results');
+      return [];
+    },
+    async getMatch() {
+      record('match');
+      return null;
+    },
+    async getToday(leagueIds: string[]) {
+      record(`today:${leagueIds.join(',')}`);
+      return leagueIds.map((leagueId, index) => sampleMatch(`${id}-${leagueId}`, leagueId, 10 - index));
+    },
+  };
+}
+
+describe('provider registry', () => {
+  afterEach(async () => {
+    await getCache().clear();
+  });
+
+  it('defaults to the built-in chain and drops unknown provider ids', () => {
+    expect(resolveProviderOrder(undefined, '16')).toEqual(DEFAULT_PROVIDER_ORDER);
+    expect(resolveProviderOrder({ default: ['nope', 'apisports'] }, '16')).toEqual(['apisports']);
+    expect(resolveProviderOrder({ default: ['nope'] }, '16')).toEqual(DEFAULT_PROVIDER_ORDER);
+  });
+
+  it('prefers per-league chains over the default chain', () => {
+    registerProvider('test-alpha', () => fakeProvider('test-alpha', { operations: ['fixtures'] }));
+    const chain = { default: ['apisports'], leagues: { premiership: ['test-alpha', 'apisports'] } };
+
+    expect(resolveProviderOrder(chain, '13')).toEqual(['test-alpha', 'apisports']);
+    expect(resolveProviderOrder(chain, '16')).toEqual(['apisports']);
+  });
+
+  it('skips providers that do not support the operation or league', async () => {
+    const calls: string[] = [];
+    registerProvider('test-standings', () => fakeProvider('test-standings', { operations: ['standings'] }, { calls }));
+    registerProvider('test-top14', () => fakeProvider('test-top14', { operations: ['fixtures'], leagueIds: ['16'] }, { calls }));
+    registerProvider('test-all', () => fakeProvider('test-all', { operations: ['fixtures'] }, { calls }));
+
+    const provider = new ProviderChain({ chain: { default: ['test-standings', 'test-top14', 'test-all'] } });
+    const premiership = await provider.getLeagueFixtures('13');
+    const top14 = await provider.getLeagueFixtures('16');
+
+    expect(premiership[0]?.id).toBe('test-all-13');
+    expect(top14[0]?.id).toBe('test-top14-16');
+    expect(calls).toEqual(['test-all:fixtures:13', 'test-top14:fixtures:16']);
+  });
+
+  it('falls through to the next provider and surfaces the primary error when all fail', async () => {
+    const calls: string[] = [];
+    registerProvider('test-down', () => fakeProvider('test-down', { operations: ['fixtures', 'today'] }, { fail: true, calls }));
+    registerProvider('test-up', () => fakeProvider('test-up', { operations: ['fixtures', 'today'] }, { calls }));
+    registerProvider('test-down-2', () => fakeProvider('test-down-2', { operations: ['fixtures'] }, { fail: true }));
+
+    const provider = new ProviderChain({ chain: { default: ['test-down', 'test-up'] } });
+    const fixtures = await provider.getLeagueFixtures('16');
+    expect(fixtures[0]?.id).toBe('test-up-16');
+    expect(calls).toEqual(['test-down:fixtures:16', 'test-up:fixtures:16']);
+
+    const failing = new ProviderChain({ chain: { default: ['test-down', 'test-down-2'] } });
+    await expect(failing.getLeagueFixtures('16')).rejects.toThrow('test-down down');
+  });
+
+  it('batches multi-league calls per resolved chain and merges by kickoff', async () => {
+    const calls: string[] = [];
+    registerProvider('test-batch-a', () => fakeProvider('test-batch-a', { operations: ['today'] }, { calls }));
+    registerProvider('test-batch-b', () => fakeProvider('test-batch-b', { operations: ['today'] }, { calls }));
+
+    const provider = new ProviderChain({
+      chain: { default: ['test-batch-a'], leagues: { six_nations: ['test-batch-b'] } },
+    });
+    const matches = await provider.getToday(['16', '13', '51']);
+
+    expect(calls).toEqual(['test-batch-a:today:16,13', 'test-batch-b:today:51']);
+    expect(matches.map((match) => match.id)).toEqual(['test-batch-a-13', 'test-batch-a-16', 'test-batch-b-51']);
+  });
+
+  it('maps fallback teams onto canonical API-Sports IDs so favorites still match', async () => {
+    registerProvider('test-primary', () => fakeProvider('test-primary', { operations: ['today'] }, { fail: true }));
+    registerProvider('test-feed', () => ({
+      ...fakeProvider('test-feed', { operations: ['today'] }),
+      async getToday() {
+        return [{
+          ...sampleMatch('feed-1', '16', 1),
+          homeTeam: { id: 'feed:tlse', name: 'Toulouse' },
+          awayTeam: { id: 'feed:r92', name: 'Racing 92' },
+        }];
+      },
+    }));
+
+    const provider = new ProviderChain({
+      chain: { default: ['test-primary', 'test-feed'] },
+      teams: [{ id: '107', name: 'Stade Toulousain' }],
+    });
+    const [match] = await provider.getToday(['16']);
+
+    expect(match.homeTeam).toEqual({ id: '107', name: 'Toulouse' });
+    expect(match.awayTeam.id).toBe('feed:r92'); // unknown team: left alone
+  });
+
+  it('reuses the API-Sports match ID when a later run falls through to another provider', async () => {
+    const kickoff = Date.UTC(2026, 9, 24, 15, 0);
+    const feedMatch = (id: string, timestamp: number): Match => ({
+      ...sampleMatch(id, '16', timestamp),
+      homeTeam: { id: 'feed:tlse', name: 'Toulouse' },
+      awayTeam: { id: 'feed:r92', name: 'Racing 92' },
+    });
+    // Registered last: replaces the real API-Sports provider for this file
+    registerProvider('apisports', () => ({
+      ...fakeProvider('apisports', { operations: ['today'] }),
+      async getToday() {
+        return [{
+          ...sampleMatch('9001', '16', kickoff),
+          homeTeam: { id: '107', name: 'Stade Toulousain' },
+          awayTeam: { id: '96', name: 'Racing 92' },
+        }];
+      },
+    }));
+    registerProvider('test-quota', () => fakeProvider('test-quota', { operations: ['today'] }, { fail: true }));
+    registerProvider('test-late-feed', () => ({
+      ...fakeProvider('test-late-feed', { operations: ['today'] }),
+      async getToday() {
+        return [feedMatch('feed-1', kickoff + 30 * 60 * 1000), feedMatch('feed-2', kickoff + 7 * 24 * 60 * 60 * 1000)];
+      },
+    }));
+
+    await new ProviderChain({ chain: { default: ['apisports'] } }).getToday(['16']);
+    const matches = await new ProviderChain({ chain: { default: ['test-quota', 'test-late-feed'] } }).getToday(['16']);
+
+    expect(matches.map((match) => match.id)).toEqual(['9001', 'feed-2']);
+  });
+});
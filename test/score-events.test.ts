@@ -0,0 +1,144 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { notifyCommand } from '../src/commands/notify.js';
+import { getCache } from '../src/lib/cache.js';
+import { getConfigPaths, setConfigPathOverride } from '../src/lib/config.js';
+import { formatScoreEvent, inferScoreEvent, updateDeficits } from '../src/lib/score-events.js';
+import type { NotifyOutput, State } from '../src/types/index.js';
+
+const originalPaths = getConfigPaths();
+const MATCH = { homeTeam: { id: '1', name: 'Toulouse' }, awayTeam: { id: '2', name: 'Racing 92' } };
+
+afterEach(async () => {
+  setConfigPathOverride(originalPaths.configDir);
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  await getCache().clear();
+});
+
+describe('score event inference', () => {
+  it('maps single scores from the point delta', () => {
+    const kinds = [5, 7, 3, 2].map((points) => inferScoreEvent({ home: 0, away: 0 }, { home: 0, away: points }, MATCH)?.kind);
+    expect(kinds).toEqual(['try', 'converted_try', 'penalty_or_drop_goal', 'conversion']);
+
+    expect(inferScoreEvent({ home: 10, away: 3 }, { home: 15, away: 3 }, MATCH)).toEqual({
+      kind: 'try',
+      team: 'home',
+      team_name: 'Toulouse',
+      points: 5,
+      lead_change: false,
+      comeback: false,
+    });
+  });
+
+  it('falls back to multiple or correction when one score cannot explain the change', () => {
+    expect(inferScoreEvent({ home: 0, away: 0 }, { home: 10, away: 0 }, MATCH)).toMatchObject({ kind: 'multiple', team: 'home' });
+    expect(inferScoreEvent({ home: 0, away: 0 }, { home: 3, away: 7 }, MATCH)).toMatchObject({ kind: 'multiple', team: null, points: 10 });
+    expect(inferScoreEvent({ home: 7, away: 0 }, { home: 5, away: 0 }, MATCH)).toMatchObject({ kind: 'correction', points: -2 });
+    expect(inferScoreEvent({ home: 7, away: 0 }, { home: 7, away: 0 }, MATCH)).toBeNull();
+  });
+
+  it('flags lead changes and comebacks from two scores down', () => {
+    const leadChange = inferScoreEvent({ home: 3, away: 5 }, { home: 8, away: 5 }, MATCH);
+    expect(leadChange).toMatchObject({ lead_change: true, comeback: false });
+
+    // Taking the lead from level isn't a lead change
+    expect(inferScoreEvent({ home: 3, away: 3 }, { home: 6, away: 3 }, MATCH)?.lead_change).toBe(false);
+
+    // Trailed 0-14 earlier, 10-14 before this try
+    const deficits = updateDeficits(updateDeficits(undefined, { home: 0, away: 14 }), { home: 10, away: 14 });
+    const comeback = inferScoreEvent({ home: 10, away: 14 }, { home: 15, away: 14 }, MATCH, deficits);
+    expect(comeback).toMatchObject({ kind: 'try', lead_change: true, comeback: true, deficit: 14 });
+    expect(formatScoreEvent(comeback!, MATCH, { home: 15, away: 14 })).toBe(
+      '🏉 Try Toulouse! Toulouse 15-14 Racing 92 · comeback from 14 down'
+    );
+
+    // Levelling after a two-score deficit counts, scoring while still behind doesn't
+    expect(inferScoreEvent({ home: 7, away: 10 }, { home: 10, away: 10 }, MATCH, { home: 10, away: 0 })?.comeback).toBe(true);
+    expect(inferScoreEvent({ home: 0, away: 14 }, { home: 7, away: 14 }, MATCH, { home: 14, away: 0 })?.comeback).toBe(false);
+  });
+
+  it('formats the scoring team and lead changes', () => {
+    const event = inferScoreEvent({ home: 3, away: 5 }, { home: 6, away: 5 }, MATCH)!;
+    expect(formatScoreEvent(event, MATCH, { home: 6, away: 5 })).toBe(
+      '🏉 Penalty or drop goal Toulouse! Toulouse 6-5 Racing 92 · Toulouse take the lead'
+    );
+  });
+});
+
+describe('notify --live score events', () => {
+  it('adds score_event to score updates and keeps the score in state', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'rugbyclaw-score-events-'));
+    setConfigPathOverride(dir);
+    writeFileSync(join(dir, 'config.json'), JSON.stringify({
+      schema_version: 1,
+      timezone: 'UTC',
+      favorite_leagues: ['top14'],
+      favorite_teams: [],
+    }, null, 2));
+    writeFileSync(join(dir, 'secrets.json'), JSON.stringify({ api_key: 'test-key', api_tier: 'premium' }, null, 2));
+    const state: State = {
+      matches: {
+        '4242': {
+          match_id: '4242',
+          status: 'live',
+          last_score_hash: '8-13-live',
+          last_score: { home: 8, away: 13 },
+          max_deficit: { home: 10, away: 0 },
+          last_notified_at: 0,
+          notified: { day_before: false, hour_before: false, kickoff: true, half_time: true, fulltime: false },
+        },
+      },
+      last_updated: 0,
+    };
+    writeFileSync(join(dir, 'state.json'), JSON.stringify(state, null, 2));
+
+    const kickoff = new Date(Date.now() - 60 * 60 * 1000);
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+      get: 'games',
+      parameters: {},
+      errors: [],
+      results: 1,
+      response: [{
+        id: 4242,
+        date: kickoff.toISOString(),
+        time: kickoff.toISOString().slice(11, 16),
+        timestamp: Math.floor(kickoff.getTime() / 1000),
+        timezone: 'UTC',
+        week: '12',
+        status: { short: '2H', long: 'Second Half' },
+        country: { id: 1, name: 'France', code: 'FR', flag: '' },
+        league: { id: 16, name: 'Top 14', type: 'League', logo: '', season: 2025 },
+        teams: { home: { id: 1, name: 'Toulouse', logo: '' }, away: { id: 2, name: 'Racing 92', logo: '' } },
+        scores: { home: 15, away: 13 },
+      }],
+    }), { status: 200 })));
+    const logs: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((value) => String(value)).join(' '));
+    });
+
+    try {
+      await notifyCommand({ live: true, json: true });
+
+      const [notification] = (JSON.parse(logs[0] ?? '{}') as NotifyOutput).notifications;
+      expect(notification.message).toBe('🏉 Converted try Toulouse! Toulouse 15-13 Racing 92 · comeback from 10 down');
+      expect(notification.score_event).toEqual({
+        kind: 'converted_try',
+        team: 'home',
+        team_name: 'Toulouse',
+        points: 7,
+        lead_change: true,
+        comeback: true,
+        deficit: 10,
+      });
+
+      const saved = JSON.parse(readFileSync(join(dir, 'state.json'), 'utf8')) as State;
+      expect(saved.matches['4242']).toMatchObject({ last_score: { home: 15, away: 13 }, max_deficit: { home: 10, away: 2 } });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,191 @@
+import { mkdtempSync, readFileSync, rmSync, statSync } from 'node:fs';
+import { createServer, type Server, type Socket } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { notifySmtpLoginCommand } from '../src/commands/notify-smtp.js';
+import { getConfigPaths, loadSmtpCredentials, saveSmtpCredentials, setConfigPathOverride } from '../src/lib/config.js';
+import { deliverNotifications } from '../src/lib/notify-sinks.js';
+import { sendMail } from '../src/lib/smtp.js';
+import type { Notification, NotifySinkConfig } from '../src/types/index.js';
+
+interface Session {
+  commands: string[];
+  data?: string;
+}
+
+const originalPaths = getConfigPaths();
+
+const NOTIFICATION: Notification = {
+  type: 'fulltime',
+  match_id: '49979',
+  message: '🏁 Full-time: Stade Toulousain 31-10 Racing 92\n.dot line',
+};
+
+let server: Server;
+let port: number;
+let sessions: Session[];
+let dataFailures: number;
+let dir: string;
+
+/**
+ * Minimal SMTP stand-in: plain connection, AUTH PLAIN/LOGIN, rejects
+ * recipients at "nobody@" and answers DATA with 451 while `dataFailures` lasts.
+ */
+function handle(socket: Socket): void {
+  const session: Session = { commands: [] };
+  sessions.push(session);
+  let buffer = '';
+  let inData = false;
+
+  socket.setEncoding('utf8');
+  socket.write('220 standin ESMTP\r\n');
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    for (;;) {
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        session.data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        if (dataFailures > 0) {
+          dataFailures -= 1;
+          socket.write('451 try again later\r\n');
+        } else {
+          socket.write('250 queued\r\n');
+        }
+        continue;
+      }
+
+      const newline = buffer.indexOf('\r\n');
+      if (newline === -1) return;
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+      session.commands.push(line);
+
+      const verb = line.split(' ')[0].toUpperCase();
+      if (verb === 'EHLO') socket.write('250-standin\r\n250-AUTH PLAIN LOGIN\r\n250 8BITMIME\r\n');
+      else if (verb === 'AUTH') socket.write('235 ok\r\n');
+      else if (verb === 'MAIL') socket.write('250 ok\r\n');
+      else if (verb === 'RCPT') socket.write(line.includes('nobody@') ? '550 no such user\r\n' : '250 ok\r\n');
+      else if (verb === 'DATA') {
+        inData = true;
+        socket.write('354 go ahead\r\n');
+      } else if (verb === 'QUIT') socket.end('221 bye\r\n');
+      else socket.write('502 unknown\r\n');
+    }
+  });
+}
+
+function decodeParts(data: string): Record<string, string> {
+  const boundary = /boundary="([^"]+)"/.exec(data)?.[1] ?? '';
+  const parts: Record<string, string> = {};
+  for (const part of data.split(`--${boundary}`).slice(1, -1)) {
+    const [headers, body] = part.split('\r\n\r\n');
+    const type = /Content-Type: (text\/\w+)/.exec(headers)?.[1] ?? '';
+    parts[type] = Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8');
+  }
+  return parts;
+}
+
+function sink(overrides: Partial<Extract<NotifySinkConfig, { type: 'smtp' }>> = {}): NotifySinkConfig {
+  return { type: 'smtp', host: '127.0.0.1', port, security: 'none', from: 'Rugbyclaw <bot@example.com>', to: 'fan@example.com', ...overrides };
+}
+
+beforeEach(async () => {
+  sessions = [];
+  dataFailures = 0;
+  dir = mkdtempSync(join(tmpdir(), 'rugbyclaw-smtp-'));
+  setConfigPathOverride(dir);
+  server = createServer(handle);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterEach(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  setConfigPathOverride(originalPaths.configDir);
+  rmSync(dir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe('smtp sink', () => {
+  it('logs in with the saved credentials and sends a text + html multipart mail', async () => {
+    await saveSmtpCredentials('127.0.0.1', { username: 'bot', password: 's3cret' });
+    expect(statSync(join(dir, 'smtp.json')).mode & 0o777).toBe(0o600);
+
+    const deliveries = await deliverNotifications([NOTIFICATION], [sink({ to: ['fan@example.com', 'coach@example.com'] })]);
+
+    expect(deliveries).toEqual([{ sink: 'smtp', type: 'smtp', delivered: 1, failed: 0 }]);
+    const [session] = sessions;
+    expect(session.commands).toContain(`AUTH PLAIN ${Buffer.from('\0bot\0s3cret').toString('base64')}`);
+    expect(session.commands).toContain('MAIL FROM:<bot@example.com>');
+    expect(session.commands.filter((line) => line.startsWith('RCPT TO:'))).toEqual([
+      'RCPT TO:<fan@example.com>',
+      'RCPT TO:<coach@example.com>',
+    ]);
+    expect(session.commands.at(-1)).toBe('QUIT');
+
+    const data = session.data ?? '';
+    expect(data).toContain('To: fan@example.com, coach@example.com');
+    expect(data).toContain('Subject: Rugbyclaw: Full-time');
+    expect(data).toContain('Content-Type: multipart/alternative');
+    const parts = decodeParts(data);
+    expect(parts['text/plain']).toBe(NOTIFICATION.message.replace('\n', '\r\n'));
+    expect(parts['text/html']).toContain('<p>🏁 Full-time: Stade Toulousain 31-10 Racing 92</p>');
+  });
+
+  it('retries transient replies but not rejected recipients', async () => {
+    dataFailures = 1;
+    expect(await deliverNotifications([NOTIFICATION], [sink()])).toEqual([
+      { sink: 'smtp', type: 'smtp', delivered: 1, failed: 0 },
+    ]);
+    expect(sessions).toHaveLength(2);
+
+    sessions = [];
+    const [rejected] = await deliverNotifications([NOTIFICATION], [sink({ name: 'bad', to: 'nobody@example.com' })]);
+    expect(rejected).toMatchObject({ failed: 1, error: 'SMTP RCPT TO failed: 550 no such user' });
+    expect(sessions).toHaveLength(1);
+  });
+
+  it('refuses to send credentials when STARTTLS is required but not offered', async () => {
+    await saveSmtpCredentials('127.0.0.1', { username: 'bot', password: 's3cret' });
+
+    const [delivery] = await deliverNotifications([NOTIFICATION], [sink({ security: undefined })]);
+
+    expect(delivery.error).toBe('127.0.0.1 does not offer STARTTLS; set "security": "tls" or "none".');
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].commands.some((line) => line.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('gives up on a TLS handshake that never completes', async () => {
+    // Accepts the connection but never answers the ClientHello
+    const accepted: Socket[] = [];
+    const silent = createServer((socket) => accepted.push(socket));
+    await new Promise<void>((resolve) => silent.listen(0, '127.0.0.1', resolve));
+    const silentPort = (silent.address() as AddressInfo).port;
+
+    const sent = sendMail(
+      { host: '127.0.0.1', port: silentPort, security: 'tls', timeoutMs: 50 },
+      { from: 'bot@example.com', to: ['fan@example.com'], subject: 'Hi', text: 'Hi', html: '<p>Hi</p>' }
+    );
+
+    await expect(sent).rejects.toMatchObject({ message: 'SMTP connection timed out', transient: true });
+    for (const socket of accepted) socket.destroy();
+    await new Promise<void>((resolve) => silent.close(() => resolve()));
+  });
+
+  it('saves the login from smtp-login without touching secrets.json', async () => {
+    vi.stubEnv('RUGBYCLAW_SMTP_PASSWORD', 'from-env');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await notifySmtpLoginCommand('SMTP.Example.com', { user: 'me@example.com' });
+
+    expect(await loadSmtpCredentials()).toEqual({ 'smtp.example.com': { username: 'me@example.com', password: 'from-env' } });
+    expect(statSync(join(dir, 'smtp.json')).mode & 0o777).toBe(0o600);
+    expect(() => readFileSync(join(dir, 'secrets.json'))).toThrow();
+  });
+});
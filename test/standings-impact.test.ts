@@ -0,0 +1,206 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { notifyCommand } from '../src/commands/notify.js';
+import { getCache } from '../src/lib/cache.js';
+import { getConfigPaths, setConfigPathOverride } from '../src/lib/config.js';
+import {
+  buildStandingsImpact,
+  formatStandingsImpact,
+  isStandingsUpdated,
+  projectStandings,
+  snapshotEntry,
+} from '../src/lib/standings-impact.js';
+import type { League, Match, NotifyOutput, StandingsEntry, State } from '../src/types/index.js';
+
+const originalPaths = getConfigPaths();
+const LEAGUE: League = { id: '16', name: 'Top 14', slug: 'top14', country: 'France', sport: 'rugby' };
+
+function row(id: string, name: string, position: number, played: number, points: number, extra: Partial<StandingsEntry> = {}): StandingsEntry {
+  return {
+    position,
+    team: { id, name },
+    played,
+    won: 0,
+    drawn: 0,
+    lost: 0,
+    points_for: 0,
+    points_against: 0,
+    points_diff: 0,
+    points,
+    ...extra,
+  };
+}
+
+function result(id: string, home: string, away: string, score: [number, number]): Match {
+  return {
+    id,
+    homeTeam: { id: home, name: home === '1' ? 'Toulouse' : `Team ${home}` },
+    awayTeam: { id: away, name: away === '1' ? 'Toulouse' : `Team ${away}` },
+    league: LEAGUE,
+    date: new Date('2026-10-17T19:05:00Z'),
+    status: 'finished',
+    score: { home: score[0], away: score[1] },
+  };
+}
+
+afterEach(async () => {
+  vi.useRealTimers();
+  setConfigPathOverride(originalPaths.configDir);
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  await getCache().clear();
+});
+
+describe('standings impact', () => {
+  const table = [
+    row('2', 'Team 2', 1, 3, 10, { points_diff: 30 }),
+    row('1', 'Toulouse', 2, 3, 9, { points_diff: 12 }),
+    row('3', 'Team 3', 3, 3, 8, { points_diff: 4 }),
+  ];
+
+  it('projects match points and the losing bonus before the table updates', () => {
+    const match = result('9', '1', '2', [20, 25]);
+
+    const projected = projectStandings(table, match);
+    expect(projected.map((entry) => [entry.team.id, entry.position, entry.points])).toEqual([
+      ['2', 1, 14],
+      ['1', 2, 10],
+      ['3', 3, 8],
+    ]);
+    expect(formatStandingsImpact(buildStandingsImpact(match, '1', table, { updated: false })!)).toBe(
+      '📊 Toulouse: loss + losing bonus (1 pt, try bonus TBC) · projected 2nd in Top 14, 10 pts'
+    );
+  });
+
+  it('uses the league\'s losing bonus margin', () => {
+    const lostBySix = result('9', '1', '2', [19, 25]);
+    expect(buildStandingsImpact(lostBySix, '1', table, { updated: false })).toMatchObject({ bonus_losing: false, points: 9 });
+
+    const premiership: League = { id: '13', name: 'Premiership Rugby', slug: 'premiership', country: 'England', sport: 'rugby' };
+    expect(buildStandingsImpact({ ...lostBySix, league: premiership }, '1', table, { updated: false }))
+      .toMatchObject({ bonus_losing: true, points: 10 });
+  });
+
+  it('tells an updated table from the league results', () => {
+    const match = result('9', '1', '2', [30, 10]);
+    const results = [result('4', '1', '3', [10, 10]), result('5', '3', '1', [3, 6]), result('6', '2', '1', [20, 13])];
+
+    expect(isStandingsUpdated(table[1], results, match, '1')).toBe(false);
+    expect(isStandingsUpdated({ ...table[1], played: 4 }, [...results, match], match, '1')).toBe(true);
+  });
+
+  it('reads confirmed bonus points from the table columns', () => {
+    const match = result('9', '1', '2', [38, 10]);
+    const before = snapshotEntry({ ...table[1], bonus_points_try: 1, bonus_points_losing: 0 });
+    const after = [
+      row('1', 'Toulouse', 1, 4, 14, { bonus_points_try: 2, bonus_points_losing: 0 }),
+      row('2', 'Team 2', 2, 4, 10),
+    ];
+
+    const impact = buildStandingsImpact(match, '1', after, { updated: true, before })!;
+    expect(impact).toMatchObject({ result: 'win', bonus_try: true, bonus_losing: false, position: 1, previous_position: 2, projected: false });
+    expect(formatStandingsImpact(impact)).toBe('📊 Toulouse: win + try bonus (5 pts) · now 1st in Top 14 (was 2nd), 14 pts');
+  });
+});
+
+describe('notify --live table impact', () => {
+  it('projects the table at fulltime and confirms it once the standings update', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'rugbyclaw-standings-impact-'));
+    setConfigPathOverride(dir);
+    writeFileSync(join(dir, 'config.json'), JSON.stringify({
+      schema_version: 1,
+      timezone: 'UTC',
+      favorite_leagues: ['top14'],
+      favorite_teams: [{ id: '1', name: 'Stade Toulousain', slug: 'stade-toulousain', leagueIds: ['16'] }],
+    }, null, 2));
+    writeFileSync(join(dir, 'secrets.json'), JSON.stringify({ api_key: 'test-key', api_tier: 'premium' }, null, 2));
+    const state: State = {
+      matches: {
+        '4242': {
+          match_id: '4242',
+          status: 'live',
+          last_score_hash: '24-10-live',
+          last_notified_at: 0,
+          notified: { day_before: false, hour_before: false, kickoff: true, half_time: true, fulltime: false },
+        },
+      },
+      last_updated: 0,
+    };
+    writeFileSync(join(dir, 'state.json'), JSON.stringify(state, null, 2));
+
+    const kickoff = Date.now() - 2 * 60 * 60 * 1000;
+    const game = (id: number, timestamp: number, away: number) => ({
+      id,
+      date: new Date(timestamp).toISOString(),
+      time: new Date(timestamp).toISOString().slice(11, 16),
+      timestamp: Math.floor(timestamp / 1000),
+      timezone: 'UTC',
+      week: '2',
+      status: { short: 'FT', long: 'Finished' },
+      country: { id: 1, name: 'France', code: 'FR', flag: '' },
+      league: { id: 16, name: 'Top 14', type: 'League', logo: '', season: 2025 },
+      teams: { home: { id: 1, name: 'Stade Toulousain', logo: '' }, away: { id: away, name: `Team ${away}`, logo: '' } },
+      scores: { home: 31, away: 10 },
+    });
+    const standing = (id: number, name: string, position: number, played: number, points: number, diff: number) => ({
+      position,
+      team: { id, name, logo: '' },
+      games: { played, win: { total: 1 }, draw: 0, lose: played - 1 },
+      goals: { for: 100 + diff, against: 100 },
+      points,
+    });
+    let updated = false;
+
+    vi.stubGlobal('fetch', vi.fn(async (input: string | URL | Request) => {
+      const url = String(input);
+      let response: unknown[];
+      if (url.includes('/standings?')) {
+        response = updated
+          ? [standing(1, 'Stade Toulousain', 1, 2, 9, 26), standing(2, 'Racing 92', 2, 1, 5, 20)]
+          : [standing(2, 'Racing 92', 1, 1, 5, 20), standing(1, 'Stade Toulousain', 2, 1, 4, 5)];
+      } else if (url.includes('/games?') && url.includes('date=')) {
+        response = [game(4242, kickoff, 3)];
+      } else if (url.includes('/games?')) {
+        response = [game(10, kickoff - 7 * 24 * 60 * 60 * 1000, 5), game(4242, kickoff, 3)];
+      } else {
+        return new Response('not found', { status: 404 });
+      }
+      return new Response(JSON.stringify({ get: 'x', parameters: {}, errors: [], results: response.length, response }), { status: 200 });
+    }));
+    const logs: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((value) => String(value)).join(' '));
+    });
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    try {
+      await notifyCommand({ live: true, json: true });
+
+      const first = JSON.parse(logs[0] ?? '{}') as NotifyOutput;
+      expect(first.notifications.map((n) => n.type)).toEqual(['fulltime', 'standings_impact']);
+      expect(first.notifications[1].message).toBe(
+        '📊 Stade Toulousain: win (4 pts, try bonus TBC) · projected 1st in Top 14 (was 2nd), 8 pts'
+      );
+      let saved = JSON.parse(readFileSync(join(dir, 'state.json'), 'utf8')) as State;
+      expect(saved.matches['4242'].standings_pending?.before['1']).toMatchObject({ played: 1, points: 4, position: 2 });
+
+      updated = true;
+      vi.setSystemTime(Date.now() + 60 * 60 * 1000);
+      await getCache().clear();
+      await notifyCommand({ live: true, json: true });
+
+      const second = JSON.parse(logs[1] ?? '{}') as NotifyOutput;
+      expect(second.notifications).toHaveLength(1);
+      expect(second.notifications[0].standings_impact).toMatchObject({ bonus_try: true, points: 9, position: 1, projected: false });
+      expect(second.notifications[0].message).toBe(
+        '📊 Stade Toulousain: win + try bonus (5 pts) · now 1st in Top 14 (was 2nd), 9 pts'
+      );
+      saved = JSON.parse(readFileSync(join(dir, 'state.json'), 'utf8')) as State;
+      expect(saved.matches['4242'].standings_pending).toBeUndefined();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { teamCommand } from '../src/commands/team.js';
+import { getCache } from '../src/lib/cache.js';
+import { getConfigPaths, setConfigPathOverride } from '../src/lib/config.js';
+import { getLeagueById } from '../src/lib/leagues.js';
+import { buildTeamForm } from '../src/lib/team-form.js';
+import type { Match, TeamFormOutput } from '../src/types/index.js';
+
+const originalPaths = getConfigPaths();
+const tempDirs: string[] = [];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TOULOUSE = { id: '1', name: 'Stade Toulousain' };
+const RACING = { id: '2', name: 'Racing 92' };
+const PAU = { id: '3', name: 'Section Paloise' };
+
+function result(day: number, home: typeof TOULOUSE, away: typeof TOULOUSE, homeScore: number, awayScore: number): Match {
+  const timestamp = Date.UTC(2025, 8, day, 15);
+  return {
+    id: `m${day}`,
+    homeTeam: home,
+    awayTeam: away,
+    league: getLeagueById('16')!,
+    date: new Date(timestamp),
+    status: 'finished',
+    score: { home: homeScore, away: awayScore },
+    timestamp,
+  };
+}
+
+// Oldest first: W (home), L by 5 (away), W (away), W (home), D (home), L by 20 (away)
+const SEASON: Match[] = [
+  result(1, TOULOUSE, RACING, 30, 10),
+  result(8, PAU, TOULOUSE, 20, 15),
+  result(15, RACING, TOULOUSE, 12, 19),
+  result(22, TOULOUSE, PAU, 27, 3),
+  result(29, TOULOUSE, RACING, 16, 16),
+  result(30, PAU, TOULOUSE, 33, 13),
+  result(31, PAU, RACING, 25, 24),
+];
+
+afterEach(async () => {
+  setConfigPathOverride(originalPaths.configDir);
+  for (const dir of tempDirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  await getCache().clear();
+});
+
+describe('team form', () => {
+  it('builds the W/D/L sequence, splits and streaks', () => {
+    const form = buildTeamForm(SEASON, '1');
+
+    expect(form.form).toBe('WLWWDL');
+    expect(form).toMatchObject({ played: 6, won: 3, drawn: 1, lost: 2, points_for: 120, points_against: 94, points_diff: 26 });
+    expect(form.home).toEqual({ played: 3, won: 2, drawn: 1, lost: 0, points_for: 73, points_against: 29 });
+    expect(form.away).toEqual({ played: 3, won: 1, drawn: 0, lost: 2, points_for: 47, points_against: 65 });
+    expect(form.streaks).toEqual({ current: { type: 'L', length: 1 }, longest_win: 2, longest_loss: 1 });
+    expect(form.bonus_points).toEqual({ losing: 1, try: undefined, total: undefined });
+  });
+
+  it('applies each league\'s losing bonus margin', () => {
+    const lostBySix = (leagueId: string): Match => ({ ...result(5, RACING, TOULOUSE, 22, 16), league: getLeagueById(leagueId)! });
+
+    // Top 14 only rewards losses within 5 points; the URC within 7
+    expect(buildTeamForm([lostBySix('16')], '1').bonus_points.losing).toBe(0);
+    expect(buildTeamForm([lostBySix('76')], '1').bonus_points.losing).toBe(1);
+  });
+
+  it('takes try bonus points from standings when reported', () => {
+    const form = buildTeamForm(SEASON, '1', [{
+      position: 2,
+      team: { id: '1', name: 'Stade Toulousain' },
+      played: 6,
+      won: 3,
+      drawn: 1,
+      lost: 2,
+      points_for: 120,
+      points_against: 94,
+      points_diff: 26,
+      points: 18,
+      bonus_points: 3,
+      bonus_points_try: 2,
+    }]);
+
+    expect(form.bonus_points).toEqual({ losing: 1, try: 2, total: 3 });
+  });
+
+  it('emits TeamSearchOutput-style JSON with the season stats', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'rugbyclaw-team-form-'));
+    tempDirs.push(dir);
+    setConfigPathOverride(dir);
+    writeFileSync(join(dir, 'config.json'), JSON.stringify({
+      schema_version: 1,
+      timezone: 'UTC',
+      favorite_leagues: ['top14'],
+      favorite_teams: [],
+    }, null, 2));
+    writeFileSync(join(dir, 'secrets.json'), JSON.stringify({ api_key: 'test-key', api_tier: 'premium' }, null, 2));
+
+    const kickoff = Date.now() - 3 * DAY_MS;
+    vi.stubGlobal('fetch', vi.fn(async (input: string | URL | Request) => {
+      const url = String(input);
+      const response = url.includes('/games?')
+        ? [{
+          id: 77,
+          date: new Date(kickoff).toISOString(),
+          time: '15:00',
+          timestamp: Math.floor(kickoff / 1000),
+          timezone: 'UTC',
+          week: '3',
+          status: { short: 'FT', long: 'Finished' },
+          country: { id: 1, name: 'France', code: 'FR', flag: '' },
+          league: { id: 16, name: 'Top 14', type: 'League', logo: '', season: 2025 },
+          teams: { home: { id: 1, name: 'Stade Toulousain', logo: '' }, away: { id: 2, name: 'Racing 92', logo: '' } },
+          scores: { home: 22, away: 17 },
+        }]
+        : [];
+      return new Response(JSON.stringify({ get: 'games', parameters: {}, errors: [], results: response.length, response }), {
+        status: 200,
+      });
+    }));
+
+    const logs: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((value) => String(value)).join(' '));
+    });
+
+    await teamCommand('toulouse', 'form', { json: true });
+
+    const output = JSON.parse(logs[0] ?? '{}') as TeamFormOutput;
+    expect(output.query).toBe('toulouse');
+    expect(output.team).toEqual({ id: '1', name: 'Stade Toulousain', slug: 'stade-toulousain', leagues: ['Top 14'] });
+    expect(output.form).toBe('W');
+    expect(output.home.won).toBe(1);
+    expect(output.matches.map((m) => m.id)).toEqual(['77']);
+  });
+});
@@ -0,0 +1,113 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { teamCommand } from '../src/commands/team.js';
+import { getCache } from '../src/lib/cache.js';
+import { getConfigPaths, setConfigPathOverride } from '../src/lib/config.js';
+import type { TeamScheduleOutput } from '../src/types/index.js';
+
+const originalPaths = getConfigPaths();
+const originalCwd = process.cwd();
+const tempDirs: string[] = [];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TEAMS = {
+  toulouse: { id: 1, name: 'Stade Toulousain', logo: '' },
+  racing: { id: 2, name: 'Racing 92', logo: '' },
+  pau: { id: 3, name: 'Section Paloise', logo: '' },
+  leinster: { id: 4, name: 'Leinster Rugby', logo: '' },
+};
+
+function fixture(id: number, leagueId: number, leagueName: string, daysAhead: number, home: typeof TEAMS.toulouse, away: typeof TEAMS.toulouse) {
+  const kickoff = new Date(Date.now() + daysAhead * DAY_MS);
+  return {
+    id,
+    date: kickoff.toISOString(),
+    time: kickoff.toISOString().slice(11, 16),
+    timestamp: Math.floor(kickoff.getTime() / 1000),
+    timezone: 'UTC',
+    week: '5',
+    status: { short: 'NS', long: 'Not Started' },
+    country: { id: 1, name: 'Europe', code: 'EU', flag: '' },
+    league: { id: leagueId, name: leagueName, type: 'Cup', logo: '', season: 2025 },
+    teams: { home, away },
+    scores: { home: null, away: null },
+  };
+}
+
+const GAMES_BY_LEAGUE: Record<string, unknown[]> = {
+  '16': [
+    fixture(101, 16, 'Top 14', 14, TEAMS.racing, TEAMS.toulouse),
+    fixture(102, 16, 'Top 14', 3, TEAMS.toulouse, TEAMS.pau),
+    fixture(103, 16, 'Top 14', 5, TEAMS.racing, TEAMS.pau),
+  ],
+  '54': [fixture(201, 54, 'European Rugby Champions Cup', 9, TEAMS.leinster, TEAMS.toulouse)],
+};
+
+let dir: string;
+
+beforeEach(async () => {
+  await getCache().clear();
+  dir = mkdtempSync(join(tmpdir(), 'rugbyclaw-team-schedule-'));
+  tempDirs.push(dir);
+  setConfigPathOverride(dir);
+  writeFileSync(join(dir, 'config.json'), JSON.stringify({
+    schema_version: 1,
+    timezone: 'UTC',
+    favorite_leagues: ['top14'],
+    favorite_teams: [],
+  }, null, 2));
+  writeFileSync(join(dir, 'secrets.json'), JSON.stringify({ api_key: 'test-key', api_tier: 'premium' }, null, 2));
+
+  vi.stubGlobal('fetch', vi.fn(async (input: string | URL | Request) => {
+    const url = new URL(String(input));
+    const response = url.pathname.endsWith('/games') ? GAMES_BY_LEAGUE[url.searchParams.get('league') ?? ''] ?? [] : [];
+    return new Response(JSON.stringify({ get: 'games', parameters: {}, errors: [], results: response.length, response }), {
+      status: 200,
+    });
+  }));
+});
+
+afterEach(async () => {
+  process.chdir(originalCwd);
+  setConfigPathOverride(originalPaths.configDir);
+  for (const tempDir of tempDirs.splice(0)) {
+    rmSync(tempDir, { recursive: true, force: true });
+  }
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  await getCache().clear();
+});
+
+function captureLogs(): string[] {
+  const logs: string[] = [];
+  vi.spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+    logs.push(args.map((value) => String(value)).join(' '));
+  });
+  return logs;
+}
+
+describe('team schedule', () => {
+  it('lists league and cup fixtures in date order', async () => {
+    const logs = captureLogs();
+
+    await teamCommand('toulouse', 'schedule', { json: true });
+
+    const output = JSON.parse(logs[0] ?? '{}') as TeamScheduleOutput;
+    expect(output.team).toMatchObject({ id: '1', name: 'Stade Toulousain' });
+    expect(output.team.leagues).toEqual(['Top 14', 'European Rugby Champions Cup']);
+    expect(output.matches.map((m) => m.id)).toEqual(['102', '201', '101']);
+  });
+
+  it('writes every fixture to one calendar with --ics', async () => {
+    process.chdir(dir);
+    captureLogs();
+
+    await teamCommand('toulouse', 'schedule', { ics: true, quiet: true });
+
+    const ics = readFileSync(join(dir, 'stade-toulousain-schedule.ics'), 'utf8');
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(3);
+    expect(ics).toContain('UID:201@rugbyclaw');
+  });
+});
@@ -0,0 +1,131 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { watchCommand } from '../src/commands/watch.js';
+import { getCache } from '../src/lib/cache.js';
+import { getConfigPaths, setConfigPathOverride } from '../src/lib/config.js';
+import type { WatchOutput } from '../src/types/index.js';
+
+const originalPaths = getConfigPaths();
+const tempDirs: string[] = [];
+
+function gamesResponse(status: string, home: number | null, away: number | null) {
+  const kickoff = new Date(Date.now() - 30 * 60 * 1000);
+  return {
+    get: 'games',
+    parameters: {},
+    errors: [],
+    results: 1,
+    response: [
+      {
+        id: 777,
+        date: kickoff.toISOString(),
+        time: kickoff.toISOString().slice(11, 16),
+        timestamp: Math.floor(kickoff.getTime() / 1000),
+        timezone: 'UTC',
+        week: '3',
+        status: { short: status, long: status },
+        country: { id: 1, name: 'France', code: 'FR', flag: '' },
+        league: { id: 16, name: 'Top 14', type: 'League', logo: '', season: 2025 },
+        teams: {
+          home: { id: 1, name: 'Toulouse', logo: '' },
+          away: { id: 2, name: 'Racing 92', logo: '' },
+        },
+        scores: { home, away },
+      },
+    ],
+  };
+}
+
+async function captureLogs(fn: () => Promise<void>): Promise<string[]> {
+  const logs: string[] = [];
+  const originalLog = console.log;
+  console.log = (...args: unknown[]) => {
+    logs.push(args.map((value) => String(value)).join(' '));
+  };
+  try {
+    await fn();
+  } finally {
+    console.log = originalLog;
+  }
+  return logs;
+}
+
+beforeEach(async () => {
+  await getCache().clear();
+  const dir = mkdtempSync(join(tmpdir(), 'rugbyclaw-watch-'));
+  tempDirs.push(dir);
+  setConfigPathOverride(dir);
+  writeFileSync(join(dir, 'config.json'), JSON.stringify({
+    schema_version: 1,
+    timezone: 'UTC',
+    favorite_leagues: ['top14'],
+    favorite_teams: [],
+  }, null, 2));
+  writeFileSync(join(dir, 'secrets.json'), JSON.stringify({ api_key: 'test-key', api_tier: 'premium' }, null, 2));
+});
+
+afterEach(async () => {
+  setConfigPathOverride(originalPaths.configDir);
+  for (const dir of tempDirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  await getCache().clear();
+});
+
+describe('watch command', () => {
+  it('streams one JSON object per poll and flags score changes', async () => {
+    const polls = [gamesResponse('1H', 0, 0), gamesResponse('1H', 7, 0), gamesResponse('FT', 24, 10)];
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(polls.shift()), { status: 200 })));
+    const sleep = vi.fn(async () => {
+      await getCache().clear();
+    });
+
+    const logs = await captureLogs(() => watchCommand({ json: true }, { sleep }));
+    const outputs = logs.map((line) => JSON.parse(line) as WatchOutput);
+
+    expect(outputs.map((output) => output.poll)).toEqual([1, 2, 3]);
+    expect(outputs.map((output) => output.changed)).toEqual([[], ['777'], ['777']]);
+    expect(outputs[0]?.next_poll_ms).toBe(30 * 1000);
+    // Stops by itself once nothing is live or upcoming.
+    expect(outputs[2]?.next_poll_ms).toBeUndefined();
+    expect(sleep).toHaveBeenCalledTimes(2);
+  });
+
+  it('redraws the board and honours --iterations', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(gamesResponse('2H', 17, 12)), { status: 200 })));
+    const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    const logs = await captureLogs(() => watchCommand(
+      { iterations: 2, interval: 90 },
+      { sleep: async (ms) => { expect(ms).toBe(90 * 1000); }, isTTY: true }
+    ));
+
+    expect(write).toHaveBeenCalledWith('\x1B[2J\x1B[H');
+    expect(logs.filter((line) => line.includes('Toulouse'))).toHaveLength(2);
+    expect(logs.some((line) => line.includes('next refresh in 2m'))).toBe(true);
+  });
+
+  it('counts failed polls toward --iterations', async () => {
+    let calls = 0;
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      calls += 1;
+      if (calls === 1) return new Response(JSON.stringify(gamesResponse('2H', 17, 12)), { status: 200 });
+      throw new Error('upstream down');
+    }));
+    const exit = vi.spyOn(process, 'exit').mockImplementation(((code?: number) => {
+      throw new Error(`exit:${code}`);
+    }) as never);
+    const sleep = vi.fn(async () => {
+      await getCache().clear();
+    });
+
+    await captureLogs(() => expect(watchCommand({ iterations: 3, quiet: true }, { sleep })).rejects.toThrow(/^exit:/));
+
+    expect(sleep).toHaveBeenCalledTimes(2);
+    expect(exit).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import worker from '../worker/src/index';
+import { CACHE_TTLS, CacheStats, getCacheTtlSeconds, normalizeCacheKey } from '../worker/src/cache';
+import { FakeUpstream, MemoryCache, MemoryKV, apiGame, createExecutionContext } from './worker-harness';
+
+const NOW = Date.parse('2026-10-17T18:00:00Z');
+
+let kv: MemoryKV;
+let upstream: FakeUpstream;
+
+function env() {
+  return {
+    API_SPORTS_KEY: 'test-key',
+    RATE_LIMIT_PER_DAY: '50',
+    RATE_LIMIT_PER_MINUTE: '10',
+    DEFAULT_LEAGUES: '16,76',
+    RATE_LIMITS: kv as unknown as KVNamespace,
+  };
+}
+
+/** One request, `waitUntil` work included, 15s after the previous one. */
+async function get(path: string, ip: string): Promise<Response> {
+  vi.setSystemTime(Date.now() + 15_000);
+  const { ctx, settle } = createExecutionContext();
+  const response = await worker.fetch(new Request(`https://proxy.test${path}`, {
+    headers: { 'User-Agent': 'rugbyclaw-test', 'CF-Connecting-IP': ip },
+  }), env(), ctx);
+  await settle();
+  return response;
+}
+
+beforeEach(() => {
+  kv = new MemoryKV();
+  upstream = new FakeUpstream();
+  upstream.games = [apiGame({ id: 101, kickoff: NOW })];
+  vi.stubGlobal('fetch', upstream.fetch);
+  vi.stubGlobal('caches', { default: new MemoryCache() });
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('worker shared cache', () => {
+  it('keys entries by endpoint and normalized query', () => {
+    expect(normalizeCacheKey('/games', new URLSearchParams('season=2025&league=16'))).toBe(
+      normalizeCacheKey('/games', new URLSearchParams('league=16&season=2025'))
+    );
+    expect(normalizeCacheKey('/teams', new URLSearchParams({ search: '  Stade  Toulousain ' }))).toBe(
+      'https://cache.rugbyclaw.internal/v1/teams?search=stade+toulousain'
+    );
+  });
+
+  it('picks TTLs by endpoint and how live the data is', () => {
+    const ttl = (endpoint: '/games' | '/teams' | '/leagues' | '/standings', query: string) =>
+      getCacheTtlSeconds(endpoint, new URLSearchParams(query), NOW);
+
+    expect(ttl('/games', 'league=16&date=2026-10-17')).toBe(CACHE_TTLS.live);
+    expect(ttl('/games', 'league=16&date=2026-10-18')).toBe(CACHE_TTLS.live);
+    expect(ttl('/games', 'league=16&date=2026-10-25')).toBe(CACHE_TTLS.upcoming);
+    expect(ttl('/games', 'league=16&date=2026-10-10')).toBe(CACHE_TTLS.past);
+    expect(ttl('/games', 'id=101')).toBe(CACHE_TTLS.live);
+    expect(ttl('/games', 'league=16&season=2025')).toBe(CACHE_TTLS.season);
+    expect(ttl('/teams', 'search=toulouse')).toBe(CACHE_TTLS.teams);
+    expect(ttl('/leagues', 'id=16')).toBe(CACHE_TTLS.leagues);
+    expect(ttl('/standings', 'league=16&season=2025')).toBe(CACHE_TTLS.standings);
+  });
+
+  it('serves every client from one upstream call and reports hits in /status', async () => {
+    const first = await get('/games?league=16&season=2025', '203.0.113.1');
+    const second = await get('/games?season=2025&league=16', '203.0.113.2');
+    const third = await get('/games?league=16&season=2025', '203.0.113.3');
+
+    expect(upstream.upstreamRequests).toEqual(['/games?league=16&season=2025']);
+    expect([first, second, third].map((response) => response.headers.get('X-Cache'))).toEqual(['MISS', 'HIT', 'HIT']);
+    expect(await third.json()).toMatchObject({ response: [{ id: 101 }] });
+    expect(third.headers.get('X-Request-Id')).not.toBe(first.headers.get('X-Request-Id'));
+
+    // Season fixtures expire after five minutes
+    vi.setSystemTime(Date.now() + CACHE_TTLS.season * 1000);
+    expect((await get('/games?league=16&season=2025', '203.0.113.1')).headers.get('X-Cache')).toBe('MISS');
+
+    const status = await (await get('/status', '203.0.113.1')).json() as { cache: Record<string, unknown> };
+    expect(status.cache).toMatchObject({ day: '2026-10-17', hits: 2, misses: 2, hit_rate: 0.5 });
+  });
+
+  it('sums cache stats from every isolate without losing concurrent flushes', async () => {
+    const isolates = [new CacheStats(), new CacheStats(), new CacheStats()];
+    const { ctx, settle } = createExecutionContext();
+    for (const stats of isolates) {
+      stats.record('hit', kv as unknown as KVNamespace, ctx, NOW);
+      stats.record('miss', kv as unknown as KVNamespace, ctx, NOW + 10_000);
+    }
+    await settle();
+
+    const reader = new CacheStats();
+    expect(await reader.read(kv as unknown as KVNamespace, NOW)).toEqual({ hits: 3, misses: 3 });
+    expect([...kv.store.keys()].filter((key) => key.startsWith('stats:cache:2026-10-17:'))).toHaveLength(3);
+    // The reader's own unwritten counts are included too
+    reader.record('hit', { put: async () => undefined } as unknown as KVNamespace, ctx, NOW);
+    expect(await reader.read(kv as unknown as KVNamespace, NOW)).toEqual({ hits: 4, misses: 3 });
+  });
+
+  it('logs a failed stats flush instead of rejecting waitUntil', async () => {
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    kv.put = async () => {
+      throw new Error('KV PUT failed: 429 Too Many Requests');
+    };
+    const { ctx, settle } = createExecutionContext();
+    new CacheStats().record('hit', kv as unknown as KVNamespace, ctx, NOW);
+
+    await expect(settle()).resolves.toBeUndefined();
+    expect(errors).toHaveBeenCalledWith('Cache stats flush failed:', expect.any(Error));
+  });
+
+  it('does not share API-Sports error answers', async () => {
+    upstream.nextUpstreamBody = { get: 'games', errors: { requests: 'You have reached the request limit for the day' }, results: 0, response: [] };
+
+    await get('/games?league=16&date=2026-10-17', '203.0.113.1');
+    const retry = await get('/games?league=16&date=2026-10-17', '203.0.113.1');
+
+    expect(retry.headers.get('X-Cache')).toBe('MISS');
+    expect(upstream.upstreamRequests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Stand-ins for the proxy worker's runtime in tests: an in-memory KV
+ * namespace, the edge cache, an ExecutionContext that collects `waitUntil`
+ * work, and a fake upstream serving API-Sports games and recording webhook
+ * calls. Install them with `vi.stubGlobal('fetch', upstream.fetch)` and
+ * `vi.stubGlobal('caches', { default: cache })`.
+ */
+
+interface StoredValue {
+  value: string;
+  expiresAt?: number;
+}
+
+export class MemoryKV {
+  readonly store = new Map<string, StoredValue>();
+  reads = 0;
+  writes = 0;
+  lists = 0;
+
+  async get(key: string, type?: 'text' | 'json'): Promise<unknown> {
+    this.reads += 1;
+    const entry = this.store.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.store.delete(key);
+      return null;
+    }
+    return type === 'json' ? JSON.parse(entry.value) : entry.value;
+  }
+
+  async put(key: string, value: string, options: { expirationTtl?: number } = {}): Promise<void> {
+    this.writes += 1;
+    const expiresAt = options.expirationTtl === undefined ? undefined : Date.now() + options.expirationTtl * 1000;
+    this.store.set(key, { value, expiresAt });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async list(options: { prefix?: string } = {}): Promise<{ keys: { name: string }[]; list_complete: boolean }> {
+    this.lists += 1;
+    const keys = [...this.store.keys()]
+      .filter((name) => name.startsWith(options.prefix ?? ''))
+      .map((name) => ({ name }));
+    return { keys, list_complete: true };
+  }
+}
+
+/**
+ * `caches.default`: keyed by URL, honouring `Cache-Control: max-age`.
+ */
+export class MemoryCache {
+  readonly entries = new Map<string, { response: Response; expiresAt: number }>();
+
+  async match(request: Request): Promise<Response | undefined> {
+    const entry = this.entries.get(request.url);
+    if (!entry || entry.expiresAt <= Date.now()) return undefined;
+    return entry.response.clone();
+  }
+
+  async put(request: Request, response: Response): Promise<void> {
+    const maxAge = /max-age=(\d+)/.exec(response.headers.get('Cache-Control') ?? '')?.[1];
+    if (!maxAge) return;
+    this.entries.set(request.url, { response: response.clone(), expiresAt: Date.now() + Number(maxAge) * 1000 });
+  }
+}
+
+export function createExecutionContext(): { ctx: ExecutionContext; settle: () => Promise<void> } {
+  const pending: Promise<unknown>[] = [];
+  const ctx = {
+    waitUntil: (promise: Promise<unknown>) => {
+      pending.push(promise);
+    },
+    passThroughOnException: () => undefined,
+  } as unknown as ExecutionContext;
+  return { ctx, settle: async () => void (await Promise.all(pending.splice(0))) };
+}
+
+export interface WebhookCall {
+  url: string;
+  headers: Headers;
+  body: string;
+}
+
+export interface ApiGameInput {
+  id: number;
+  kickoff: number; // ms
+  status?: string;
+  league?: number;
+  home?: [number, string];
+  away?: [number, string];
+  score?: [number | null, number | null];
+}
+
+export function apiGame(input: ApiGameInput): Record<string, unknown> {
+  const [homeId, homeName] = input.home ?? [1, 'Stade Toulousain'];
+  const [awayId, awayName] = input.away ?? [2, 'Racing 92'];
+  const [home, away] = input.score ?? [null, null];
+  return {
+    id: input.id,
+    date: new Date(input.kickoff).toISOString(),
+    time: new Date(input.kickoff).toISOString().slice(11, 16),
+    timestamp: Math.floor(input.kickoff / 1000),
+    timezone: 'UTC',
+    week: '1',
+    status: { short: input.status ?? 'NS', long: input.status ?? 'Not Started' },
+    country: { id: 1, name: 'France', code: 'FR', flag: '' },
+    league: { id: input.league ?? 16, name: input.league === 76 ? 'United Rugby Championship' : 'Top 14', type: 'League', logo: '', season: 2025 },
+    teams: { home: { id: homeId, name: homeName, logo: '' }, away: { id: awayId, name: awayName, logo: '' } },
+    scores: { home, away },
+  };
+}
+
+/**
+ * API-Sports (`v1.rugby.api-sports.io`) answers with `games`; any other
+ * host is a webhook, answered with `webhookStatus`.
+ */
+export class FakeUpstream {
+  games: Record<string, unknown>[] = [];
+  upstreamRequests: string[] = [];
+  webhooks: WebhookCall[] = [];
+  webhookStatus = 200;
+  /** Replaces the next API-Sports answer, e.g. a quota error. */
+  nextUpstreamBody?: unknown;
+
+  readonly fetch = async (input: string | URL | Request, init: RequestInit = {}): Promise<Response> => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+
+    if (url.hostname === 'v1.rugby.api-sports.io') {
+      this.upstreamRequests.push(`${url.pathname}${url.search}`);
+      const date = url.searchParams.get('date');
+      const games = date ? this.games.filter((game) => String(game.date).startsWith(date)) : this.games;
+      const body = this.nextUpstreamBody ?? { get: 'games', parameters: {}, errors: [], results: games.length, response: games };
+      this.nextUpstreamBody = undefined;
+      return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    this.webhooks.push({ url: request.url, headers: request.headers, body: await request.text() });
+    return new Response('ok', { status: this.webhookStatus });
+  };
+}
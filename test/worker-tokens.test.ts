@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import worker from '../worker/src/index';
+import { hashToken, parseBearerToken, type ApiTokenRecord } from '../worker/src/tokens';
+import { FakeUpstream, MemoryCache, MemoryKV, apiGame, createExecutionContext } from './worker-harness';
+
+const NOW = Date.parse('2026-10-17T18:00:00Z');
+const OFFICE_TOKEN = 'office-token-0123456789abcdef';
+const IP = '203.0.113.9';
+
+let kv: MemoryKV;
+let upstream: FakeUpstream;
+
+function env() {
+  return {
+    API_SPORTS_KEY: 'test-key',
+    RATE_LIMIT_PER_DAY: '2',
+    RATE_LIMIT_PER_MINUTE: '10',
+    DEFAULT_LEAGUES: '16,76',
+    RATE_LIMITS: kv as unknown as KVNamespace,
+  };
+}
+
+async function issue(token: string, record: ApiTokenRecord): Promise<void> {
+  await kv.put(`token:${await hashToken(token)}`, JSON.stringify(record));
+}
+
+async function get(path: string, token?: string): Promise<Response> {
+  const { ctx, settle } = createExecutionContext();
+  const headers: Record<string, string> = { 'User-Agent': 'rugbyclaw-test', 'CF-Connecting-IP': IP };
+  if (token) headers.Authorization = `Bearer ${token}`;
+  const response = await worker.fetch(new Request(`https://proxy.test${path}`, { headers }), env(), ctx);
+  await settle();
+  return response;
+}
+
+beforeEach(async () => {
+  kv = new MemoryKV();
+  upstream = new FakeUpstream();
+  upstream.games = [apiGame({ id: 101, kickoff: NOW })];
+  vi.stubGlobal('fetch', upstream.fetch);
+  vi.stubGlobal('caches', { default: new MemoryCache() });
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+  await issue(OFFICE_TOKEN, { name: 'office', limit_per_day: 100, limit_per_minute: 3, leagues: ['16', '13'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('worker API tokens', () => {
+  it('reads bearer tokens and rejects malformed headers', () => {
+    expect(parseBearerToken(null)).toEqual({ kind: 'none' });
+    expect(parseBearerToken(`Bearer ${OFFICE_TOKEN}`)).toEqual({ kind: 'token', token: OFFICE_TOKEN });
+    expect(parseBearerToken('Bearer short')).toEqual({ kind: 'invalid' });
+    expect(parseBearerToken(`Basic ${OFFICE_TOKEN}`)).toEqual({ kind: 'invalid' });
+  });
+
+  it('counts token requests against the token quota, not the shared IP', async () => {
+    const anonymous = [await get('/games?league=16&season=2025'), await get('/games?league=16&season=2025'), await get('/games?league=16&season=2025')];
+    expect(anonymous.map((response) => response.status)).toEqual([200, 200, 429]);
+
+    const office = [];
+    for (let i = 0; i < 4; i += 1) office.push(await get('/games?league=16&season=2025', OFFICE_TOKEN));
+    expect(office.map((response) => response.status)).toEqual([200, 200, 200, 429]);
+    expect(office[0].headers.get('X-RateLimit-Limit-Day')).toBe('100');
+    expect(await office[3].json()).toEqual({ error: 'Rate limit exceeded for API token "office".' });
+
+    // Next minute: the token's burst resets, the IP's day stays spent
+    vi.setSystemTime(NOW + 60_000);
+    expect((await get('/games?league=16&season=2025', OFFICE_TOKEN)).status).toBe(200);
+    expect((await get('/games?league=16&season=2025')).status).toBe(429);
+  });
+
+  it('applies the token league allowlist', async () => {
+    expect((await get('/standings?league=13&season=2025', OFFICE_TOKEN)).status).toBe(200);
+    expect((await get('/games?league=76&season=2025', OFFICE_TOKEN)).status).toBe(403);
+    expect((await get('/games?league=13&season=2025')).status).toBe(403);
+  });
+
+  it('rejects unknown and disabled tokens instead of falling back to the IP', async () => {
+    await issue('retired-token-0123456789', { name: 'retired', limit_per_day: 10, limit_per_minute: 1, disabled: true });
+
+    for (const token of ['unknown-token-0123456789', 'retired-token-0123456789', 'bad']) {
+      const response = await get('/games?league=16&season=2025', token);
+      expect(response.status).toBe(401);
+      expect(response.headers.get('WWW-Authenticate')).toBe('Bearer');
+    }
+    expect(upstream.upstreamRequests).toEqual([]);
+  });
+
+  it('reports the token quota in /status', async () => {
+    await get('/games?league=16&season=2025', OFFICE_TOKEN);
+
+    const status = await (await get('/status', OFFICE_TOKEN)).json() as Record<string, unknown>;
+    expect(status).toMatchObject({
+      mode: 'token',
+      token: { name: 'office', leagues: ['16', '13'] },
+      rate_limit: {
+        day: { limit: 100, remaining: 99 },
+        minute: { limit: 3, remaining: 2 },
+        endpoint_minute_limits: null,
+      },
+    });
+
+    const anonymous = await (await get('/status')).json() as Record<string, unknown>;
+    expect(anonymous).toMatchObject({ mode: 'free', rate_limit: { day: { limit: 2, remaining: 2 } } });
+    expect(anonymous).not.toHaveProperty('token');
+  });
+});
@@ -51,6 +51,48 @@ describe('worker request validation', () => {
     });
   });
 
+  it('accepts a standings league+season query', () => {
+    const params = new URLSearchParams({ league: '16', season: '2025' });
+    expect(validateQuery('/standings', params, allowed).ok).toBe(true);
+  });
+
+  it('rejects standings queries without both league and season', () => {
+    for (const query of ['league=16', 'season=2025', '']) {
+      expect(validateQuery('/standings', new URLSearchParams(query), allowed)).toEqual({
+        ok: false,
+        message: 'league and season are required for /standings queries',
+        status: 400,
+      });
+    }
+  });
+
+  it('rejects standings queries with other params or invalid values', () => {
+    expect(validateQuery('/standings', new URLSearchParams('league=16&season=2025&team=1'), allowed)).toEqual({
+      ok: false,
+      message: 'Query parameter not allowed: team',
+      status: 400,
+    });
+    expect(validateQuery('/standings', new URLSearchParams('league=16&season=25'), allowed)).toEqual({
+      ok: false,
+      message: 'Invalid season parameter',
+      status: 400,
+    });
+    expect(validateQuery('/standings', new URLSearchParams('league=16&season=2025&season=2024'), allowed)).toEqual({
+      ok: false,
+      message: 'Duplicate query parameter not allowed: season',
+      status: 400,
+    });
+  });
+
+  it('keeps standings to the free leagues', () => {
+    const params = new URLSearchParams({ league: '76', season: '2025' });
+    expect(validateQuery('/standings', params, allowed)).toEqual({
+      ok: false,
+      message: 'League not available in free mode. Run "rugbyclaw config" to add your own API key.',
+      status: 403,
+    });
+  });
+
   it('rejects oversized query string', () => {
     const longSearch = 'a'.repeat(1200);
     const url = new URL(`https://example.com/games?search=${longSearch}`);
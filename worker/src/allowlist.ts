@@ -1,4 +1,4 @@
-export const ALLOWED_ENDPOINTS = ['/games', '/leagues', '/teams'] as const;
+export const ALLOWED_ENDPOINTS = ['/games', '/leagues', '/teams', '/standings'] as const;
 
 export type AllowedEndpoint = (typeof ALLOWED_ENDPOINTS)[number];
 
@@ -0,0 +1,167 @@
+/**
+ * Shared edge cache for proxied API-Sports responses.
+ *
+ * Every client asking for the same data gets the same cache entry: keys
+ * are built from the endpoint and a normalized query, not the raw URL.
+ * Hit/miss counts are kept per day in KV for /status.
+ */
+
+import type { AllowedEndpoint } from './allowlist';
+
+const CACHE_KEY_ORIGIN = 'https://cache.rugbyclaw.internal';
+const CACHE_KEY_VERSION = 'v1';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Cache TTLs (seconds) by kind of request. */
+export const CACHE_TTLS = {
+  live: 30, // today's games, or one game by id
+  upcoming: 10 * 60, // future dates
+  past: 6 * 60 * 60, // past dates: settled, bar corrections
+  season: 5 * 60, // a league's season fixtures and results
+  standings: 15 * 60, // moves only when a result comes in
+  teams: 24 * 60 * 60,
+  leagues: 7 * 24 * 60 * 60,
+} as const;
+
+const STATS_KEY_PREFIX = 'stats:cache:';
+const STATS_TTL_SECONDS = 8 * 24 * 60 * 60;
+/** Counts are batched per isolate and written at most this often. */
+const STATS_FLUSH_MS = 10 * 1000;
+
+export interface CacheCounts {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Cache key for a validated request: params sorted, `search` trimmed and
+ * lowercased. `?season=2025&league=16` and `?league=16&season=2025` share it.
+ */
+export function normalizeCacheKey(endpoint: AllowedEndpoint, params: URLSearchParams): string {
+  const entries = Array.from(params.entries()).map(([key, value]): [string, string] => [
+    key,
+    key === 'search' ? value.trim().replace(/\s+/g, ' ').toLowerCase() : value.trim(),
+  ]);
+  entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  const key = new URL(`/${CACHE_KEY_VERSION}${endpoint}`, CACHE_KEY_ORIGIN);
+  for (const [name, value] of entries) key.searchParams.append(name, value);
+  return key.toString();
+}
+
+/**
+ * How long a response may be shared. Dates within a day of today (UTC)
+ * count as live, so kickoffs late in any timezone still refresh quickly.
+ */
+export function getCacheTtlSeconds(endpoint: AllowedEndpoint, params: URLSearchParams, now: number = Date.now()): number {
+  if (endpoint === '/teams') return CACHE_TTLS.teams;
+  if (endpoint === '/leagues') return CACHE_TTLS.leagues;
+  if (endpoint === '/standings') return CACHE_TTLS.standings;
+
+  if (params.has('id')) return CACHE_TTLS.live;
+
+  const date = params.get('date');
+  if (date) {
+    const day = Date.parse(`${date}T00:00:00Z`);
+    const today = Date.parse(`${new Date(now).toISOString().slice(0, 10)}T00:00:00Z`);
+    if (day < today - DAY_MS) return CACHE_TTLS.past;
+    if (day > today + DAY_MS) return CACHE_TTLS.upcoming;
+    return CACHE_TTLS.live;
+  }
+
+  return CACHE_TTLS.season;
+}
+
+/**
+ * API-Sports reports quota and parameter problems with a 200 and a
+ * non-empty `errors`; those must not be shared.
+ */
+export function isCacheableBody(body: string): boolean {
+  try {
+    const data = JSON.parse(body) as { errors?: unknown };
+    const errors = data.errors;
+    if (Array.isArray(errors)) return errors.length === 0;
+    if (errors && typeof errors === 'object') return Object.keys(errors).length === 0;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function statsDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+async function listKeyNames(kv: KVNamespace, prefix: string): Promise<string[]> {
+  const names: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix, cursor });
+    names.push(...page.keys.map((key) => key.name));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return names;
+}
+
+/**
+ * Per-isolate hit/miss counter. Each isolate keeps its day's counts in
+ * memory and writes them to its own KV shard, `stats:cache:<day>:<isolate>`,
+ * at most every STATS_FLUSH_MS, so a cache hit doesn't cost a KV write and
+ * isolates never overwrite each other's counts. Reads sum the day's shards.
+ */
+export class CacheStats {
+  private readonly isolate = crypto.randomUUID().slice(0, 8);
+  private day = '';
+  private counts: CacheCounts = { hits: 0, misses: 0 };
+  private dirty = false;
+  private lastFlush = 0;
+
+  record(kind: 'hit' | 'miss', kv: KVNamespace, ctx: ExecutionContext, now: number = Date.now()): void {
+    const day = statsDay(now);
+    if (day !== this.day) {
+      // A new day: yesterday's last counts go to yesterday's shard
+      if (this.dirty) ctx.waitUntil(this.flush(kv));
+      this.day = day;
+      this.counts = { hits: 0, misses: 0 };
+    }
+    if (kind === 'hit') this.counts.hits += 1;
+    else this.counts.misses += 1;
+    this.dirty = true;
+
+    if (now - this.lastFlush >= STATS_FLUSH_MS) {
+      this.lastFlush = now;
+      ctx.waitUntil(this.flush(kv));
+    }
+  }
+
+  /** Today's counts: every other isolate's shard plus this isolate's live counts. */
+  async read(kv: KVNamespace, now: number = Date.now()): Promise<CacheCounts> {
+    const day = statsDay(now);
+    const prefix = `${STATS_KEY_PREFIX}${day}:`;
+    const own = this.shardKey(day);
+    const names = (await listKeyNames(kv, prefix)).filter((name) => name !== own);
+    const shards = await Promise.all(names.map((name) => kv.get<CacheCounts>(name, 'json')));
+
+    const total = this.day === day ? { ...this.counts } : { hits: 0, misses: 0 };
+    for (const shard of shards) {
+      total.hits += shard?.hits ?? 0;
+      total.misses += shard?.misses ?? 0;
+    }
+    return total;
+  }
+
+  private shardKey(day: string): string {
+    return `${STATS_KEY_PREFIX}${day}:${this.isolate}`;
+  }
+
+  /** Runs inside waitUntil, where a rejection would go unhandled. */
+  private flush(kv: KVNamespace): Promise<void> {
+    const key = this.shardKey(this.day);
+    const counts = { ...this.counts };
+    this.dirty = false;
+    return kv.put(key, JSON.stringify(counts), { expirationTtl: STATS_TTL_SECONDS }).catch((error) => {
+      console.error('Cache stats flush failed:', error);
+    });
+  }
+}
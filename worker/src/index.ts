@@ -6,12 +6,16 @@
  */
 
 import { getAllowedEndpoint, isAllowedEndpoint, type AllowedEndpoint } from './allowlist';
+import { handleCreateSubscription, handleDeleteSubscription, runPushTick } from './push';
+import { CACHE_TTLS, CacheStats, getCacheTtlSeconds, isCacheableBody, normalizeCacheKey } from './cache';
+import { parseBearerToken, resolveApiToken, type ApiTokenTier } from './tokens';
 
 interface Env {
   API_SPORTS_KEY: string;
   RATE_LIMIT_PER_DAY: string;
   RATE_LIMIT_PER_MINUTE: string;
   DEFAULT_LEAGUES: string;
+  MAX_SUBSCRIPTIONS_PER_IP?: string;
   RATE_LIMITS: KVNamespace;
 }
 
@@ -26,6 +30,7 @@ const ENDPOINT_BURST_LIMITS: Record<AllowedEndpoint, number> = {
   '/games': 8,
   '/teams': 6,
   '/leagues': 12,
+  '/standings': 6,
 };
 const BLOCKED_USER_AGENT_PATTERNS = [
   /sqlmap/i,
@@ -39,6 +44,9 @@ const BLOCKED_USER_AGENT_PATTERNS = [
   /wpscan/i,
 ];
 
+// Hit/miss counts, per isolate until flushed to KV
+const cacheStats = new CacheStats();
+
 function parsePositiveInt(value: string | undefined, fallback: number): number {
   const parsed = Number.parseInt(value || '', 10);
   if (!Number.isFinite(parsed) || parsed <= 0) return fallback;
@@ -125,6 +133,56 @@ export function validateRequestSize(url: URL): { ok: true } | { ok: false; messa
   return { ok: true };
 }
 
+/** Rate limited paths: the proxied endpoints plus push subscriptions. */
+type RateLimitedEndpoint = AllowedEndpoint | '/subscriptions';
+
+/** Who a request is counted against: an IP on the free limits, or an API token. */
+interface RateLimitClient {
+  /** Rate limit counter subject. */
+  id: string;
+  limitPerDay: number;
+  limitPerMinute: number;
+  leagues: Set<string>;
+  token: ApiTokenTier | null;
+}
+
+async function resolveRateLimitClient(
+  request: Request,
+  env: Env
+): Promise<{ ok: true; client: RateLimitClient } | { ok: false; message: string; status: number }> {
+  const allowedLeagues = parseAllowedLeagues(env);
+  const bearer = parseBearerToken(request.headers.get('Authorization'));
+
+  if (bearer.kind === 'none') {
+    return {
+      ok: true,
+      client: {
+        id: request.headers.get('CF-Connecting-IP') || 'unknown',
+        limitPerDay: parsePositiveInt(env.RATE_LIMIT_PER_DAY, 50),
+        limitPerMinute: parsePositiveInt(env.RATE_LIMIT_PER_MINUTE, 10),
+        leagues: allowedLeagues,
+        token: null,
+      },
+    };
+  }
+
+  const tier = bearer.kind === 'token' ? await resolveApiToken(env.RATE_LIMITS, bearer.token, allowedLeagues) : null;
+  if (!tier) {
+    return { ok: false, message: 'Invalid API token', status: 401 };
+  }
+
+  return {
+    ok: true,
+    client: {
+      id: tier.rateLimitId,
+      limitPerDay: tier.limitPerDay,
+      limitPerMinute: tier.limitPerMinute,
+      leagues: tier.leagues,
+      token: tier,
+    },
+  };
+}
+
 function parseAllowedLeagues(env: Env): Set<string> {
   return new Set(
     (env.DEFAULT_LEAGUES || '')
@@ -144,6 +202,7 @@ export function validateQuery(
     '/games': new Set(['league', 'season', 'date', 'id']),
     '/teams': new Set(['search', 'league', 'season', 'id']),
     '/leagues': new Set(['id', 'season']),
+    '/standings': new Set(['league', 'season']),
   };
 
   if (keys.length > MAX_QUERY_PARAMS) {
@@ -249,6 +308,13 @@ export function validateQuery(
     }
   }
 
+  // One league's table per request; the league allowlist above applies.
+  if (endpoint === '/standings') {
+    if (!searchParams.has('league') || !searchParams.has('season')) {
+      return { ok: false, message: 'league and season are required for /standings queries', status: 400 };
+    }
+  }
+
   // Restrict leagues endpoint to default leagues only.
   if (endpoint === '/leagues') {
     if (!id) {
@@ -267,45 +333,39 @@ export function validateQuery(
     }
   }
 
-  // Cache TTL heuristics (seconds).
-  if (endpoint === '/teams') return { ok: true, cacheTtlSeconds: 24 * 60 * 60 };
-  if (endpoint === '/leagues') return { ok: true, cacheTtlSeconds: 7 * 24 * 60 * 60 };
-
-  // /games
-  if (searchParams.has('date') || searchParams.has('id')) return { ok: true, cacheTtlSeconds: 30 };
-  return { ok: true, cacheTtlSeconds: 5 * 60 };
+  return { ok: true, cacheTtlSeconds: getCacheTtlSeconds(endpoint, searchParams) };
 }
 
 /**
- * Get the rate limit key for an IP (resets daily).
+ * Get the rate limit key for a client IP or token (resets daily).
  */
-function getRateLimitKey(ip: string): string {
+function getRateLimitKey(client: string): string {
   const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-  return `ratelimit:${ip}:${today}`;
+  return `ratelimit:${client}:${today}`;
 }
 
-function getMinuteRateLimitKey(ip: string, now: Date = new Date()): string {
+function getMinuteRateLimitKey(client: string, now: Date = new Date()): string {
   const minute = now.toISOString().slice(0, 16); // YYYY-MM-DDTHH:MM
-  return `ratelimit:${ip}:${minute}`;
+  return `ratelimit:${client}:${minute}`;
 }
 
 function getEndpointMinuteRateLimitKey(
-  ip: string,
-  endpoint: AllowedEndpoint,
+  client: string,
+  endpoint: RateLimitedEndpoint,
   now: Date = new Date()
 ): string {
   const minute = now.toISOString().slice(0, 16); // YYYY-MM-DDTHH:MM
-  return `ratelimit:${endpoint}:${ip}:${minute}`;
+  return `ratelimit:${endpoint}:${client}:${minute}`;
 }
 
 async function getRateLimitStatus(
   kv: KVNamespace,
-  ip: string,
+  client: string,
   limitPerDay: number,
   limitPerMinute: number
 ): Promise<{ remainingDay: number; remainingMinute: number; limitDay: number; limitMinute: number }> {
-  const key = getRateLimitKey(ip);
-  const minuteKey = getMinuteRateLimitKey(ip);
+  const key = getRateLimitKey(client);
+  const minuteKey = getMinuteRateLimitKey(client);
 
   const [currentDay, currentMinute] = await Promise.all([kv.get(key), kv.get(minuteKey)]);
   const countDay = currentDay ? parseInt(currentDay, 10) : 0;
@@ -320,13 +380,13 @@ async function getRateLimitStatus(
 }
 
 /**
- * Check and increment rate limit for an IP.
+ * Check and increment rate limit for a client IP or token.
  * Returns { allowed: boolean, remaining: number, limit: number }
  */
 async function checkRateLimit(
   kv: KVNamespace,
-  ip: string,
-  endpoint: AllowedEndpoint,
+  client: string,
+  endpoint: RateLimitedEndpoint,
   limitPerDay: number,
   limitPerMinute: number,
   limitPerEndpointPerMinute: number
@@ -350,9 +410,9 @@ async function checkRateLimit(
     limitEndpointMinute: number;
   }
 > {
-  const key = getRateLimitKey(ip);
-  const minuteKey = getMinuteRateLimitKey(ip);
-  const endpointMinuteKey = getEndpointMinuteRateLimitKey(ip, endpoint);
+  const key = getRateLimitKey(client);
+  const minuteKey = getMinuteRateLimitKey(client);
+  const endpointMinuteKey = getEndpointMinuteRateLimitKey(client, endpoint);
 
   // Get current count
   const [currentDay, currentMinute, currentEndpointMinute] = await Promise.all([
@@ -428,14 +488,57 @@ function handleCors(requestId: string): Response {
   return new Response(null, {
     headers: {
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, X-Rugbyclaw-Trace-Id',
+      'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type, X-Rugbyclaw-Trace-Id, X-Rugbyclaw-Secret',
       'Access-Control-Max-Age': '86400',
       'X-Request-Id': requestId,
     },
   });
 }
 
+async function handleSubscriptions(request: Request, env: Env, requestId: string): Promise<Response> {
+  const headers = jsonHeaders(requestId, { 'Cache-Control': 'no-store' });
+  const url = new URL(request.url);
+
+  const userAgentValidation = validateUserAgent(request.headers.get('User-Agent'));
+  if (!userAgentValidation.ok) {
+    return errorResponse(userAgentValidation.message, userAgentValidation.status, headers);
+  }
+
+  const id = url.pathname.slice('/subscriptions/'.length);
+  const isCreate = url.pathname === '/subscriptions' && request.method === 'POST';
+  const isDelete = request.method === 'DELETE' && /^[a-f0-9]{16}$/.test(id);
+  if (!isCreate && !isDelete) {
+    return errorResponse('Method not allowed', 405, headers);
+  }
+
+  try {
+    // Writes count against the client IP's free-mode quota, like GETs
+    const ip = request.headers.get('CF-Connecting-IP') || 'unknown';
+    const limitPerMinute = parsePositiveInt(env.RATE_LIMIT_PER_MINUTE, 10);
+    const rate = await checkRateLimit(
+      env.RATE_LIMITS,
+      ip,
+      '/subscriptions',
+      parsePositiveInt(env.RATE_LIMIT_PER_DAY, 50),
+      limitPerMinute,
+      limitPerMinute
+    );
+    if (!rate.allowed) {
+      return errorResponse('Rate limit exceeded.', 429, headers);
+    }
+
+    if (isCreate) {
+      const maxPerIp = parsePositiveInt(env.MAX_SUBSCRIPTIONS_PER_IP, 3);
+      return await handleCreateSubscription(request, env.RATE_LIMITS, parseAllowedLeagues(env), maxPerIp, headers);
+    }
+    return await handleDeleteSubscription(request, id, env.RATE_LIMITS, headers);
+  } catch (error) {
+    console.error('Subscription request failed:', error);
+    return errorResponse('Subscriptions are temporarily unavailable', 503, headers);
+  }
+}
+
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const requestId = getRequestId(request);
@@ -445,11 +548,6 @@ export default {
       return handleCors(requestId);
     }
 
-    // Only allow GET requests
-    if (request.method !== 'GET') {
-      return errorResponse('Method not allowed', 405, jsonHeaders(requestId));
-    }
-
     const url = new URL(request.url);
     const sizeValidation = validateRequestSize(url);
     if (!sizeValidation.ok) {
@@ -457,6 +555,16 @@ export default {
     }
     const pathname = url.pathname;
 
+    // Push subscriptions are the only writes
+    if (pathname === '/subscriptions' || pathname.startsWith('/subscriptions/')) {
+      return handleSubscriptions(request, env, requestId);
+    }
+
+    // Only allow GET requests
+    if (request.method !== 'GET') {
+      return errorResponse('Method not allowed', 405, jsonHeaders(requestId));
+    }
+
     // Health check endpoint
     if (pathname === '/health') {
       return new Response(JSON.stringify({ status: 'ok' }), {
@@ -465,17 +573,29 @@ export default {
     }
 
     if (pathname === '/status') {
-      const ip = request.headers.get('CF-Connecting-IP') || 'unknown';
-      const rateLimitDay = parsePositiveInt(env.RATE_LIMIT_PER_DAY, 50);
-      const rateLimitMinute = parsePositiveInt(env.RATE_LIMIT_PER_MINUTE, 10);
-      const rate = await getRateLimitStatus(env.RATE_LIMITS, ip, rateLimitDay, rateLimitMinute);
+      const resolved = await resolveRateLimitClient(request, env);
+      if (!resolved.ok) {
+        return errorResponse(resolved.message, resolved.status, jsonHeaders(requestId, { 'WWW-Authenticate': 'Bearer' }));
+      }
+      const client = resolved.client;
+      const rate = await getRateLimitStatus(
+        env.RATE_LIMITS,
+        client.id,
+        client.limitPerDay,
+        client.limitPerMinute
+      );
+      const cacheCounts = await cacheStats.read(env.RATE_LIMITS);
+      const cacheTotal = cacheCounts.hits + cacheCounts.misses;
 
       return new Response(
         JSON.stringify({
           status: 'ok',
-          mode: 'free',
+          mode: client.token ? 'token' : 'free',
           now: new Date().toISOString(),
           trace_id: requestId,
+          ...(client.token
+            ? { token: { name: client.token.name, leagues: Array.from(client.token.leagues) } }
+            : {}),
           rate_limit: {
             day: {
               limit: rate.limitDay,
@@ -486,7 +606,15 @@ export default {
               limit: rate.limitMinute,
               remaining: rate.remainingMinute,
             },
-            endpoint_minute_limits: ENDPOINT_BURST_LIMITS,
+            // Tokens get their whole minute quota on every endpoint
+            endpoint_minute_limits: client.token ? null : ENDPOINT_BURST_LIMITS,
+          },
+          cache: {
+            day: new Date().toISOString().slice(0, 10),
+            hits: cacheCounts.hits,
+            misses: cacheCounts.misses,
+            hit_rate: cacheTotal > 0 ? Math.round((cacheCounts.hits / cacheTotal) * 1000) / 1000 : null,
+            ttl_seconds: CACHE_TTLS,
           },
         }),
         {
@@ -516,31 +644,36 @@ export default {
       );
     }
 
-    const allowedLeagues = parseAllowedLeagues(env);
-    const validation = validateQuery(endpoint, url.searchParams, allowedLeagues);
+    // Free mode counts per IP; a bearer token brings its own quota and leagues
+    const resolved = await resolveRateLimitClient(request, env);
+    if (!resolved.ok) {
+      return errorResponse(resolved.message, resolved.status, jsonHeaders(requestId, { 'WWW-Authenticate': 'Bearer' }));
+    }
+    const client = resolved.client;
+
+    const validation = validateQuery(endpoint, url.searchParams, client.leagues);
     if (!validation.ok) {
       return errorResponse(validation.message, validation.status, jsonHeaders(requestId));
     }
 
-    // Get client IP
-    const ip = request.headers.get('CF-Connecting-IP') || 'unknown';
-
     // Check rate limit first, including cache hits.
-    const rateLimitDay = parsePositiveInt(env.RATE_LIMIT_PER_DAY, 50);
-    const rateLimitMinute = parsePositiveInt(env.RATE_LIMIT_PER_MINUTE, 10);
-    const endpointBurstLimit = ENDPOINT_BURST_LIMITS[endpoint] ?? rateLimitMinute;
+    const endpointBurstLimit = client.token
+      ? client.limitPerMinute
+      : ENDPOINT_BURST_LIMITS[endpoint] ?? client.limitPerMinute;
     const rate = await checkRateLimit(
       env.RATE_LIMITS,
-      ip,
+      client.id,
       endpoint,
-      rateLimitDay,
-      rateLimitMinute,
+      client.limitPerDay,
+      client.limitPerMinute,
       endpointBurstLimit
     );
 
     if (!rate.allowed) {
       return errorResponse(
-        'Rate limit exceeded. Run "rugbyclaw config" to add your own API key for unlimited access.',
+        client.token
+          ? `Rate limit exceeded for API token "${client.token.name}".`
+          : 'Rate limit exceeded. Run "rugbyclaw config" to add your own API key for unlimited access.',
         429,
         jsonHeaders(requestId, {
           'X-RateLimit-Limit-Day': rate.limitDay.toString(),
@@ -554,10 +687,11 @@ export default {
       );
     }
 
-    // Edge cache.
+    // Shared edge cache: one entry per endpoint + normalized query, for every client
     const cache = caches.default;
-    const cacheKey = new Request(url.toString(), { method: 'GET' });
+    const cacheKey = new Request(normalizeCacheKey(endpoint, url.searchParams), { method: 'GET' });
     const cached = await cache.match(cacheKey);
+    cacheStats.record(cached ? 'hit' : 'miss', env.RATE_LIMITS, ctx);
     if (cached) {
       const headers = new Headers(cached.headers);
       headers.set('X-Cache', 'HIT');
@@ -611,7 +745,7 @@ export default {
       });
 
       // Cache successful responses.
-      if (apiResponse.ok) {
+      if (apiResponse.ok && isCacheableBody(body)) {
         ctx.waitUntil(cache.put(cacheKey, response.clone()));
       }
 
@@ -621,4 +755,15 @@ export default {
       return errorResponse('Upstream API error', 502, jsonHeaders(requestId));
     }
   },
+
+  /**
+   * Cron trigger: poll live games once and push changes to subscribers.
+   */
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(
+      runPushTick(env.RATE_LIMITS, env.API_SPORTS_KEY, parseAllowedLeagues(env)).catch((error) => {
+        console.error('Push tick failed:', error);
+      })
+    );
+  },
 };
@@ -0,0 +1,552 @@
+/**
+ * Push subscriptions.
+ *
+ * Clients register a webhook with optional team/league filters. A scheduled
+ * handler polls API-Sports once per tick for the day's games and posts what
+ * changed to every matching webhook, so clients no longer poll /games.
+ *
+ * Subscriptions and the last game snapshot live in the RATE_LIMITS KV
+ * namespace under `push:` keys. Each subscription is its own key, so
+ * concurrent registrations and deletions never overwrite each other. A tick
+ * reads the snapshot first and only lists subscriptions when the schedule is
+ * due a refresh or a game is on, so idle ticks cost a single KV read.
+ */
+
+const API_SPORTS_BASE = 'https://v1.rugby.api-sports.io';
+
+const SUBSCRIPTION_KEY_PREFIX = 'push:sub:';
+const SNAPSHOT_KEY = 'push:snapshot';
+
+const MAX_BODY_BYTES = 4096;
+const MAX_WEBHOOK_URL_LENGTH = 512;
+const MAX_FILTER_TEAMS = 20;
+/**
+ * A tick makes at most two upstream calls and one webhook call per
+ * subscription, and an invocation may make 50 subrequests on the free plan.
+ */
+const MAX_SUBSCRIPTIONS = 40;
+const MAX_DELIVERY_FAILURES = 10;
+const SUBSCRIPTION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const DELIVERY_TIMEOUT_MS = 5000;
+/** Webhooks called at once; Workers allow six open connections. */
+const DELIVERY_CONCURRENCY = 6;
+
+/** Re-read the day's schedule this often even when nothing is on. */
+const SCHEDULE_REFRESH_MS = 60 * 60 * 1000;
+/** Start polling this long before a kickoff... */
+const KICKOFF_LEAD_MS = 5 * 60 * 1000;
+/** ...and give up on a game that hasn't finished this long after it. */
+const MATCH_WINDOW_MS = 4 * 60 * 60 * 1000;
+
+/** Wildcard DNS services: `127.0.0.1.nip.io` resolves to 127.0.0.1. */
+const WILDCARD_DNS_SUFFIXES = ['nip.io', 'sslip.io', 'xip.io', 'nip.direct', 'localtest.me', 'lvh.me', 'traefik.me'];
+/** An IPv4 address spelled inside a hostname, with dots or dashes. */
+const EMBEDDED_IPV4 = /(^|[.-])\d{1,3}([.-])\d{1,3}\2\d{1,3}\2\d{1,3}([.-]|$)/;
+
+const LIVE_STATUSES = new Set(['1H', '2H', 'HT', 'ET', 'BT', 'P', 'INT']);
+const FINISHED_STATUSES = new Set(['FT', 'AET', 'PEN', 'AWD', 'WO']);
+const OFF_STATUSES = new Set(['PST', 'POST', 'SUSP', 'CANC', 'ABD']);
+
+export interface PushSubscription {
+  id: string;
+  url: string;
+  secret: string; // signs deliveries and authorizes DELETE
+  teams: string[]; // API-Sports team ids; empty means every team
+  leagues: string[]; // API-Sports league ids; empty means every free-mode league
+  ip: string;
+  created_at: string;
+  expires_at: number;
+  failures: number; // consecutive failed deliveries
+}
+
+export type PushEventType = 'kickoff' | 'score_update' | 'half_time' | 'fulltime';
+
+export interface PushEvent {
+  type: PushEventType;
+  game_id: string;
+  league: { id: string; name: string };
+  home: { id: string; name: string; score: number | null };
+  away: { id: string; name: string; score: number | null };
+  status: string;
+  kickoff: string;
+}
+
+interface GameSnapshot {
+  date: string; // YYYY-MM-DD the game is listed under
+  league: string;
+  home_id: string;
+  away_id: string;
+  timestamp: number;
+  status: string;
+  home: number | null;
+  away: number | null;
+}
+
+export interface PushSnapshot {
+  date: string;
+  fetched_at: number;
+  games: Record<string, GameSnapshot>;
+  idle?: boolean; // nobody was subscribed, so nothing was fetched
+}
+
+interface ApiGame {
+  id: number;
+  date: string;
+  timestamp: number;
+  status: { short: string };
+  league: { id: number; name: string };
+  teams: { home: { id: number; name: string }; away: { id: number; name: string } };
+  scores: { home: number | null; away: number | null };
+}
+
+export interface PushTickResult {
+  polled: boolean;
+  events: number;
+  delivered: number;
+  failed: number; // webhook answered non-2xx or timed out
+  errors: number; // delivery broke on our side; not held against the webhook
+  removed: number; // subscriptions dropped after repeated failures
+}
+
+type DeliveryOutcome = 'delivered' | 'failed' | 'error';
+
+type Filtered = Pick<PushSubscription, 'teams' | 'leagues'>;
+
+function pushError(message: string, status: number, headers: Record<string, string>): Response {
+  return new Response(JSON.stringify({ error: message }), { status, headers });
+}
+
+function todayYmd(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function isPositiveIntegerId(value: unknown): boolean {
+  return (typeof value === 'string' || typeof value === 'number') && /^\d{1,12}$/.test(String(value));
+}
+
+/**
+ * Webhooks must be public https URLs: no credentials, no IP literals, no
+ * local hostnames and no names that spell out an IP address. This is a
+ * first filter, not the guarantee: a public name can still resolve to a
+ * private address, and it's the Workers runtime, which only connects out
+ * to the public internet, that keeps deliveries off internal networks.
+ */
+export function validateWebhookUrl(value: unknown): { ok: true; url: string } | { ok: false; message: string } {
+  if (typeof value !== 'string' || value.length === 0) return { ok: false, message: 'url is required' };
+  if (value.length > MAX_WEBHOOK_URL_LENGTH) return { ok: false, message: 'url too long' };
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return { ok: false, message: 'url is not a valid URL' };
+  }
+
+  if (url.protocol !== 'https:') return { ok: false, message: 'url must use https' };
+  if (url.username || url.password) return { ok: false, message: 'url must not contain credentials' };
+
+  const host = url.hostname.toLowerCase();
+  const isIpLiteral = /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.startsWith('[');
+  if (
+    isIpLiteral
+    || !host.includes('.')
+    || host.endsWith('.')
+    || EMBEDDED_IPV4.test(host)
+    || WILDCARD_DNS_SUFFIXES.some((suffix) => host === suffix || host.endsWith(`.${suffix}`))
+    || host === 'localhost'
+    || host.endsWith('.localhost')
+    || host.endsWith('.local')
+    || host.endsWith('.internal')
+  ) {
+    return { ok: false, message: 'url must point to a public hostname' };
+  }
+
+  return { ok: true, url: url.toString() };
+}
+
+function subscriptionKey(id: string): string {
+  return `${SUBSCRIPTION_KEY_PREFIX}${id}`;
+}
+
+async function loadSubscription(kv: KVNamespace, id: string, now: number): Promise<PushSubscription | null> {
+  const subscription = await kv.get<PushSubscription>(subscriptionKey(id), 'json');
+  return subscription && subscription.expires_at > now ? subscription : null;
+}
+
+async function loadSubscriptions(kv: KVNamespace, now: number): Promise<PushSubscription[]> {
+  const ids: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix: SUBSCRIPTION_KEY_PREFIX, cursor });
+    ids.push(...page.keys.map((key) => key.name.slice(SUBSCRIPTION_KEY_PREFIX.length)));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  const subscriptions = await Promise.all(ids.map((id) => loadSubscription(kv, id, now)));
+  return subscriptions.filter((subscription): subscription is PushSubscription => subscription !== null);
+}
+
+/** KV expires the key along with the subscription. */
+async function saveSubscription(kv: KVNamespace, subscription: PushSubscription, now: number): Promise<void> {
+  const ttlSeconds = Math.max(60, Math.ceil((subscription.expires_at - now) / 1000));
+  await kv.put(subscriptionKey(subscription.id), JSON.stringify(subscription), { expirationTtl: ttlSeconds });
+}
+
+function randomToken(bytes: number): string {
+  const data = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(data, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * POST /subscriptions {url, teams?, leagues?}. Registering the same URL again
+ * from the same IP updates its filters and renews it (subscriptions expire
+ * after 30 days) without changing its id or secret.
+ */
+export async function handleCreateSubscription(
+  request: Request,
+  kv: KVNamespace,
+  allowedLeagues: Set<string>,
+  maxPerIp: number,
+  headers: Record<string, string>,
+  now: number = Date.now()
+): Promise<Response> {
+  const text = await request.text();
+  if (text.length > MAX_BODY_BYTES) return pushError('Request body too large', 413, headers);
+
+  let body: { url?: unknown; teams?: unknown; leagues?: unknown };
+  try {
+    body = JSON.parse(text) as typeof body;
+  } catch {
+    return pushError('Request body must be JSON', 400, headers);
+  }
+  if (!body || typeof body !== 'object') return pushError('Request body must be a JSON object', 400, headers);
+
+  const webhook = validateWebhookUrl(body.url);
+  if (!webhook.ok) return pushError(webhook.message, 400, headers);
+
+  const teams = body.teams ?? [];
+  if (!Array.isArray(teams) || teams.length > MAX_FILTER_TEAMS || !teams.every(isPositiveIntegerId)) {
+    return pushError(`teams must be a list of up to ${MAX_FILTER_TEAMS} team ids`, 400, headers);
+  }
+  const leagues = body.leagues ?? [];
+  if (!Array.isArray(leagues) || !leagues.every(isPositiveIntegerId)) {
+    return pushError('leagues must be a list of league ids', 400, headers);
+  }
+  if (leagues.some((league) => !allowedLeagues.has(String(league)))) {
+    return pushError('League not available in free mode.', 403, headers);
+  }
+
+  const ip = request.headers.get('CF-Connecting-IP') || 'unknown';
+  const subscriptions = await loadSubscriptions(kv, now);
+  const existing = subscriptions.find((subscription) => subscription.ip === ip && subscription.url === webhook.url);
+
+  if (!existing) {
+    if (subscriptions.filter((subscription) => subscription.ip === ip).length >= maxPerIp) {
+      return pushError(`At most ${maxPerIp} subscriptions per client`, 429, headers);
+    }
+    if (subscriptions.length >= MAX_SUBSCRIPTIONS) {
+      return pushError('Subscriptions are full, try again later', 503, headers);
+    }
+  }
+
+  const subscription: PushSubscription = {
+    id: existing?.id ?? randomToken(8),
+    url: webhook.url,
+    secret: existing?.secret ?? randomToken(24),
+    teams: [...new Set(teams.map(String))],
+    leagues: [...new Set(leagues.map(String))],
+    ip,
+    created_at: existing?.created_at ?? new Date(now).toISOString(),
+    expires_at: now + SUBSCRIPTION_TTL_MS,
+    failures: 0,
+  };
+  await saveSubscription(kv, subscription, now);
+  if (!existing) await wakeIdleSnapshot(kv);
+
+  return new Response(
+    JSON.stringify({
+      id: subscription.id,
+      secret: subscription.secret,
+      url: subscription.url,
+      teams: subscription.teams,
+      leagues: subscription.leagues,
+      expires_at: new Date(subscription.expires_at).toISOString(),
+    }),
+    { status: existing ? 200 : 201, headers }
+  );
+}
+
+/**
+ * DELETE /subscriptions/<id> with the subscription's secret in
+ * `X-Rugbyclaw-Secret`. Unknown ids and wrong secrets both answer 404.
+ */
+export async function handleDeleteSubscription(
+  request: Request,
+  id: string,
+  kv: KVNamespace,
+  headers: Record<string, string>,
+  now: number = Date.now()
+): Promise<Response> {
+  const secret = request.headers.get('X-Rugbyclaw-Secret') || '';
+  const target = await loadSubscription(kv, id, now);
+  if (!target || target.secret !== secret) return pushError('Subscription not found', 404, headers);
+
+  await kv.delete(subscriptionKey(id));
+  return new Response(null, { status: 204, headers });
+}
+
+/**
+ * Drop a snapshot written while nobody was subscribed, so the next tick
+ * fetches the day for the new subscriber instead of waiting for the hourly
+ * refresh.
+ */
+async function wakeIdleSnapshot(kv: KVNamespace): Promise<void> {
+  const snapshot = await kv.get<PushSnapshot>(SNAPSHOT_KEY, 'json');
+  if (snapshot?.idle) await kv.delete(SNAPSHOT_KEY);
+}
+
+function matchesFilter(filter: Filtered, league: string, homeId: string, awayId: string): boolean {
+  if (filter.leagues.length > 0 && !filter.leagues.includes(league)) return false;
+  if (filter.teams.length > 0 && !filter.teams.includes(homeId) && !filter.teams.includes(awayId)) return false;
+  return true;
+}
+
+function isScheduleDue(snapshot: PushSnapshot, now: number): boolean {
+  return snapshot.date !== todayYmd(now) || now - snapshot.fetched_at >= SCHEDULE_REFRESH_MS;
+}
+
+function isGameOn(game: GameSnapshot, now: number): boolean {
+  if (FINISHED_STATUSES.has(game.status) || OFF_STATUSES.has(game.status)) return false;
+  const kickoff = game.timestamp * 1000;
+  return now >= kickoff - KICKOFF_LEAD_MS && now <= kickoff + MATCH_WINDOW_MS;
+}
+
+/**
+ * Whether a tick needs the subscriptions at all: the schedule is due a
+ * refresh, or some listed game is about to start or in play.
+ */
+function hasPushWork(snapshot: PushSnapshot | null, now: number): boolean {
+  if (!snapshot || isScheduleDue(snapshot, now)) return true;
+  return Object.values(snapshot.games).some((game) => isGameOn(game, now));
+}
+
+/**
+ * Poll when there is no usable snapshot, once an hour to pick up schedule
+ * changes, and while a game some subscription cares about is about to start
+ * or in play.
+ */
+export function shouldPoll(snapshot: PushSnapshot | null, subscriptions: Filtered[], now: number): boolean {
+  if (!snapshot || isScheduleDue(snapshot, now)) return true;
+
+  return Object.values(snapshot.games).some((game) =>
+    isGameOn(game, now)
+    && subscriptions.some((subscription) => matchesFilter(subscription, game.league, game.home_id, game.away_id)));
+}
+
+function toSnapshot(game: ApiGame): GameSnapshot {
+  return {
+    date: game.date.slice(0, 10),
+    league: String(game.league.id),
+    home_id: String(game.teams.home.id),
+    away_id: String(game.teams.away.id),
+    timestamp: game.timestamp,
+    status: game.status.short,
+    home: game.scores.home,
+    away: game.scores.away,
+  };
+}
+
+/**
+ * What changed for one game between two snapshots. A game seen for the
+ * first time has no events: there is nothing to compare it with.
+ */
+export function diffGame(previous: GameSnapshot | undefined, game: ApiGame): PushEventType[] {
+  if (!previous) return [];
+  const status = game.status.short;
+  const types: PushEventType[] = [];
+
+  if (!LIVE_STATUSES.has(previous.status) && !FINISHED_STATUSES.has(previous.status) && LIVE_STATUSES.has(status)) {
+    types.push('kickoff');
+  }
+  if (FINISHED_STATUSES.has(status)) {
+    if (!FINISHED_STATUSES.has(previous.status)) types.push('fulltime');
+    return types;
+  }
+  // Scores go from null to 0-0 at kickoff; that isn't a score
+  if ((previous.home ?? 0) !== (game.scores.home ?? 0) || (previous.away ?? 0) !== (game.scores.away ?? 0)) {
+    if (LIVE_STATUSES.has(status)) types.push('score_update');
+  }
+  if (status === 'HT' && previous.status !== 'HT') types.push('half_time');
+
+  return types;
+}
+
+function toEvent(type: PushEventType, game: ApiGame): PushEvent {
+  return {
+    type,
+    game_id: String(game.id),
+    league: { id: String(game.league.id), name: game.league.name },
+    home: { id: String(game.teams.home.id), name: game.teams.home.name, score: game.scores.home },
+    away: { id: String(game.teams.away.id), name: game.teams.away.name, score: game.scores.away },
+    status: game.status.short,
+    kickoff: new Date(game.timestamp * 1000).toISOString(),
+  };
+}
+
+async function sign(secret: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * POST events to one webhook, signed with its secret:
+ * `X-Rugbyclaw-Signature: sha256=<hex HMAC of the body>`. Only a non-2xx
+ * answer or a timeout is the webhook's failure; anything else thrown
+ * (e.g. the runtime refusing another subrequest) is an error on our side.
+ */
+async function deliver(subscription: PushSubscription, events: PushEvent[]): Promise<DeliveryOutcome> {
+  const body = JSON.stringify({ subscription_id: subscription.id, events });
+  try {
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'rugbyclaw-proxy',
+        'X-Rugbyclaw-Signature': `sha256=${await sign(subscription.secret, body)}`,
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    return response.ok ? 'delivered' : 'failed';
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') return 'failed';
+    console.error(`Push delivery to ${subscription.id} failed:`, error);
+    return 'error';
+  }
+}
+
+/**
+ * Run `task` over `items`, at most `limit` at a time, keeping order.
+ */
+async function mapConcurrently<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await task(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+async function fetchGames(apiKey: string, date: string): Promise<ApiGame[]> {
+  const url = new URL('/games', API_SPORTS_BASE);
+  url.searchParams.set('date', date);
+  const response = await fetch(url.toString(), { headers: { 'x-apisports-key': apiKey } });
+  if (!response.ok) throw new Error(`API-Sports /games returned ${response.status}`);
+  const data = (await response.json()) as { response?: ApiGame[] };
+  return data.response ?? [];
+}
+
+/**
+ * One scheduled tick: poll upstream if anything worth watching is on, diff
+ * against the last snapshot and fan the changes out to subscribers.
+ * Unfinished games from yesterday's list are polled too, for matches that
+ * run past midnight UTC.
+ */
+export async function runPushTick(
+  kv: KVNamespace,
+  apiKey: string,
+  allowedLeagues: Set<string>,
+  now: number = Date.now()
+): Promise<PushTickResult> {
+  const result: PushTickResult = { polled: false, events: 0, delivered: 0, failed: 0, errors: 0, removed: 0 };
+
+  const snapshot = await kv.get<PushSnapshot>(SNAPSHOT_KEY, 'json');
+  if (!hasPushWork(snapshot, now)) return result;
+
+  const today = todayYmd(now);
+  const subscriptions = await loadSubscriptions(kv, now);
+  if (subscriptions.length === 0) {
+    // Keep the following ticks idle until the next hourly refresh
+    const idle: PushSnapshot = { date: today, fetched_at: now, games: {}, idle: true };
+    await kv.put(SNAPSHOT_KEY, JSON.stringify(idle));
+    return result;
+  }
+  if (!shouldPoll(snapshot, subscriptions, now)) return result;
+
+  const dates = new Set([today]);
+  for (const game of Object.values(snapshot?.games ?? {})) {
+    const unfinished = !FINISHED_STATUSES.has(game.status) && !OFF_STATUSES.has(game.status);
+    if (unfinished && now <= game.timestamp * 1000 + MATCH_WINDOW_MS) dates.add(game.date);
+  }
+
+  const games: ApiGame[] = [];
+  for (const date of dates) {
+    games.push(...(await fetchGames(apiKey, date)).filter((game) => allowedLeagues.has(String(game.league.id))));
+  }
+  result.polled = true;
+
+  const next: PushSnapshot = { date: today, fetched_at: now, games: {} };
+  const events: PushEvent[] = [];
+  for (const game of games) {
+    const id = String(game.id);
+    next.games[id] = toSnapshot(game);
+    for (const type of diffGame(snapshot?.games[id], game)) events.push(toEvent(type, game));
+  }
+
+  // Scores move more often than the schedule: only write when something did
+  const changed = events.length > 0
+    || !snapshot
+    || snapshot.date !== today
+    || now - snapshot.fetched_at >= SCHEDULE_REFRESH_MS
+    || JSON.stringify(snapshot.games) !== JSON.stringify(next.games);
+  if (changed) await kv.put(SNAPSHOT_KEY, JSON.stringify(next));
+
+  result.events = events.length;
+  if (events.length === 0) return result;
+
+  // Oldest first, and no more than one tick's worth of webhook calls
+  const deliveries = subscriptions
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map((subscription) => ({
+      subscription,
+      events: events.filter((event) => matchesFilter(subscription, event.league.id, event.home.id, event.away.id)),
+    }))
+    .filter((delivery) => delivery.events.length > 0)
+    .slice(0, MAX_SUBSCRIPTIONS);
+  const outcomes = await mapConcurrently(deliveries, DELIVERY_CONCURRENCY, (delivery) =>
+    deliver(delivery.subscription, delivery.events));
+
+  // Consecutive failures per subscription id; null drops the subscription
+  const updates = new Map<string, number | null>();
+  for (const [index, { subscription }] of deliveries.entries()) {
+    const outcome = outcomes[index];
+    if (outcome === 'error') {
+      result.errors += 1;
+    } else if (outcome === 'delivered') {
+      result.delivered += 1;
+      if (subscription.failures > 0) updates.set(subscription.id, 0);
+    } else {
+      result.failed += 1;
+      const failures = subscription.failures + 1;
+      if (failures >= MAX_DELIVERY_FAILURES) result.removed += 1;
+      updates.set(subscription.id, failures >= MAX_DELIVERY_FAILURES ? null : failures);
+    }
+  }
+
+  for (const [id, failures] of updates) {
+    // Re-read: the client may have renewed or deleted it meanwhile
+    const current = await loadSubscription(kv, id, now);
+    if (!current) continue;
+    if (failures === null) await kv.delete(subscriptionKey(id));
+    else await saveSubscription(kv, { ...current, failures }, now);
+  }
+
+  return result;
+}
@@ -0,0 +1,82 @@
+/**
+ * API tokens for named clients.
+ *
+ * A client sending `Authorization: Bearer <token>` is rate limited on its
+ * own quota instead of its IP's, and may use its own league allowlist.
+ * Tokens are issued by putting a record in the RATE_LIMITS KV namespace
+ * under `token:<sha256 hex of the token>`, so KV never holds the token.
+ */
+
+const TOKEN_KEY_PREFIX = 'token:';
+const MAX_LEAGUES = 50;
+
+/** A token's KV record, as written by whoever issues it. */
+export interface ApiTokenRecord {
+  name: string;
+  limit_per_day: number;
+  limit_per_minute: number;
+  /** API-Sports league ids; empty or missing means DEFAULT_LEAGUES. */
+  leagues?: string[];
+  disabled?: boolean;
+}
+
+export interface ApiTokenTier {
+  name: string;
+  /** Stands in for the client IP in rate limit counter keys. */
+  rateLimitId: string;
+  limitPerDay: number;
+  limitPerMinute: number;
+  leagues: Set<string>;
+}
+
+export type BearerToken =
+  | { kind: 'none' }
+  | { kind: 'invalid' }
+  | { kind: 'token'; token: string };
+
+/**
+ * Read the bearer token, if any. A malformed header is rejected rather
+ * than treated as anonymous, so a broken client config fails loudly.
+ */
+export function parseBearerToken(header: string | null): BearerToken {
+  if (header === null) return { kind: 'none' };
+  const match = /^Bearer ([A-Za-z0-9._~-]{16,128})$/.exec(header.trim());
+  return match ? { kind: 'token', token: match[1] } : { kind: 'invalid' };
+}
+
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function isPositiveLimit(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Look a token up in KV. Returns null for unknown, disabled or malformed
+ * records; leagues fall back to `defaultLeagues`.
+ */
+export async function resolveApiToken(
+  kv: KVNamespace,
+  token: string,
+  defaultLeagues: Set<string>
+): Promise<ApiTokenTier | null> {
+  const hash = await hashToken(token);
+  const record = await kv.get<ApiTokenRecord>(`${TOKEN_KEY_PREFIX}${hash}`, 'json');
+  if (!record || record.disabled) return null;
+  if (typeof record.name !== 'string' || !isPositiveLimit(record.limit_per_day) || !isPositiveLimit(record.limit_per_minute)) {
+    console.error(`Token record ${hash.slice(0, 12)} is malformed`);
+    return null;
+  }
+
+  const leagues = (record.leagues ?? []).map(String).filter((id) => /^\d{1,12}$/.test(id)).slice(0, MAX_LEAGUES);
+
+  return {
+    name: record.name,
+    rateLimitId: `token-${hash.slice(0, 32)}`,
+    limitPerDay: record.limit_per_day,
+    limitPerMinute: record.limit_per_minute,
+    leagues: leagues.length > 0 ? new Set(leagues) : defaultLeagues,
+  };
+}